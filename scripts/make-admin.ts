@@ -0,0 +1,23 @@
+// Promote an existing account to admin: npm run make-admin -- <email>
+import { pool } from "../server/db";
+import { assertMigrated } from "../server/migrate";
+import { createUserRepository } from "../server/repositories/users";
+
+const email = process.argv[2];
+if (!email) {
+  console.error("Usage: npm run make-admin -- <email>");
+  process.exit(1);
+}
+
+try {
+  await assertMigrated(pool);
+  const user = await createUserRepository(pool).setRole(email, "admin");
+  if (user) {
+    console.log(`${user.name} (${email}) is now an admin.`);
+  } else {
+    console.error(`No user registered with email ${email}`);
+    process.exitCode = 1;
+  }
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,26 @@
+// Database migrations: npm run migrate -- <up|status>
+import { pool } from "../server/db";
+import { migrateUp, migrationStatus } from "../server/migrate";
+
+const command = process.argv[2] || "status";
+
+try {
+  if (command === "up") {
+    const applied = await migrateUp(pool);
+    if (applied.length === 0) console.log("Database is up to date.");
+    for (const m of applied) console.log(`Applied ${m.file}`);
+  } else if (command === "status") {
+    for (const m of await migrationStatus(pool)) {
+      const state = m.applied_at ? `applied ${new Date(m.applied_at).toISOString()}` : "pending";
+      console.log(`${String(m.version).padStart(4, "0")} ${m.name.padEnd(32)} ${state}`);
+    }
+  } else {
+    console.error("Usage: npm run migrate -- <up|status>");
+    process.exitCode = 1;
+  }
+} catch (err: any) {
+  console.error(err.message);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
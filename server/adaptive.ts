@@ -0,0 +1,66 @@
+import { AbilityEstimate, Question } from "../src/types";
+
+type Difficulty = Question["difficulty"];
+
+// Where each difficulty sits on the ability scale, as in a one-parameter
+// (Rasch) model: a candidate at theta = 0 gets a Medium question right half
+// the time
+const DIFFICULTY_SCALE: Record<Difficulty, number> = { Easy: -1, Medium: 0, Hard: 1 };
+const MAX_THETA = 3;
+
+// Each time a topic comes up counts against picking it again, so one weak
+// topic does not take over the test
+const REPEAT_PENALTY = 0.1;
+
+// An issued question and the answer given to it, if any
+export interface AdaptiveResponse {
+  question: Question;
+  selected: number | null;
+}
+
+export interface AdaptivePick {
+  difficulty: Difficulty;
+  // Undefined when the subject has no syllabus topics
+  topic?: string;
+}
+
+const round = (theta: number) => Math.round(theta * 100) / 100;
+
+export const abilityLevel = (theta: number): Difficulty =>
+  theta < -0.5 ? "Easy" : theta > 0.5 ? "Hard" : "Medium";
+
+export const describeAbility = (theta: number): AbilityEstimate => ({ theta: round(theta), level: abilityLevel(theta) });
+
+// Elo-style running estimate: each answer moves theta by how surprising it
+// was at that difficulty, in steps that shrink as answers accumulate. Skipped
+// questions say nothing about ability and are left out.
+export function estimateAbility(responses: AdaptiveResponse[]): number {
+  let theta = 0;
+  let answered = 0;
+  for (const { question, selected } of responses) {
+    if (selected === null) continue;
+    const expected = 1 / (1 + Math.exp(DIFFICULTY_SCALE[question.difficulty] - theta));
+    const actual = selected === question.correctAnswer ? 1 : 0;
+    const step = 1.2 / Math.sqrt(answered + 1);
+    theta = Math.max(-MAX_THETA, Math.min(MAX_THETA, theta + step * (actual - expected)));
+    answered++;
+  }
+  return round(theta);
+}
+
+// The next question's difficulty is the band the estimate is in; its topic is
+// the one going worst so far, by accuracy smoothed towards a half
+export function nextAdaptivePick(responses: AdaptiveResponse[], topics: string[]): AdaptivePick {
+  const difficulty = abilityLevel(estimateAbility(responses));
+  if (topics.length === 0) return { difficulty };
+
+  const score = (topic: string) => {
+    const asked = responses.filter(r => r.question.topic === topic);
+    const correct = asked.filter(r => r.selected === r.question.correctAnswer).length;
+    return (correct + 1) / (asked.length + 2) + REPEAT_PENALTY * asked.length;
+  };
+  const scores = topics.map(score);
+  const lowest = Math.min(...scores);
+  const weakest = topics.filter((_, i) => scores[i] === lowest);
+  return { difficulty, topic: weakest[Math.floor(Math.random() * weakest.length)] };
+}
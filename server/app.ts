@@ -0,0 +1,978 @@
+import express from "express";
+import bcrypt from "bcryptjs";
+import { Repositories } from "./repositories";
+import {
+  signAccessToken,
+  verifyAccessToken,
+  hashToken,
+  createRefreshToken,
+  createEmailVerificationToken,
+  createPasswordResetToken,
+} from "./auth";
+import { UserRow } from "./repositories/users";
+import { TopicIndex } from "./repositories/syllabus";
+import { TestSessionRow, SavedAnswerRow, IssuedQuestionRow } from "./repositories/testSessions";
+import { getMailer, Mailer } from "./mail";
+import { verificationEmail, passwordResetEmail } from "./mail/templates";
+import { generateQuestions, generateStaticPool, generateQuestionBank, generateAdaptiveQuestion } from "./generation";
+import { verificationEnabledByDefault } from "./verification";
+import { validateBody, validateQuery, toValidationIssues } from "./validate";
+import {
+  rateLimit,
+  sendTooManyRequests,
+  loadRateLimitConfig,
+  createMemoryRateLimitStore,
+  RateLimitConfig,
+  RateLimitStore,
+} from "./rateLimit";
+import {
+  registerSchema,
+  loginSchema,
+  refreshSchema,
+  logoutSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  startSessionSchema,
+  testSubmissionSchema,
+  saveAnswerSchema,
+  leaderboardQuerySchema,
+  bookmarkSchema,
+  reviewGradeSchema,
+  generateQuestionsSchema,
+  adaptiveQuestionSchema,
+  staticPoolSchema,
+  questionBankSchema,
+  seedStaticSchema,
+  questionSchema,
+  questionImportSchema,
+  questionExportQuerySchema,
+  questionEditSchema,
+  bankQuestionQuerySchema,
+  questionApprovalSchema,
+  duplicateQuerySchema,
+  questionMergeSchema,
+  blueprintSchema,
+} from "../src/schemas";
+import {
+  User,
+  Question,
+  ImportRow,
+  ImportReport,
+  IssuedQuestion,
+  BankQuestionPage,
+  DuplicateCluster,
+  TestType,
+  SUBJECT_TEST_FORMAT,
+  ADAPTIVE_TEST_FORMAT,
+  DEFAULT_SCORING,
+  ActiveTestSession,
+  TestSessionState,
+  ApiErrorBody,
+} from "../src/types";
+import { placeSections, subjectTestSections, legacySections } from "./paper";
+import { gradePaper } from "./scoring";
+import { scheduleReview } from "./review";
+import { AdaptiveResponse, estimateAbility, nextAdaptivePick } from "./adaptive";
+import { assembleFromBank } from "./bank";
+import { normalizeText, resolveTopic } from "./questionValidation";
+import { createDuplicateIndex, createDistinctFilter, findClusters } from "./duplicates";
+import { parseQuestionFile, formatQuestionFile, QuestionFileError, CONTENT_TYPES, ParsedRow } from "./questionFiles";
+
+// Auth Middleware
+const authenticate = (req: any, res: any, next: any) => {
+  const token = req.headers.authorization?.split(" ")[1];
+  if (!token) return res.status(401).json({ error: "Unauthorized" });
+  try {
+    req.user = verifyAccessToken(token);
+    next();
+  } catch (err) {
+    res.status(401).json({ error: "Invalid token" });
+  }
+};
+
+// Role Middleware (use after authenticate)
+const requireRole = (role: string) => (req: any, res: any, next: any) => {
+  if (req.user?.role !== role) return res.status(403).json({ error: "Forbidden" });
+  next();
+};
+
+// Only what a candidate needs to answer is sent. Stored questions also carry
+// the answer key and, from the static pool, its check (verified_answer), so
+// the fields are listed rather than the key stripped.
+const toIssuedQuestion = (position: number, q: Question): IssuedQuestion => ({
+  text: q.text,
+  options: q.options,
+  subject: q.subject,
+  ...(q.topic ? { topic: q.topic } : {}),
+  difficulty: q.difficulty,
+  position,
+});
+
+// Answers and autosaves this late are still accepted, to absorb network delay
+// on the submit the client sends when its timer runs out
+const DEADLINE_GRACE_SECONDS = 30;
+
+const isPastDeadline = (session: TestSessionRow) =>
+  session.remaining_seconds !== null && session.remaining_seconds < -DEADLINE_GRACE_SECONDS;
+
+// Sessions from before migration 0009 did not record their length (adaptive
+// tests came later and always do)
+const LEGACY_TEST_FORMATS: Record<TestType, { questions: number; minutes: number }> = {
+  Full: { questions: 200, minutes: 180 },
+  Subject: SUBJECT_TEST_FORMAT,
+  Adaptive: ADAPTIVE_TEST_FORMAT,
+};
+
+const toActiveSession = (session: TestSessionRow, answers: SavedAnswerRow[]): ActiveTestSession => {
+  const legacy = LEGACY_TEST_FORMATS[session.test_type];
+  const totalQuestions = session.total_questions ?? legacy.questions;
+  return {
+    id: session.id,
+    test_type: session.test_type,
+    subject: session.subject,
+    total_questions: totalQuestions,
+    time_limit_seconds: session.time_limit_seconds ?? legacy.minutes * 60,
+    sections: session.sections ?? legacySections(session.subject, totalQuestions),
+    scoring: session.scoring ?? DEFAULT_SCORING,
+    answered: answers.filter(a => a.selected_option !== null).length,
+    remaining_seconds: session.remaining_seconds === null ? null : Math.max(0, session.remaining_seconds),
+  };
+};
+
+// Issued questions in paper order, each with the answer saved for it
+const toResponses = (issued: IssuedQuestionRow[], answers: Record<string, number>): AdaptiveResponse[] =>
+  issued.map(r => ({ question: r.question, selected: answers[r.position] ?? null }));
+
+const toSessionState = (session: TestSessionRow, issued: IssuedQuestionRow[], saved: SavedAnswerRow[]): TestSessionState => ({
+  ...toActiveSession(session, saved),
+  questions: issued.map(r => toIssuedQuestion(r.position, r.question)),
+  answers: Object.fromEntries(saved.filter(a => a.selected_option !== null).map(a => [a.position, a.selected_option])),
+  time_spent: Object.fromEntries(saved.map(a => [a.position, a.time_spent])),
+});
+
+// Topics named by a filter that are not in the subject's syllabus
+const unknownTopics = (syllabus: TopicIndex, subject: string, topics: string[] = []) =>
+  topics.filter(t => !syllabus[subject]?.includes(t));
+
+const unknownTopicError = (subject: string, topics: string[]) =>
+  ({ error: `Unknown ${subject} topic${topics.length === 1 ? "" : "s"}: ${topics.join(", ")}` });
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  role: row.role,
+  email_verified: row.email_verified_at !== null,
+});
+
+export interface AppOptions {
+  mailer?: Mailer;
+  rateLimitStore?: RateLimitStore;
+  rateLimits?: Partial<RateLimitConfig>;
+}
+
+// API routes, backed by whichever database the repositories were built on
+export function createApp(repos: Repositories, options: AppOptions = {}) {
+  const mailer = options.mailer ?? getMailer();
+  const limitStore = options.rateLimitStore ?? createMemoryRateLimitStore();
+  const limits = { ...loadRateLimitConfig(), ...options.rateLimits };
+
+  const app = express();
+  // Question bank imports carry whole spreadsheets
+  app.use("/api/admin/questions/import", express.json({ limit: "5mb" }));
+  app.use(express.json());
+  // Behind a load balancer req.ip is only the client's address if the proxy
+  // hops are trusted; TRUST_PROXY is their number
+  if (process.env.TRUST_PROXY) app.set("trust proxy", Number(process.env.TRUST_PROXY));
+
+  const authLimit = rateLimit(limitStore, "auth-ip", limits.auth, req => req.ip);
+  const resetEmailLimit = rateLimit(limitStore, "reset-email", limits.passwordReset, req => req.body.email.toLowerCase());
+
+  // Auth Routes
+  // Every sign-in gets a short-lived access token and a refresh token that is
+  // exchanged for a new pair at /api/auth/refresh
+  async function issueSession(user: User) {
+    const refresh = createRefreshToken();
+    await repos.refreshTokens.create(user.id, refresh.hash, refresh.expiresAt);
+    return { token: signAccessToken(user), refresh_token: refresh.token, user };
+  }
+
+  // Mail failures are logged rather than surfaced, so they cannot be used to
+  // probe which emails are registered
+  async function sendVerificationEmail(user: { id: number; name: string; email: string }) {
+    try {
+      await repos.emailTokens.invalidate(user.id, "verify_email");
+      const verify = createEmailVerificationToken();
+      await repos.emailTokens.create(user.id, "verify_email", verify.hash, verify.expiresAt);
+      await mailer.send({ to: user.email, ...verificationEmail(user.name, verify.token) });
+    } catch (err) {
+      console.error("Failed to send verification email:", err);
+    }
+  }
+
+  app.post("/api/auth/register", authLimit, validateBody(registerSchema), async (req, res) => {
+    const { name, email, password } = req.body;
+    try {
+      const hashedPassword = await bcrypt.hash(password, 10);
+      const { id, role } = await repos.users.create(name, email, hashedPassword);
+      await sendVerificationEmail({ id, name, email });
+      res.json(await issueSession({ id, name, email, role, email_verified: false }));
+    } catch (err: any) {
+      if (err.code === "23505") {
+        res.status(400).json({ error: "Email already exists", issues: [{ path: "email", message: "Email already exists" }] });
+      } else {
+        res.status(500).json({ error: "Registration failed" });
+      }
+    }
+  });
+
+  app.post("/api/auth/login", authLimit, validateBody(loginSchema), async (req, res) => {
+    const { email, password } = req.body;
+    // Failures are counted per account too, so guessing from many IPs still locks it.
+    // Each attempt is counted before the password is checked, so that guesses
+    // sent all at once cannot slip past the limit; success clears the count.
+    const lockKey = `login-failures:${email.toLowerCase()}`;
+    const attempt = await limitStore.increment(lockKey, limits.loginLockout.windowMs);
+    if (attempt.count > limits.loginLockout.limit) {
+      return sendTooManyRequests(res, attempt.resetAt, "Too many failed sign-in attempts");
+    }
+
+    const user = await repos.users.findByEmail(email);
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({ error: "Invalid credentials" });
+    }
+    await limitStore.reset(lockKey);
+    res.json(await issueSession(toUser(user)));
+  });
+
+  // Rotates the refresh token: the presented one is revoked and a new pair issued
+  app.post("/api/auth/refresh", validateBody(refreshSchema), async (req, res) => {
+    const { refresh_token } = req.body;
+    // Each token works once, so only rejected ones are counted, per IP; valid
+    // renewals from users sharing an address are never held up
+    const failureKey = `refresh-failures:${req.ip}`;
+    const failures = await limitStore.get(failureKey);
+    if (failures && failures.count >= limits.refresh.limit) {
+      return sendTooManyRequests(res, failures.resetAt, "Too many invalid refresh tokens");
+    }
+    const reject = async (error: string) => {
+      await limitStore.increment(failureKey, limits.refresh.windowMs);
+      res.status(401).json({ error });
+    };
+
+    const hash = hashToken(refresh_token);
+    const current = await repos.refreshTokens.consume(hash);
+    if (!current) {
+      // A revoked token coming back means it was copied; end all of that user's sessions
+      const reused = await repos.refreshTokens.find(hash);
+      if (reused) await repos.refreshTokens.revokeAllForUser(reused.user_id);
+      return reject("Invalid refresh token");
+    }
+    if (new Date(current.expires_at) < new Date()) {
+      return reject("Refresh token expired");
+    }
+
+    const user = await repos.users.findById(current.user_id);
+    if (!user) return res.status(401).json({ error: "Invalid refresh token" });
+    res.json(await issueSession(toUser(user)));
+  });
+
+  // Works without an access token, which may already have expired
+  app.post("/api/auth/logout", validateBody(logoutSchema), async (req, res) => {
+    const { refresh_token } = req.body;
+    if (refresh_token) {
+      await repos.refreshTokens.consume(hashToken(refresh_token));
+    }
+    res.json({ success: true });
+  });
+
+  // Always succeeds, whether or not the email is registered
+  app.post("/api/auth/forgot", authLimit, validateBody(forgotPasswordSchema), resetEmailLimit, async (req, res) => {
+    const user = await repos.users.findByEmail(req.body.email);
+    if (user) {
+      try {
+        await repos.emailTokens.invalidate(user.id, "reset_password");
+        const reset = createPasswordResetToken();
+        await repos.emailTokens.create(user.id, "reset_password", reset.hash, reset.expiresAt);
+        await mailer.send({ to: user.email, ...passwordResetEmail(user.name, reset.token) });
+      } catch (err) {
+        console.error("Failed to send password reset email:", err);
+      }
+    }
+    res.json({ success: true });
+  });
+
+  // Sets a new password from an emailed link, signs out every other session
+  // and signs the user in
+  app.post("/api/auth/reset", authLimit, validateBody(resetPasswordSchema), async (req, res) => {
+    const { token, password } = req.body;
+
+    const reset = await repos.emailTokens.consume(hashToken(token), "reset_password");
+    if (!reset || new Date(reset.expires_at) < new Date()) {
+      return res.status(400).json({ error: "Invalid or expired reset link" });
+    }
+
+    await repos.users.setPassword(reset.user_id, await bcrypt.hash(password, 10));
+    await repos.refreshTokens.revokeAllForUser(reset.user_id);
+    // Receiving the link proves the address is theirs
+    await repos.users.markEmailVerified(reset.user_id);
+    res.json(await issueSession(toUser(await repos.users.findById(reset.user_id))));
+  });
+
+  app.post("/api/auth/verify", authLimit, validateBody(verifyEmailSchema), async (req, res) => {
+    const verify = await repos.emailTokens.consume(hashToken(req.body.token), "verify_email");
+    if (!verify || new Date(verify.expires_at) < new Date()) {
+      return res.status(400).json({ error: "Invalid or expired verification link" });
+    }
+    await repos.users.markEmailVerified(verify.user_id);
+    res.json({ success: true });
+  });
+
+  app.post("/api/auth/verify/resend", authenticate, async (req: any, res) => {
+    const user = await repos.users.findById(req.user.id);
+    if (!user) return res.status(404).json({ error: "User not found" });
+    if (user.email_verified_at) return res.status(409).json({ error: "Email already verified" });
+    await sendVerificationEmail(user);
+    res.json({ success: true });
+  });
+
+  // Test Routes
+  app.post("/api/tests/sessions", authenticate, validateBody(startSessionSchema), async (req: any, res) => {
+    const { test_type, subject, blueprint_id, topics, source } = req.body;
+
+    // Subject tests are marked like the exam the default blueprint describes
+    const defaultBlueprint = await repos.blueprints.findDefault();
+
+    let id: number;
+    if (test_type === "Full") {
+      // Full mocks follow the chosen blueprint, or the default one
+      const blueprint = blueprint_id
+        ? await repos.blueprints.find(blueprint_id)
+        : defaultBlueprint;
+      if (!blueprint) return res.status(404).json({ error: "Exam blueprint not found" });
+      id = await repos.testSessions.create({
+        userId: req.user.id,
+        testType: "Full",
+        subject: null,
+        blueprintId: blueprint.id,
+        sections: placeSections(blueprint.sections),
+        difficultyMix: blueprint.difficulty_mix,
+        scoring: blueprint.scoring,
+        timeLimitSeconds: blueprint.duration_minutes * 60,
+      });
+    } else {
+      const unknown = unknownTopics(await repos.syllabus.topicIndex(), subject, topics);
+      if (unknown.length > 0) return res.status(400).json(unknownTopicError(subject, unknown));
+      const format = test_type === "Adaptive" ? ADAPTIVE_TEST_FORMAT : SUBJECT_TEST_FORMAT;
+      id = await repos.testSessions.create({
+        userId: req.user.id,
+        testType: test_type,
+        subject,
+        blueprintId: null,
+        sections: subjectTestSections(subject, topics, format.questions),
+        difficultyMix: null,
+        scoring: defaultBlueprint?.scoring ?? DEFAULT_SCORING,
+        timeLimitSeconds: format.minutes * 60,
+      });
+    }
+
+    // Bank mode issues what the static pool can supply straight away, which
+    // also starts the clock; the client generates the rest as usual
+    if (source === "bank") {
+      const created = await repos.testSessions.find(id, req.user.id);
+      const draws = await assembleFromBank(repos.staticQuestions, toActiveSession(created, []).sections, created.difficulty_mix);
+      for (const { start, questions } of draws) {
+        if (questions.length > 0) await repos.testSessions.issueQuestions(id, start, questions);
+      }
+    }
+
+    res.json(toSessionState(await repos.testSessions.find(id, req.user.id), await repos.testSessions.listQuestions(id), []));
+  });
+
+  // The latest test the user can still resume, or null
+  app.get("/api/tests/sessions/active", authenticate, async (req: any, res) => {
+    const testSession = await repos.testSessions.findActive(req.user.id);
+    if (!testSession) return res.json(null);
+    res.json(toActiveSession(testSession, await repos.testSessions.listAnswers(testSession.id)));
+  });
+
+  // Issued questions and saved answers of an unsubmitted test, for resuming it
+  app.get("/api/tests/sessions/:id", authenticate, async (req: any, res) => {
+    const testSession = await repos.testSessions.find(parseInt(req.params.id) || 0, req.user.id);
+    if (!testSession) return res.status(404).json({ error: "Test session not found" });
+    if (testSession.attempt_id) return res.status(409).json({ error: "Test already submitted" });
+
+    const issued = await repos.testSessions.listQuestions(testSession.id);
+    const saved = await repos.testSessions.listAnswers(testSession.id);
+    res.json(toSessionState(testSession, issued, saved));
+  });
+
+  // Autosave of a single answer while the test is running
+  app.put("/api/tests/sessions/:id/answers/:position", authenticate, validateBody(saveAnswerSchema), async (req: any, res) => {
+    const { selected_option, time_spent } = req.body;
+    const position = parseInt(req.params.position);
+
+    const testSession = await repos.testSessions.find(parseInt(req.params.id) || 0, req.user.id);
+    if (!testSession) return res.status(404).json({ error: "Test session not found" });
+    if (testSession.attempt_id) return res.status(409).json({ error: "Test already submitted" });
+    if (isPastDeadline(testSession)) return res.status(409).json({ error: "Time is up for this test" });
+
+    const question = isNaN(position) ? null : await repos.testSessions.findQuestion(testSession.id, position, req.user.id);
+    if (!question) return res.status(404).json({ error: "Question not found" });
+    if (selected_option !== null && selected_option >= question.options.length) {
+      return res.status(400).json({ error: "Answer does not match the question" });
+    }
+    // Adaptive tests pick each question from the answers before it, so those
+    // answers are final once it is issued
+    if (testSession.test_type === "Adaptive") {
+      const issued = await repos.testSessions.listQuestions(testSession.id);
+      if (position < issued.length - 1) return res.status(409).json({ error: "Answers are locked once the next question is issued" });
+    }
+
+    await repos.testSessions.saveAnswer(testSession.id, position, selected_option, Math.round(time_spent));
+    res.json({ success: true });
+  });
+
+  app.post("/api/tests/sessions/:id/submit", authenticate, validateBody(testSubmissionSchema), async (req: any, res) => {
+    const testSession = await repos.testSessions.find(parseInt(req.params.id) || 0, req.user.id);
+    if (!testSession) return res.status(404).json({ error: "Test session not found" });
+    if (testSession.attempt_id) return res.status(409).json({ error: "Test already submitted" });
+
+    // Autosaved answers count unless the submission overrides them; once the
+    // deadline has passed only the autosaved ones do. In adaptive tests the
+    // answers before the latest question were locked when it was issued, so
+    // only the latest can still be overridden.
+    const saved = await repos.testSessions.listAnswers(testSession.id);
+    const issued = await repos.testSessions.listQuestions(testSession.id);
+    const late = isPastDeadline(testSession);
+    const firstOpen = testSession.test_type === "Adaptive" ? issued.length - 1 : 0;
+    const submitted = Object.entries<number>(late ? {} : req.body.answers).filter(([position]) => Number(position) >= firstOpen);
+    const answers: Record<string, number> = {
+      ...Object.fromEntries(saved.filter(a => a.selected_option !== null).map(a => [a.position, a.selected_option])),
+      ...Object.fromEntries(submitted),
+    };
+    const timeSpent: Record<string, number> = {
+      ...Object.fromEntries(saved.map(a => [a.position, a.time_spent])),
+      ...req.body.time_spent,
+    };
+
+    const questions = new Map(issued.map(r => [r.position, r.question]));
+    // Nothing to mark yet, and an attempt out of zero would break the averages
+    if (questions.size === 0) return res.status(409).json({ error: "No questions have been issued for this test yet" });
+
+    // Every answer must refer to an issued question and one of its options
+    for (const [position, option] of Object.entries<number>(answers)) {
+      const q = questions.get(Number(position));
+      if (!q || option >= q.options.length) {
+        return res.status(400).json({ error: "Answers do not match the issued test" });
+      }
+    }
+
+    // Fixed papers are marked out of their full length, so submitting after
+    // the first batch is no shortcut to a perfect score. Adaptive tests may be
+    // ended at any question and are marked on the questions asked.
+    const { sections, scoring, total_questions } = toActiveSession(testSession, saved);
+    const adaptive = testSession.test_type === "Adaptive";
+    const graded = gradePaper(sections, scoring, questions, answers, adaptive);
+    const ability = adaptive ? estimateAbility(toResponses(issued, answers)) : null;
+
+    try {
+      const attemptId = await repos.attempts.saveForSession({
+        userId: req.user.id,
+        sessionId: testSession.id,
+        testType: testSession.test_type,
+        subject: testSession.subject,
+        score: graded.correct,
+        total: adaptive ? questions.size : total_questions,
+        marks: graded.marks,
+        maxMarks: graded.max_marks,
+        scoring,
+        sections: graded.sections,
+        ability,
+        duration: Math.floor(testSession.elapsed_seconds / 60),
+        items: [...questions].map(([position, question]) => ({
+          position,
+          question,
+          selected: answers[position] ?? null,
+          timeSpent: Math.round(timeSpent[position] ?? 0),
+        })),
+      });
+      // Guard against a concurrent submit of the same session
+      if (attemptId === null) return res.status(409).json({ error: "Test already submitted" });
+      const missed = [...questions]
+        .filter(([position, question]) => answers[position] !== undefined && answers[position] !== question.correctAnswer)
+        .map(([, question]) => question);
+      await repos.review.enqueue(req.user.id, missed, "missed");
+      const bookmarked = await repos.testSessions.listBookmarked(testSession.id);
+      for (const question of bookmarked) await repos.bookmarks.add(req.user.id, question);
+      await repos.review.enqueue(req.user.id, bookmarked, "bookmark");
+      res.json(await repos.attempts.findDetail(attemptId, req.user.id));
+    } catch (err) {
+      res.status(500).json({ error: "Failed to save test" });
+    }
+  });
+
+  app.get("/api/tests/history", authenticate, async (req: any, res) => {
+    res.json(await repos.attempts.listForUser(req.user.id));
+  });
+
+  app.get("/api/tests/:id", authenticate, async (req: any, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(404).json({ error: "Test not found" });
+
+    const attempt = await repos.attempts.findDetail(id, req.user.id);
+    if (!attempt) return res.status(404).json({ error: "Test not found" });
+    res.json(attempt);
+  });
+
+  // Filterable, paginated board that also reports the caller's own rank
+  app.get("/api/leaderboard", authenticate, validateQuery(leaderboardQuerySchema), async (req: any, res) => {
+    const { period, test_type, subject, min_attempts, page, page_size } = req.query;
+    res.json(await repos.attempts.leaderboard(
+      { period, testType: test_type, subject, minAttempts: min_attempts, page, pageSize: page_size },
+      req.user.id
+    ));
+  });
+
+  // Bookmark Routes
+  app.post("/api/bookmarks", authenticate, validateBody(bookmarkSchema), async (req: any, res) => {
+    let { question_data } = req.body;
+
+    // Questions from a test are bookmarked by reference, since the candidate
+    // does not hold their answer keys. Until the test is submitted the keys stay
+    // private, so the question is only marked, and bookmarked and queued for
+    // review on submit.
+    if (!question_data) {
+      const testSession = await repos.testSessions.find(req.body.session_id, req.user.id);
+      if (testSession && !testSession.attempt_id) {
+        if (!(await repos.testSessions.markBookmarked(testSession.id, req.body.position))) {
+          return res.status(404).json({ error: "Question not found" });
+        }
+        return res.json({ success: true });
+      }
+      question_data = testSession && await repos.testSessions.findQuestion(testSession.id, req.body.position, req.user.id);
+      if (!question_data) return res.status(404).json({ error: "Question not found" });
+    }
+
+    await repos.bookmarks.add(req.user.id, question_data);
+    await repos.review.enqueue(req.user.id, [question_data], "bookmark");
+    res.json({ success: true });
+  });
+
+  app.get("/api/bookmarks", authenticate, async (req: any, res) => {
+    res.json(await repos.bookmarks.listForUser(req.user.id));
+  });
+
+  app.delete("/api/bookmarks/:id", authenticate, async (req: any, res) => {
+    await repos.bookmarks.remove(parseInt(req.params.id) || 0, req.user.id);
+    res.json({ success: true });
+  });
+
+  // Review Routes: one due card at a time, rescheduled by the user's own grade
+  app.get("/api/review/next", authenticate, async (req: any, res) => {
+    res.json(await repos.review.next(req.user.id));
+  });
+
+  app.post("/api/review/:id/grade", authenticate, validateBody(reviewGradeSchema), async (req: any, res) => {
+    const card = await repos.review.find(parseInt(req.params.id) || 0, req.user.id);
+    if (!card) return res.status(404).json({ error: "Review card not found" });
+    res.json(await repos.review.reschedule(card.id, req.user.id, scheduleReview(card, req.body.grade)));
+  });
+
+  app.delete("/api/review/:id", authenticate, async (req: any, res) => {
+    await repos.review.remove(parseInt(req.params.id) || 0, req.user.id);
+    res.json({ success: true });
+  });
+
+  // AI Generation Routes
+  const AI_DAILY_QUOTA = Number(process.env.AI_DAILY_QUOTA) || 400;
+  const AI_ADMIN_DAILY_QUOTA = Number(process.env.AI_ADMIN_DAILY_QUOTA) || 2000;
+
+  const aiLimits = [
+    rateLimit(limitStore, "ai-ip", limits.aiPerIp, req => req.ip),
+    rateLimit(limitStore, "ai-user", limits.aiPerUser, req => req.user.id),
+  ];
+
+  // Quota Middleware (use after authenticate and validateBody): caps generated
+  // questions per user per day
+  const enforceAiQuota = async (req: any, res: any, next: any) => {
+    const { count = 1 } = req.body;
+    try {
+      const used = await repos.aiUsage.usedToday(req.user.id);
+      const limit = req.user.role === "admin" ? AI_ADMIN_DAILY_QUOTA : AI_DAILY_QUOTA;
+      if (used + count > limit) {
+        return res.status(429).json({ error: "Daily AI generation quota reached. Try again tomorrow." });
+      }
+      next();
+    } catch (err) {
+      res.status(500).json({ error: "Failed to check AI quota" });
+    }
+  };
+
+  app.post("/api/ai/questions", authenticate, aiLimits, validateBody(generateQuestionsSchema), enforceAiQuota, async (req: any, res) => {
+    const { session_id, start, count } = req.body;
+
+    const testSession = await repos.testSessions.find(session_id, req.user.id);
+    if (!testSession) return res.status(404).json({ error: "Test session not found" });
+    if (testSession.attempt_id) return res.status(409).json({ error: "Test already submitted" });
+    if (isPastDeadline(testSession)) return res.status(409).json({ error: "Time is up for this test" });
+
+    if (testSession.test_type === "Adaptive") {
+      return res.status(400).json({ error: "Adaptive tests issue one question at a time" });
+    }
+
+    const { sections, total_questions } = toActiveSession(testSession, []);
+    if (start + count > total_questions) {
+      return res.status(400).json({ error: `This test has only ${total_questions} questions` });
+    }
+
+    try {
+      // Questions already in this paper must not be repeated by later batches
+      const issued = await repos.testSessions.listQuestions(testSession.id);
+      const exclude = issued.map(r => r.question.text);
+
+      const paper = { sections, difficultyMix: testSession.difficulty_mix, syllabus: await repos.syllabus.topicIndex() };
+      const { questions, report } = await generateQuestions(paper, count, start, exclude);
+      await repos.aiUsage.record(req.user.id, "questions", questions.length);
+      await repos.testSessions.issueQuestions(testSession.id, start, questions);
+      res.json({ questions: questions.map((q, i) => toIssuedQuestion(start + i, q)), report });
+    } catch (err: any) {
+      if (err.code === "23505") {
+        res.status(409).json({ error: "Question positions already issued" });
+      } else {
+        console.error("Question generation failed:", err);
+        res.status(502).json({ error: "Failed to generate questions" });
+      }
+    }
+  });
+
+  // The next question of an adaptive test, at the difficulty the answers so far
+  // point to and on the weakest topic. The static pool is drawn on first; a
+  // question is generated only when it has none left to offer.
+  app.post("/api/ai/adaptive-question", authenticate, aiLimits, validateBody(adaptiveQuestionSchema), enforceAiQuota, async (req: any, res) => {
+    const testSession = await repos.testSessions.find(req.body.session_id, req.user.id);
+    if (!testSession) return res.status(404).json({ error: "Test session not found" });
+    if (testSession.attempt_id) return res.status(409).json({ error: "Test already submitted" });
+    if (testSession.test_type !== "Adaptive") return res.status(400).json({ error: "Only adaptive tests issue one question at a time" });
+    if (isPastDeadline(testSession)) return res.status(409).json({ error: "Time is up for this test" });
+
+    const { sections, total_questions } = toActiveSession(testSession, []);
+    const issued = await repos.testSessions.listQuestions(testSession.id);
+    if (issued.length >= total_questions) return res.status(409).json({ error: "All questions have been issued" });
+
+    const saved = await repos.testSessions.listAnswers(testSession.id);
+    const answers = Object.fromEntries(saved.filter(a => a.selected_option !== null).map(a => [a.position, a.selected_option]));
+    const subject = testSession.subject!;
+    const syllabus = await repos.syllabus.topicIndex();
+    const { difficulty, topic } = nextAdaptivePick(toResponses(issued, answers), sections[0].topics ?? syllabus[subject] ?? []);
+
+    try {
+      const seen = new Set(issued.map(r => normalizeText(r.question.text)));
+      const candidates = await repos.staticQuestions.randomByLevel(subject, difficulty, 10, topic ? [topic] : []);
+      let question = candidates.find(q => !seen.has(normalizeText(q.text)));
+      if (!question) {
+        const generated = await generateAdaptiveQuestion(subject, syllabus[subject] ?? [], difficulty, topic, issued.map(r => r.question.text));
+        await repos.aiUsage.record(req.user.id, "adaptive-question", generated.questions.length);
+        question = generated.questions[0];
+      }
+      if (!question) return res.status(502).json({ error: "Failed to generate questions" });
+
+      await repos.testSessions.issueQuestions(testSession.id, issued.length, [question]);
+      res.json({ question: toIssuedQuestion(issued.length, question) });
+    } catch (err: any) {
+      if (err.code === "23505") {
+        res.status(409).json({ error: "Question positions already issued" });
+      } else {
+        console.error("Adaptive question failed:", err);
+        res.status(502).json({ error: "Failed to generate questions" });
+      }
+    }
+  });
+
+  app.post("/api/ai/static-pool", authenticate, aiLimits, requireRole("admin"), validateBody(staticPoolSchema), enforceAiQuota, async (req: any, res) => {
+    const { subject, topics, count, verify = verificationEnabledByDefault() } = req.body;
+    const syllabus = await repos.syllabus.topicIndex();
+    const unknown = unknownTopics(syllabus, subject, topics);
+    if (unknown.length > 0) return res.status(400).json(unknownTopicError(subject, unknown));
+    try {
+      const result = await generateStaticPool(subject, syllabus[subject] ?? [], count, verify, topics);
+      await repos.aiUsage.record(req.user.id, "static-pool", result.questions.length);
+      res.json(result);
+    } catch (err) {
+      console.error("Static pool generation failed:", err);
+      res.status(502).json({ error: "Failed to generate questions" });
+    }
+  });
+
+  app.post("/api/ai/question-bank", authenticate, aiLimits, requireRole("admin"), validateBody(questionBankSchema), enforceAiQuota, async (req: any, res) => {
+    const { subject, topics, difficulty, count, verify = verificationEnabledByDefault() } = req.body;
+    const syllabus = await repos.syllabus.topicIndex();
+    const unknown = unknownTopics(syllabus, subject, topics);
+    if (unknown.length > 0) return res.status(400).json(unknownTopicError(subject, unknown));
+    try {
+      const result = await generateQuestionBank(subject, syllabus[subject] ?? [], difficulty, count, verify, topics);
+      await repos.aiUsage.record(req.user.id, "question-bank", result.questions.length);
+      res.json(result);
+    } catch (err) {
+      console.error("Question bank generation failed:", err);
+      res.status(502).json({ error: "Failed to generate questions" });
+    }
+  });
+
+  // Static Questions Routes. Twice as many questions as needed are drawn so
+  // that near-duplicates can be dropped without running short.
+  app.get("/api/questions/important", async (req, res) => {
+    const drawn = await repos.staticQuestions.randomImportant(40);
+    res.json(drawn.filter(createDistinctFilter()).slice(0, 20));
+  });
+
+  // ?topic= narrows the draw to one syllabus topic
+  app.get("/api/questions/static/:subject", async (req, res) => {
+    const topic = typeof req.query.topic === "string" ? req.query.topic : undefined;
+    const drawn = await repos.staticQuestions.randomBySubject(req.params.subject, 20, topic);
+    res.json(drawn.filter(createDistinctFilter()).slice(0, 10));
+  });
+
+  app.get("/api/syllabus", authenticate, async (req, res) => {
+    res.json(await repos.syllabus.list());
+  });
+
+  app.post("/api/admin/seed-static", authenticate, requireRole("admin"), validateBody(seedStaticSchema), async (req, res) => {
+    const { questions } = req.body;
+
+    // Tags must come from the syllabus, reported per question like schema errors
+    const syllabus = await repos.syllabus.topicIndex();
+    const issues = questions.flatMap((q: any, i: number) => unknownTopics(syllabus, q.subject, q.topic ? [q.topic] : [])
+      .map(topic => ({ path: `questions.${i}.topic`, message: `"${topic}" is not a ${q.subject} topic` })));
+    if (issues.length > 0) {
+      const body: ApiErrorBody = { error: issues[0].message, issues };
+      return res.status(400).json(body);
+    }
+
+    // Exact copies of a question in the bank, or earlier in the batch, are
+    // skipped. Generated questions wait for an admin's approval before they
+    // are served.
+    try {
+      const seen = new Set((await repos.staticQuestions.candidates()).map(q => normalizeText(q.text)));
+      const fresh = questions.filter((q: Question) => {
+        const key = normalizeText(q.text);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      const ids = await repos.staticQuestions.insertMany(fresh, "pending");
+      res.json({ success: true, count: fresh.length, ids, skipped: questions.length - fresh.length });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to seed questions" });
+    }
+  });
+
+  // Question bank import. Each row is checked like a seeded question, with its
+  // topic matched to the syllabus and its text to the bank and the rows before
+  // it. Valid rows are imported and the rest reported, unless it is a dry run;
+  // near-duplicates of bank questions are imported but reported with them.
+  const MAX_IMPORT_ROWS = 2000;
+
+  app.post("/api/admin/questions/import", authenticate, requireRole("admin"), validateBody(questionImportSchema), async (req, res) => {
+    const { format, content, subject, dry_run } = req.body;
+
+    let parsed: ParsedRow[];
+    try {
+      parsed = parseQuestionFile(format, content);
+    } catch (err) {
+      if (err instanceof QuestionFileError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
+    if (parsed.length === 0) return res.status(400).json({ error: "The file has no questions" });
+    if (parsed.length > MAX_IMPORT_ROWS) return res.status(400).json({ error: `Import at most ${MAX_IMPORT_ROWS} questions at a time` });
+
+    const syllabus = await repos.syllabus.topicIndex();
+    const bank = await repos.staticQuestions.candidates();
+    const index = createDuplicateIndex(bank);
+    // Normalised text to the row it came from; 0 for questions already in the bank
+    const seen = new Map(bank.map(q => [normalizeText(q.text), 0]));
+
+    const rows = parsed.map(({ row, data, issues }): ImportRow => {
+      const result = questionSchema.safeParse({ ...data, subject: data.subject ?? subject });
+      // The reader's own message for a field is clearer than the schema's
+      const reported = new Set(issues.map(i => i.path));
+      if (!result.success) {
+        issues.push(...toValidationIssues(result.error).filter(i => !reported.has(i.path) && !reported.has("")));
+      }
+      if (issues.length > 0 || !result.success) return { row, question: null, issues };
+
+      const question: Question = result.data;
+      if (question.topic) {
+        const topic = resolveTopic(syllabus[question.subject] ?? [], question.topic);
+        if (!topic) return { row, question: null, issues: [{ path: "topic", message: `"${question.topic}" is not a ${question.subject} topic` }] };
+        question.topic = topic;
+      }
+      const key = normalizeText(question.text);
+      const earlier = seen.get(key);
+      if (earlier !== undefined) {
+        const message = earlier === 0 ? "Already in the question bank" : `Repeats row ${earlier}`;
+        return { row, question: null, issues: [{ path: "text", message }] };
+      }
+      seen.set(key, row);
+      // Rows go into the index by negative row number, as they have no id yet,
+      // so that near copies within the file are reported too
+      const similar = index.closest(question);
+      index.add({ ...question, id: -row });
+      const similar_to = similar && similar.id < 0 ? { row: -similar.id, similarity: similar.similarity } : similar;
+      return { row, question, issues: [], similar_to };
+    });
+
+    const valid = rows.flatMap(r => r.question ? [r.question] : []);
+    try {
+      if (!dry_run && valid.length > 0) await repos.staticQuestions.insertMany(valid);
+    } catch (err) {
+      return res.status(500).json({ error: "Failed to import questions" });
+    }
+    const report: ImportReport = {
+      dry_run,
+      valid: valid.length,
+      invalid: rows.length - valid.length,
+      imported: dry_run ? 0 : valid.length,
+      rows,
+    };
+    res.json(report);
+  });
+
+  app.get("/api/admin/questions/export", authenticate, requireRole("admin"), validateQuery(questionExportQuerySchema), async (req: any, res) => {
+    const { format, subject, difficulty } = req.query;
+    const questions = await repos.staticQuestions.list({ subject, difficulty });
+    res.attachment(`question-bank.${format === "gift" ? "gift.txt" : format}`);
+    res.type(CONTENT_TYPES[format]);
+    res.send(formatQuestionFile(format, questions));
+  });
+
+  // Static question management. Every change is recorded as a revision, and
+  // deleting only takes a question out of tests, so both can be undone.
+  app.get("/api/admin/questions", authenticate, requireRole("admin"), validateQuery(bankQuestionQuerySchema), async (req: any, res) => {
+    const { questions, total } = await repos.staticQuestions.search(req.query);
+    const page: BankQuestionPage = { questions, total, page: req.query.page, page_size: req.query.page_size };
+    res.json(page);
+  });
+
+  // Near-duplicates, grouped by subject for an admin to merge, each group's
+  // questions oldest first
+  app.get("/api/admin/questions/duplicates", authenticate, requireRole("admin"), validateQuery(duplicateQuerySchema), async (req: any, res) => {
+    const questions = await repos.staticQuestions.live(req.query.subject);
+    const clusters: DuplicateCluster[] = findClusters(questions, req.query.threshold)
+      .map(cluster => ({ subject: cluster.questions[0].subject, ...cluster }));
+    res.json({ clusters });
+  });
+
+  app.get("/api/admin/questions/:id", authenticate, requireRole("admin"), async (req, res) => {
+    const id = parseInt(req.params.id) || 0;
+    const question = await repos.staticQuestions.find(id);
+    if (!question) return res.status(404).json({ error: "Question not found" });
+    res.json({ question, history: await repos.staticQuestions.history(id) });
+  });
+
+  // Sessions keep their own copy of each question, so edits only affect new tests
+  app.put("/api/admin/questions/:id", authenticate, requireRole("admin"), validateBody(questionEditSchema), async (req: any, res) => {
+    const id = parseInt(req.params.id) || 0;
+    const question = await repos.staticQuestions.find(id);
+    if (!question) return res.status(404).json({ error: "Question not found" });
+    if (question.deleted_at) return res.status(409).json({ error: "Restore the question before editing it" });
+    res.json(await repos.staticQuestions.update(id, req.body, req.user.id));
+  });
+
+  app.delete("/api/admin/questions/:id", authenticate, requireRole("admin"), async (req: any, res) => {
+    const id = parseInt(req.params.id) || 0;
+    if (!await repos.staticQuestions.find(id)) return res.status(404).json({ error: "Question not found" });
+    if (!await repos.staticQuestions.setDeleted(id, true, req.user.id)) {
+      return res.status(409).json({ error: "The question is already deleted" });
+    }
+    res.json({ success: true });
+  });
+
+  app.post("/api/admin/questions/:id/restore", authenticate, requireRole("admin"), async (req: any, res) => {
+    const id = parseInt(req.params.id) || 0;
+    if (!await repos.staticQuestions.find(id)) return res.status(404).json({ error: "Question not found" });
+    if (!await repos.staticQuestions.setDeleted(id, false, req.user.id)) {
+      return res.status(409).json({ error: "The question is not deleted" });
+    }
+    res.json({ success: true });
+  });
+
+  // The approval queue: seeded questions are served once approved. Rejected
+  // questions stay out of tests, and either decision can be changed later.
+  app.post("/api/admin/questions/approve", authenticate, requireRole("admin"), validateBody(questionApprovalSchema), async (req: any, res) => {
+    res.json({ updated: await repos.staticQuestions.setApproval(req.body.ids, "approved", req.user.id) });
+  });
+
+  app.post("/api/admin/questions/reject", authenticate, requireRole("admin"), validateBody(questionApprovalSchema), async (req: any, res) => {
+    res.json({ updated: await repos.staticQuestions.setApproval(req.body.ids, "rejected", req.user.id) });
+  });
+
+  // Merges duplicates into the question in the URL. The duplicates are only
+  // soft-deleted, so one merged by mistake can be restored, though its
+  // bookmarks and history stay with the survivor.
+  app.post("/api/admin/questions/:id/merge", authenticate, requireRole("admin"), validateBody(questionMergeSchema), async (req: any, res) => {
+    const id = parseInt(req.params.id) || 0;
+    const ids: number[] = [...new Set<number>(req.body.ids)];
+    if (ids.includes(id)) return res.status(400).json({ error: "A question cannot be merged into itself" });
+    const survivor = await repos.staticQuestions.find(id);
+    if (!survivor) return res.status(404).json({ error: "Question not found" });
+    if (survivor.deleted_at) return res.status(409).json({ error: "Restore the question before merging into it" });
+    const duplicates = await Promise.all(ids.map(repos.staticQuestions.find));
+    if (duplicates.some(q => !q)) return res.status(404).json({ error: "Duplicate question not found" });
+    if (duplicates.some(q => q!.deleted_at)) return res.status(409).json({ error: "A duplicate is already deleted" });
+    if (duplicates.some(q => q!.subject !== survivor.subject)) {
+      return res.status(400).json({ error: "Only questions of the same subject can be merged" });
+    }
+    res.json(await repos.staticQuestions.merge(id, ids, req.user.id));
+  });
+
+  // Puts back the fields a change replaced, as a new revision
+  app.post("/api/admin/questions/:id/revisions/:revisionId/revert", authenticate, requireRole("admin"), async (req: any, res) => {
+    const id = parseInt(req.params.id) || 0;
+    const question = await repos.staticQuestions.find(id);
+    if (!question) return res.status(404).json({ error: "Question not found" });
+    if (question.deleted_at) return res.status(409).json({ error: "Restore the question before editing it" });
+    const revision = await repos.staticQuestions.findRevision(id, parseInt(req.params.revisionId) || 0);
+    if (!revision) return res.status(404).json({ error: "Revision not found" });
+    if (!revision.before) return res.status(400).json({ error: "Only edits can be reverted; restore a deleted question instead" });
+    res.json(await repos.staticQuestions.update(id, revision.before, req.user.id, "revert"));
+  });
+
+  app.get("/api/admin/static-count", authenticate, requireRole("admin"), async (req, res) => {
+    res.json(await repos.staticQuestions.countBySubject());
+  });
+
+  // Exam Blueprint Routes
+  app.get("/api/blueprints", authenticate, async (req, res) => {
+    res.json(await repos.blueprints.list());
+  });
+
+  app.post("/api/admin/blueprints", authenticate, requireRole("admin"), validateBody(blueprintSchema), async (req, res) => {
+    res.json(await repos.blueprints.create(req.body));
+  });
+
+  // Sessions keep their own copy of the layout, so edits only affect new tests
+  app.put("/api/admin/blueprints/:id", authenticate, requireRole("admin"), validateBody(blueprintSchema), async (req, res) => {
+    const blueprint = await repos.blueprints.update(parseInt(req.params.id) || 0, req.body);
+    if (!blueprint) return res.status(404).json({ error: "Exam blueprint not found" });
+    res.json(blueprint);
+  });
+
+  app.post("/api/admin/blueprints/:id/default", authenticate, requireRole("admin"), async (req, res) => {
+    const updated = await repos.blueprints.setDefault(parseInt(req.params.id) || 0);
+    if (!updated) return res.status(404).json({ error: "Exam blueprint not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/admin/blueprints/:id", authenticate, requireRole("admin"), async (req, res) => {
+    const id = parseInt(req.params.id) || 0;
+    const blueprint = await repos.blueprints.find(id);
+    if (!blueprint) return res.status(404).json({ error: "Exam blueprint not found" });
+    if (blueprint.is_default) return res.status(409).json({ error: "The default blueprint cannot be deleted" });
+    await repos.blueprints.remove(id);
+    res.json({ success: true });
+  });
+
+  return app;
+}
@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { User } from "../src/types";
+
+const DEV_JWT_SECRET = "default-secret-key";
+
+// Access tokens are short-lived; sessions are extended with refresh tokens
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+// A guessable signing key lets anyone mint tokens, so only tolerate the
+// built-in one outside production
+export function assertJwtSecretConfigured() {
+  if (process.env.NODE_ENV === "production" && !process.env.JWT_SECRET) {
+    throw new Error("JWT_SECRET must be set in production");
+  }
+}
+
+const jwtSecret = () => process.env.JWT_SECRET || DEV_JWT_SECRET;
+
+export function signAccessToken(user: User) {
+  const { id, name, email, role } = user;
+  return jwt.sign({ id, name, email, role }, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions["expiresIn"] });
+}
+
+// Throws when the token is malformed, forged or expired
+export const verifyAccessToken = (token: string) => jwt.verify(token, jwtSecret());
+
+// Opaque tokens (refresh tokens, emailed links) are stored only as a SHA-256
+// hash, so a database leak does not hand out live sessions
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+function createOpaqueToken(ttlMs: number) {
+  const token = crypto.randomBytes(48).toString("base64url");
+  return { token, hash: hashToken(token), expiresAt: new Date(Date.now() + ttlMs) };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const createRefreshToken = () => createOpaqueToken(REFRESH_TOKEN_TTL_DAYS * 24 * HOUR_MS);
+export const createEmailVerificationToken = () => createOpaqueToken(24 * HOUR_MS);
+export const createPasswordResetToken = () => createOpaqueToken(HOUR_MS);
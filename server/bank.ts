@@ -0,0 +1,82 @@
+import { DifficultyMix, Question, TestSection } from "../src/types";
+import { StaticQuestionRepository } from "./repositories/staticQuestions";
+import { createDistinctFilter } from "./duplicates";
+
+type Difficulty = Question["difficulty"];
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+
+// Questions drawn for the first positions of a section; any positions after
+// them are left for generation
+export interface BankDraw {
+  start: number;
+  questions: Question[];
+}
+
+// Splits total into whole parts in proportion to weights, handing the
+// remainder to the largest fractions
+export function apportion(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const exact = weights.map(w => sum > 0 ? (total * w) / sum : total / weights.length);
+  const counts = exact.map(Math.floor);
+  const left = total - counts.reduce((a, b) => a + b, 0);
+  exact
+    .map((value, i) => ({ i, fraction: value - counts[i] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .slice(0, left)
+    .forEach(({ i }) => counts[i]++);
+  return counts;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Lays a paper out from the static pool. Each section's questions are split
+// evenly across its subjects, then by the difficulty mix; a subject short at
+// one difficulty makes up the count from the others. Subject tests have no
+// mix and take any difficulty.
+export async function assembleFromBank(
+  pool: StaticQuestionRepository,
+  sections: TestSection[],
+  mix: DifficultyMix | null
+): Promise<BankDraw[]> {
+  // Questions already in the paper, and near-duplicates of them, are passed over
+  const distinct = createDistinctFilter();
+  let drawnSoFar = 0;
+  const take = (candidates: Question[], count: number) => {
+    const taken: Question[] = [];
+    for (const question of candidates) {
+      if (taken.length >= count) break;
+      if (distinct(question)) taken.push(question);
+    }
+    drawnSoFar += taken.length;
+    return taken;
+  };
+  // Already-drawn questions can come back from the pool, so ask for enough extra
+  const draw = async (subject: string, difficulty: Difficulty | null, count: number, topics?: string[]) =>
+    count > 0 ? take(await pool.randomByLevel(subject, difficulty, count + drawnSoFar, topics), count) : [];
+
+  const draws: BankDraw[] = [];
+  for (const section of sections) {
+    const drawn: Question[] = [];
+    const perSubject = apportion(section.questions, section.subjects.map(() => 1));
+    for (const [i, subject] of section.subjects.entries()) {
+      const picked: Question[] = [];
+      if (mix) {
+        const perLevel = apportion(perSubject[i], DIFFICULTIES.map(d => mix[d]));
+        for (const [j, difficulty] of DIFFICULTIES.entries()) {
+          picked.push(...await draw(subject, difficulty, perLevel[j], section.topics));
+        }
+      }
+      picked.push(...await draw(subject, null, perSubject[i] - picked.length, section.topics));
+      drawn.push(...picked);
+    }
+    draws.push({ start: section.start, questions: shuffle(drawn) });
+  }
+  return draws;
+}
@@ -0,0 +1,96 @@
+import pg from "pg";
+import dotenv from "dotenv";
+import { newDb, DataType, IBackup } from "pg-mem";
+
+dotenv.config();
+
+const { Pool } = pg;
+
+export type Db = pg.Pool;
+export type DbDriver = "postgres" | "memory";
+
+// PostgreSQL connection
+function createPostgresPool(): Db {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL,
+    ssl: process.env.NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
+  });
+}
+
+// Embedded in-process database for local development and tests. Data lives
+// only as long as the process and starts empty, so run migrateUp() on it first.
+function createMemoryPool(): Db {
+  const db = newDb();
+
+  // Built-ins our queries rely on that pg-mem does not ship
+  db.public.registerFunction({
+    name: "random",
+    returns: DataType.float,
+    implementation: Math.random,
+    impure: true,
+  });
+  db.public.registerFunction({
+    name: "round",
+    args: [DataType.float, DataType.integer],
+    returns: DataType.float,
+    implementation: (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits,
+  });
+
+  // pg-mem ignores ROLLBACK, so emulate it with a snapshot taken at BEGIN.
+  // Snapshots are database-wide, so a client holds the whole database from
+  // connect() to release() (see below) and a rollback cannot undo the writes
+  // of other requests.
+  let snapshot: IBackup | null = null;
+  db.public.interceptQueries(sql => {
+    const command = sql.trim().replace(/;$/, "").toUpperCase();
+    if (command === "BEGIN") {
+      snapshot = db.backup();
+      return [];
+    }
+    if (command === "COMMIT") {
+      snapshot = null;
+      return [];
+    }
+    if (command === "ROLLBACK") {
+      snapshot?.restore();
+      snapshot = null;
+      return [];
+    }
+    return null;
+  });
+
+  const adapter = db.adapters.createPg();
+  const pool = new adapter.Pool();
+  const query = pool.query.bind(pool);
+
+  // One holder at a time: each waits for the previous one to let go
+  let free: Promise<void> = Promise.resolve();
+  const acquire = async () => {
+    const previous = free;
+    let unlock!: () => void;
+    free = new Promise(resolve => (unlock = resolve));
+    await previous;
+    return unlock;
+  };
+
+  // pg-mem hands out the pool itself as the client, so give each its own
+  pool.connect = (async () => ({ query, release: await acquire() })) as any;
+  pool.query = (async (...args: Parameters<typeof query>) => {
+    const unlock = await acquire();
+    try {
+      return await query(...args);
+    } finally {
+      unlock();
+    }
+  }) as any;
+  return pool;
+}
+
+// DB_DRIVER selects the backend: "postgres" (default) or "memory"
+export function createPool(driver: DbDriver = (process.env.DB_DRIVER as DbDriver) || "postgres"): Db {
+  if (driver === "memory") return createMemoryPool();
+  if (driver !== "postgres") throw new Error(`Unknown DB_DRIVER "${driver}"`);
+  return createPostgresPool();
+}
+
+export const pool = createPool();
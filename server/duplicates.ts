@@ -0,0 +1,128 @@
+import { Question, SimilarQuestion, DUPLICATE_THRESHOLD } from "../src/types";
+import { normalizeText } from "./questionValidation";
+
+// Near-duplicate detection for the static pool. Questions are compared on the
+// distinctive words of their text, so a reworded copy of a question scores
+// high; two questions with different right answers, or that mention different
+// numbers, are never duplicates, however alike their wording.
+
+type Comparable = Pick<Question, "text" | "options" | "correctAnswer">;
+type Stored = Comparable & { id: number; subject: string };
+
+export interface Fingerprint {
+  words: Set<string>;
+  answer: Set<string>;
+  numbers: string;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "of", "in", "on", "for", "to", "into", "by", "with", "from", "at", "as",
+  "is", "are", "was", "were", "be", "been", "it", "its", "this", "that", "these", "those",
+  "and", "or", "not", "which", "what", "who", "when", "where", "why", "how", "does", "do", "did",
+  "can", "will", "following", "called", "known", "used", "one", "given",
+]);
+
+// Drops common endings so that "routes", "routed" and "routing" match
+const stem = (word: string) => word
+  .replace(/(?<=.{3})ing$/, "")
+  .replace(/(?<=.{3})(ed|es)$/, "")
+  .replace(/(?<=.{3}[^s])s$/, "");
+
+const tokens = (text: string) => normalizeText(text).split(" ").filter(Boolean);
+
+// The question's words outside STOP_WORDS, every word of its right answer and
+// the numbers in its text
+export function fingerprint(question: Comparable): Fingerprint {
+  const words = tokens(question.text);
+  return {
+    words: new Set(words.filter(word => !STOP_WORDS.has(word)).map(stem)),
+    answer: new Set(tokens(question.options[question.correctAnswer] ?? "").map(stem)),
+    numbers: [...new Set(words.filter(word => /^\d+$/.test(word)))].sort().join(" "),
+  };
+}
+
+// Dice coefficient of two sets: 1 when they share every word, 0 when none
+const dice = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return (2 * shared) / (a.size + b.size);
+};
+
+// How alike two questions are, from 0 to 1: the overlap of their words, or 0
+// when their right answers mostly differ or their numbers do
+export function similarity(a: Fingerprint, b: Fingerprint): number {
+  if (a.numbers !== b.numbers || dice(a.answer, b.answer) < 0.5) return 0;
+  return Math.round(dice(a.words, b.words) * 100) / 100;
+}
+
+// Questions already in the pool, for checking new ones: exact copies by
+// normalised text, near ones by fingerprint within the same subject. Add each
+// new question once it is accepted, to check the rest of a batch against it.
+export function createDuplicateIndex(existing: Stored[]) {
+  const exact = new Map<string, number>();
+  const bySubject = new Map<string, { id: number; print: Fingerprint }[]>();
+  const add = (question: Stored) => {
+    const key = normalizeText(question.text);
+    if (!exact.has(key)) exact.set(key, question.id);
+    bySubject.set(question.subject, [...bySubject.get(question.subject) ?? [], { id: question.id, print: fingerprint(question) }]);
+  };
+  existing.forEach(add);
+
+  return {
+    add,
+
+    exactMatch: (question: Comparable): number | undefined => exact.get(normalizeText(question.text)),
+
+    // The most similar question of the same subject, if any reaches the threshold
+    closest(question: Comparable & { subject: string }, threshold = DUPLICATE_THRESHOLD): SimilarQuestion | null {
+      const print = fingerprint(question);
+      let best: SimilarQuestion | null = null;
+      for (const candidate of bySubject.get(question.subject) ?? []) {
+        const score = similarity(print, candidate.print);
+        if (score >= threshold && (!best || score > best.similarity)) best = { id: candidate.id, similarity: score };
+      }
+      return best;
+    },
+  };
+}
+
+// Tracks the questions chosen for one paper so that no two are near copies
+export function createDistinctFilter(threshold = DUPLICATE_THRESHOLD) {
+  const chosen: Fingerprint[] = [];
+  return (question: Comparable): boolean => {
+    const print = fingerprint(question);
+    if (chosen.some(other => similarity(print, other) >= threshold)) return false;
+    chosen.push(print);
+    return true;
+  };
+}
+
+// Groups of near-duplicate questions within each subject. A question joins a
+// group when it is similar enough to any member, so a group's members need not
+// all be similar to each other. similarity is the closest pair in the group.
+export function findClusters<T extends Stored>(questions: T[], threshold = DUPLICATE_THRESHOLD): { similarity: number; questions: T[] }[] {
+  const parent = questions.map((_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  const best = new Map<number, number>();
+  const prints = questions.map(fingerprint);
+
+  for (let i = 0; i < questions.length; i++) {
+    for (let j = i + 1; j < questions.length; j++) {
+      if (questions[i].subject !== questions[j].subject) continue;
+      const score = similarity(prints[i], prints[j]);
+      if (score < threshold) continue;
+      const [a, b] = [root(i), root(j)];
+      const top = Math.max(score, best.get(a) ?? 0, best.get(b) ?? 0);
+      parent[b] = a;
+      best.set(a, top);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  questions.forEach((question, i) => groups.set(root(i), [...groups.get(root(i)) ?? [], question]));
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([key, members]) => ({ similarity: best.get(key)!, questions: members.sort((a, b) => a.id - b.id) }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
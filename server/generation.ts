@@ -0,0 +1,270 @@
+import { DifficultyMix, GenerationReport, Question, Subject, SUBJECTS, TestSection } from "../src/types";
+import { getQuestionProvider, QuestionRequest } from "./llm";
+import { describeDifficultyMix, sectionAt } from "./paper";
+import { normalizeText, resolveTopic, validateQuestion } from "./questionValidation";
+import { TopicIndex } from "./repositories/syllabus";
+import { verifyAnswerKeys } from "./verification";
+
+const MAX_RETRIES = 2;
+
+export interface GenerationResult {
+  questions: Question[];
+  report: GenerationReport;
+}
+
+const newReport = (requested: number): GenerationReport => ({
+  requested,
+  accepted: 0,
+  rejected: 0,
+  duplicates: 0,
+  retries: 0,
+  flagged: 0,
+});
+
+async function withVerification(questions: Question[], report: GenerationReport) {
+  const checked = await verifyAnswerKeys(questions);
+  report.flagged = checked.filter(q => q.verification === 'needs_review').length;
+  return checked;
+}
+
+// Ask the provider for request.count questions, keeping only those that pass
+// validation and are not already in `seen`, and re-prompting for any shortfall
+async function generateValid(
+  request: QuestionRequest,
+  seen: Set<string>,
+  report: GenerationReport
+): Promise<Question[]> {
+  const accepted: Question[] = [];
+  const allowed: string[] = request.subject === 'Full' ? request.subjects ?? SUBJECTS : [request.subject];
+  const topics = request.topics ?? {};
+  const topicList = allowed
+    .filter(s => topics[s]?.length)
+    .map(s => allowed.length > 1 ? `${s}: ${topics[s].join("; ")}` : topics[s].join("; "))
+    .join("\n         ");
+  let rules = `Every question must have exactly 4 distinct options and a correctAnswer index from 0 to 3.
+       The subject field must be exactly ${allowed.length > 1 ? `one of: ${allowed.join(", ")}` : `"${allowed[0]}"`}.`;
+  if (topicList) {
+    rules += `\n       The topic field must be exactly one of these syllabus topics${allowed.length > 1 ? " for the question's subject" : ""}:
+         ${topicList}`;
+  }
+
+  for (let attempt = 0; attempt <= MAX_RETRIES && accepted.length < request.count; attempt++) {
+    const remaining = request.count - accepted.length;
+    let prompt = `${request.prompt}\n       ${rules}`;
+    if (attempt > 0) {
+      report.retries++;
+      prompt += `\n       RETRY ${attempt}: only ${remaining} more question(s) are needed. Do not repeat earlier questions.`;
+    }
+
+    const items = await getQuestionProvider().generate({ ...request, prompt, count: remaining });
+    for (const item of items) {
+      if (accepted.length >= request.count) break;
+      const { question, errors } = validateQuestion(item);
+      if (question && !allowed.includes(question.subject)) {
+        errors.push(`off-subject "${question.subject}"`);
+      }
+      // Tags outside the syllabus are dropped, unless a topic was asked for
+      if (question) {
+        const topic = resolveTopic(topics[question.subject] ?? [], question.topic);
+        if (!topic && request.topicsRequired) errors.push(`off-topic "${question.topic ?? ""}"`);
+        question.topic = topic;
+      }
+      if (errors.length > 0) {
+        report.rejected++;
+        console.warn(`Rejected generated question: ${errors.join("; ")}`);
+        continue;
+      }
+      const key = normalizeText(question.text);
+      if (seen.has(key)) {
+        report.duplicates++;
+        continue;
+      }
+      seen.add(key);
+      accepted.push(question);
+    }
+  }
+
+  report.accepted += accepted.length;
+  return accepted;
+}
+
+// The sections of the paper being generated for, its difficulty mix and the
+// syllabus topics questions are tagged with
+export interface PaperLayout {
+  sections: TestSection[];
+  difficultyMix: DifficultyMix | null;
+  syllabus: TopicIndex;
+}
+
+// The syllabus narrowed to the given topics, when there are any
+export function narrowTopics(syllabus: TopicIndex, subjects: string[], only?: string[]): TopicIndex {
+  return Object.fromEntries(subjects.map(s => [
+    s,
+    (syllabus[s] ?? []).filter(t => !only || only.includes(t)),
+  ]));
+}
+
+// Questions for positions startIndex onwards of a test paper, each drawn from
+// the subjects of the section its position falls in
+export async function generateQuestions(
+  paper: PaperLayout,
+  count: number = 30, 
+  startIndex: number = 0,
+  exclude: string[] = []
+): Promise<GenerationResult> {
+  const batchSize = 10; // Smaller batch size for progressive loading
+  let allQuestions: Question[] = [];
+  const report = newReport(count);
+  const seen = new Set(exclude.map(normalizeText));
+
+  const getPrompt = (section: TestSection, size: number, startIdx: number) => {
+    const focus = section.subjects.length === 1 ? `"${section.subjects[0]}"` : section.subjects.join(", ");
+    const first = startIdx - section.start + 1;
+    return `Generate ${size} highly probable and frequently asked multiple-choice questions for the AP ECET 2026 (CSE Branch) exam. 
+       Focus on: ${focus}.
+       These are questions ${first} to ${first + size - 1} of the ${section.questions}-question "${section.name}" section.${section.topics ? `
+       Cover only these topics: ${section.topics.join(", ")}.` : ""}
+       Follow the C-23 Diploma curriculum strictly.
+       DISTRIBUTION: ${describeDifficultyMix(paper.difficultyMix)}.
+       IMPORTANT: Focus on "Most Probable" and "Very Important" questions.
+       For EACH question, provide a step-by-step explanation.`;
+  };
+
+  // Batches stop at section boundaries, so a range spanning two sections
+  // takes an extra batch
+  const batches = Math.ceil(count / batchSize) + paper.sections.length - 1;
+
+  for (let i = 0; i < batches && allQuestions.length < count; i++) {
+    const startIdx = startIndex + allQuestions.length;
+    const section = sectionAt(paper.sections, startIdx);
+    if (!section) break;
+    const currentBatchSize = Math.min(batchSize, count - allQuestions.length, section.start + section.questions - startIdx);
+
+    try {
+      const batchQuestions = await generateValid({
+        prompt: getPrompt(section, currentBatchSize, startIdx),
+        count: currentBatchSize,
+        subject: section.subjects.length === 1 ? section.subjects[0] : 'Full',
+        subjects: section.subjects,
+        topics: narrowTopics(paper.syllabus, section.subjects, section.topics),
+        topicsRequired: !!section.topics,
+      }, seen, report);
+      allQuestions = [...allQuestions, ...batchQuestions];
+    } catch (error) {
+      console.error(`Error in batch ${i + 1}:`, error);
+      if (allQuestions.length === 0) throw error;
+      break; 
+    }
+  }
+
+  return { questions: allQuestions.slice(0, count), report };
+}
+
+// The next question of an adaptive test, when the static pool has none left at
+// its difficulty and topic. exclude holds the questions already in the test.
+export async function generateAdaptiveQuestion(
+  subject: Subject,
+  topics: string[],
+  difficulty: 'Easy' | 'Medium' | 'Hard',
+  topic: string | undefined,
+  exclude: string[]
+): Promise<GenerationResult> {
+  const report = newReport(1);
+  const prompt = `Generate 1 multiple-choice question for the subject "${subject}" at "${difficulty}" difficulty level, specifically for AP ECET 2026 (CSE Branch) exam.${topic ? `
+     The question must be on the topic: ${topic}.` : ""}
+     Follow the C-23 Diploma curriculum strictly.
+     Provide a step-by-step explanation.`;
+
+  const questions = await generateValid({
+    prompt,
+    count: 1,
+    subject,
+    topics: narrowTopics({ [subject]: topics }, [subject], topic ? [topic] : undefined),
+    topicsRequired: !!topic,
+    difficulty,
+  }, new Set(exclude.map(normalizeText)), report);
+  return { questions, report };
+}
+
+// Topic lists are the subject's syllabus topics; focus narrows them
+export async function generateStaticPool(
+  subject: Subject,
+  topics: string[],
+  count: number = 200,
+  verify: boolean = false,
+  focus?: string[]
+): Promise<GenerationResult> {
+  const batchSize = 25;
+  let allQuestions: Question[] = [];
+  const report = newReport(count);
+  const seen = new Set<string>();
+
+  const batches = Math.ceil(count / batchSize);
+
+  for (let i = 0; i < batches; i++) {
+    const currentBatchSize = Math.min(batchSize, count - allQuestions.length);
+    if (currentBatchSize <= 0) break;
+
+    const prompt = `Generate ${currentBatchSize} HIGHLY PROBABLE and VERY IMPORTANT multiple-choice questions for the subject "${subject}" specifically for AP ECET 2026 (CSE Branch) exam.
+       These should be the most likely questions to appear in the exam.${focus ? `
+       Cover only these topics: ${focus.join(", ")}.` : ""}
+       Follow the C-23 Diploma curriculum strictly.
+       DISTRIBUTION: Mix of Easy, Medium, and Hard.
+       For EACH question, provide a step-by-step explanation suitable for a COMPLETE BEGINNER.
+       Mark is_important as true for all of these.`;
+
+    try {
+      const batchQuestions = await generateValid({
+        prompt,
+        count: currentBatchSize,
+        subject,
+        topics: narrowTopics({ [subject]: topics }, [subject], focus),
+        topicsRequired: !!focus,
+      }, seen, report);
+      allQuestions = [...allQuestions, ...batchQuestions];
+    } catch (error) {
+      console.error(`Error in static batch ${i + 1}:`, error);
+      if (allQuestions.length === 0) throw error;
+      break;
+    }
+  }
+
+  if (verify) allQuestions = await withVerification(allQuestions, report);
+  return { questions: allQuestions, report };
+}
+
+export async function generateQuestionBank(
+  subject: Subject,
+  topics: string[],
+  difficulty: 'Easy' | 'Medium' | 'Hard',
+  count: number = 20,
+  verify: boolean = false,
+  focus?: string[]
+): Promise<GenerationResult> {
+  let allQuestions: Question[] = [];
+  const report = newReport(count);
+
+  const prompt = `Generate ${count} highly probable multiple-choice questions for the subject "${subject}" at "${difficulty}" difficulty level, specifically for AP ECET 2026 (CSE Branch) exam.
+     These questions should be strictly at the ECET competitive level for the given difficulty.${focus ? `
+     Cover only these topics: ${focus.join(", ")}.` : ""}
+     Follow the C-23 Diploma curriculum strictly.
+     For EACH question, provide a step-by-step explanation suitable for a COMPLETE BEGINNER.
+     Mark is_important as true if the question is highly likely to appear in the exam.`;
+
+  try {
+    allQuestions = await generateValid({
+      prompt,
+      count,
+      subject,
+      topics: narrowTopics({ [subject]: topics }, [subject], focus),
+      topicsRequired: !!focus,
+      difficulty,
+    }, new Set(), report);
+  } catch (error) {
+    console.error(`Error generating question bank:`, error);
+    throw error;
+  }
+
+  if (verify) allQuestions = await withVerification(allQuestions, report);
+  return { questions: allQuestions, report };
+}
@@ -0,0 +1,53 @@
+import { readFile } from "fs/promises";
+import { Question } from "../../src/types";
+import { QuestionProvider } from "./types";
+
+// Small stable hash so the same prompt always yields the same questions
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+// Serves canned questions from a JSON file, for offline development and tests
+export function createFixtureProvider(options: { path: string }): QuestionProvider {
+  let cache: Question[] | null = null;
+  const load = async () => {
+    cache ??= JSON.parse(await readFile(options.path, "utf8")) as Question[];
+    return cache;
+  };
+
+  return {
+    name: "fixture",
+    async generate({ prompt, count, subject, subjects, topics, topicsRequired, difficulty }) {
+      const fixtures = await load();
+
+      const allowed: string[] | undefined = subject === 'Full' ? subjects : [subject];
+      let pool = allowed ? fixtures.filter(q => allowed.includes(q.subject)) : fixtures;
+      // Relabel the whole set when a subject has no fixtures of its own
+      if (pool.length === 0) pool = fixtures.map(q => ({ ...q, subject: allowed[0] }));
+      if (difficulty && pool.some(q => q.difficulty === difficulty)) {
+        pool = pool.filter(q => q.difficulty === difficulty);
+      }
+      // Narrowed topics are served from their own fixtures, or relabelled ones
+      if (topicsRequired && topics) {
+        const onTopic = pool.filter(q => q.topic && topics[q.subject]?.includes(q.topic));
+        pool = onTopic.length > 0 ? onTopic : pool.map((q, i) => {
+          const own = topics[q.subject] ?? [];
+          return { ...q, topic: own[i % own.length] };
+        });
+      }
+
+      const offset = hash(prompt);
+      return Array.from({ length: count }, (_, i) => {
+        const q = pool[(offset + i) % pool.length];
+        return { ...q, options: [...q.options] };
+      });
+    },
+    // Answers questions it has a fixture for, and abstains on anything else
+    async solve(questions) {
+      const fixtures = await load();
+      return questions.map(q => fixtures.find(f => f.text === q.text)?.correctAnswer ?? null);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { GoogleGenAI } from "@google/genai";
+import { QuestionProvider } from "./types";
+import { questionSchema, solutionSchema } from "./schema";
+import { alignAnswers, buildSolvePrompt } from "./prompts";
+
+export function createGeminiProvider(options: { apiKey: string; model: string }): QuestionProvider {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+
+  const generateJson = async (prompt: string, schema: object) => {
+    const response = await ai.models.generateContent({
+      model: options.model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseJsonSchema: schema
+      }
+    });
+
+    const text = response.text;
+    return text ? JSON.parse(text) : null;
+  };
+
+  return {
+    name: "gemini",
+    async generate({ prompt }) {
+      return (await generateJson(prompt, questionSchema)) ?? [];
+    },
+    async solve(questions) {
+      const result = await generateJson(buildSolvePrompt(questions), solutionSchema);
+      return alignAnswers(result?.answers, questions.length);
+    },
+  };
+}
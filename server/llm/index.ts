@@ -0,0 +1,38 @@
+import path from "path";
+import { QuestionProvider } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai";
+import { createFixtureProvider } from "./fixture";
+
+export type { QuestionProvider, QuestionRequest } from "./types";
+
+function createProvider(): QuestionProvider {
+  const name = process.env.LLM_PROVIDER || "gemini";
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY || "",
+        model: process.env.LLM_MODEL || "gemini-3-flash-preview",
+      });
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || "https://api.openai.com/v1",
+        apiKey: process.env.LLM_API_KEY,
+        model: process.env.LLM_MODEL || "gpt-4o-mini",
+      });
+    case "fixture":
+      return createFixtureProvider({
+        path: process.env.LLM_FIXTURE_PATH || path.join(process.cwd(), "fixtures", "questions.json"),
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+// Created on first use so configuration is read after dotenv has loaded
+let provider: QuestionProvider | null = null;
+
+export function getQuestionProvider(): QuestionProvider {
+  if (!provider) provider = createProvider();
+  return provider;
+}
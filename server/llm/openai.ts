@@ -0,0 +1,59 @@
+import { QuestionProvider } from "./types";
+import { questionSetSchema, solutionSchema } from "./schema";
+import { alignAnswers, buildSolvePrompt } from "./prompts";
+
+// Works with OpenAI and any server exposing the same chat completions API
+// (Ollama, llama.cpp, vLLM, LM Studio...)
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): QuestionProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const generateJson = async (system: string, prompt: string, name: string, schema: object) => {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name, schema },
+        },
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`LLM request failed (${res.status}): ${await res.text()}`);
+    }
+
+    const data = await res.json();
+    const content = data.choices?.[0]?.message?.content;
+    return content ? JSON.parse(content) : null;
+  };
+
+  return {
+    name: "openai",
+    async generate({ prompt }) {
+      const result = await generateJson(
+        "You write multiple-choice exam questions. Reply with JSON only.",
+        prompt, "questions", questionSetSchema
+      );
+      return result?.questions ?? [];
+    },
+    async solve(questions) {
+      const result = await generateJson(
+        "You are an expert examiner solving multiple-choice questions. Reply with JSON only.",
+        buildSolvePrompt(questions), "answers", solutionSchema
+      );
+      return alignAnswers(result?.answers, questions.length);
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { QuestionToSolve } from "./types";
+
+export function buildSolvePrompt(questions: QuestionToSolve[]) {
+  const list = questions
+    .map((q, i) => `${i + 1}. ${q.text}\n${q.options.map((o, j) => `   ${j}) ${o}`).join("\n")}`)
+    .join("\n\n");
+
+  return `Solve each of the following ${questions.length} multiple-choice questions independently, working each one out step by step.
+For every question give the index (0-3) of the single correct option, in the same order as the questions.
+
+${list}`;
+}
+
+// Providers may return fewer or malformed answers; line them up with the questions
+export const alignAnswers = (answers: unknown, count: number): (number | null)[] =>
+  Array.from({ length: count }, (_, i) => {
+    const a = Array.isArray(answers) ? answers[i] : undefined;
+    return Number.isInteger(a) && a >= 0 && a <= 3 ? a : null;
+  });
@@ -0,0 +1,43 @@
+import { SUBJECTS } from "../../src/types";
+
+// JSON Schema for a batch of generated questions, shared by every provider
+export const questionSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      text: { type: "string", description: "The question text" },
+      options: { 
+        type: "array", 
+        items: { type: "string" },
+        description: "Exactly 4 options"
+      },
+      correctAnswer: { type: "integer", description: "Index of correct option (0-3)" },
+      explanation: { type: "string", description: "Detailed beginner-friendly explanation" },
+      subject: { type: "string", enum: SUBJECTS, description: "The subject of the question" },
+      topic: { type: "string", description: "The syllabus topic the question tests, exactly as listed in the prompt" },
+      difficulty: { type: "string", enum: ["Easy", "Medium", "Hard"] },
+      is_important: { type: "boolean", description: "Whether this is a highly probable/important question" }
+    },
+    required: ["text", "options", "correctAnswer", "explanation", "subject", "topic", "difficulty", "is_important"]
+  }
+};
+
+// Chat-completion APIs expect an object at the top level
+export const questionSetSchema = {
+  type: "object",
+  properties: { questions: questionSchema },
+  required: ["questions"]
+};
+
+export const solutionSchema = {
+  type: "object",
+  properties: {
+    answers: {
+      type: "array",
+      items: { type: "integer" },
+      description: "Index of the correct option (0-3) for each question, in order"
+    }
+  },
+  required: ["answers"]
+};
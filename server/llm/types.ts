@@ -0,0 +1,24 @@
+import { Question, Subject } from "../../src/types";
+
+export interface QuestionRequest {
+  prompt: string;
+  count: number;
+  subject: Subject | 'Full';
+  // For mixed papers ('Full'), the subjects questions may be drawn from
+  subjects?: Subject[];
+  // Syllabus topics by subject that questions are tagged with
+  topics?: Record<string, string[]>;
+  // Set when the topics were narrowed by a filter, so an untagged question is off-topic
+  topicsRequired?: boolean;
+  difficulty?: Question['difficulty'];
+}
+
+export type QuestionToSolve = Pick<Question, 'text' | 'options'>;
+
+// A source of structured questions matching questionSchema
+export interface QuestionProvider {
+  name: string;
+  generate(request: QuestionRequest): Promise<Question[]>;
+  // Answer each question without seeing its key; null when no answer was given
+  solve(questions: QuestionToSolve[]): Promise<(number | null)[]>;
+}
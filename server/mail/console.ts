@@ -0,0 +1,11 @@
+import { Mailer } from "./types";
+
+// Prints messages to the server log, so links can be copied during development
+export function createConsoleMailer(): Mailer {
+  return {
+    name: "console",
+    async send({ to, subject, text }) {
+      console.log(`--- mail to ${to} ---\nSubject: ${subject}\n\n${text}\n--- end of mail ---`);
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { Mailer } from "./types";
+
+// Writes each message to its own .eml file under the given directory
+export function createFileMailer(options: { dir: string }): Mailer {
+  let sequence = 0;
+  return {
+    name: "file",
+    async send({ to, subject, text }) {
+      await mkdir(options.dir, { recursive: true });
+      const file = path.join(options.dir, `${Date.now()}-${++sequence}.eml`);
+      await writeFile(file, `To: ${to}\nSubject: ${subject}\n\n${text}\n`);
+    },
+  };
+}
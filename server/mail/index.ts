@@ -0,0 +1,43 @@
+import path from "path";
+import { Mailer } from "./types";
+import { createConsoleMailer } from "./console";
+import { createFileMailer } from "./file";
+import { createSmtpMailer } from "./smtp";
+
+export type { Mailer, MailMessage } from "./types";
+
+// The console and file transports keep reset and verification links on the
+// server, where users never see them, so production must send real mail
+export function assertMailConfigured() {
+  if (process.env.NODE_ENV === "production" && process.env.MAIL_TRANSPORT !== "smtp") {
+    throw new Error("MAIL_TRANSPORT must be smtp in production");
+  }
+}
+
+function createMailer(): Mailer {
+  const name = process.env.MAIL_TRANSPORT || "console";
+  switch (name) {
+    case "console":
+      return createConsoleMailer();
+    case "file":
+      return createFileMailer({
+        dir: process.env.MAIL_DIR || path.join(process.cwd(), "mail"),
+      });
+    case "smtp":
+      if (!process.env.SMTP_URL) throw new Error("SMTP_URL is required when MAIL_TRANSPORT=smtp");
+      return createSmtpMailer({
+        url: process.env.SMTP_URL,
+        from: process.env.MAIL_FROM || "AP ECET Prep <no-reply@localhost>",
+      });
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+}
+
+// Created on first use so configuration is read after dotenv has loaded
+let mailer: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (!mailer) mailer = createMailer();
+  return mailer;
+}
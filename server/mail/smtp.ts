@@ -0,0 +1,12 @@
+import nodemailer from "nodemailer";
+import { Mailer } from "./types";
+
+export function createSmtpMailer(options: { url: string; from: string }): Mailer {
+  const transport = nodemailer.createTransport(options.url);
+  return {
+    name: "smtp",
+    async send({ to, subject, text }) {
+      await transport.sendMail({ from: options.from, to, subject, text });
+    },
+  };
+}
@@ -0,0 +1,23 @@
+const appUrl = () => (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+
+export function verificationEmail(name: string, token: string) {
+  return {
+    subject: "Confirm your email address",
+    text:
+      `Hi ${name},\n\n` +
+      `Confirm your email address by opening this link:\n\n` +
+      `${appUrl()}/?verify_token=${encodeURIComponent(token)}\n\n` +
+      `The link expires in 24 hours. If you did not create an account, ignore this email.`,
+  };
+}
+
+export function passwordResetEmail(name: string, token: string) {
+  return {
+    subject: "Reset your password",
+    text:
+      `Hi ${name},\n\n` +
+      `Choose a new password by opening this link:\n\n` +
+      `${appUrl()}/?reset_token=${encodeURIComponent(token)}\n\n` +
+      `The link expires in 1 hour and works once. If you did not ask for a reset, ignore this email; your password is unchanged.`,
+  };
+}
@@ -0,0 +1,11 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers transactional email (verification links, password resets)
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
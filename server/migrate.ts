@@ -0,0 +1,82 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Db } from "./db";
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "migrations");
+
+export interface Migration {
+  version: number;
+  name: string;
+  file: string;
+}
+
+export interface MigrationStatus extends Migration {
+  applied_at: Date | null;
+}
+
+// Migration files are named NNNN_description.sql and applied in version order
+export async function listMigrations(): Promise<Migration[]> {
+  const files = await readdir(MIGRATIONS_DIR);
+  return files
+    .map(file => {
+      const match = file.match(/^(\d+)_(.+)\.sql$/);
+      return match ? { version: Number(match[1]), name: match[2], file } : null;
+    })
+    .filter((m): m is Migration => m !== null)
+    .sort((a, b) => a.version - b.version);
+}
+
+async function ensureMigrationsTable(db: Db) {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export async function migrationStatus(db: Db): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(db);
+  const applied = await db.query("SELECT version, applied_at FROM schema_migrations");
+  const appliedAt = new Map<number, Date>(applied.rows.map((r: any) => [r.version, r.applied_at]));
+  return (await listMigrations()).map(m => ({ ...m, applied_at: appliedAt.get(m.version) ?? null }));
+}
+
+// Apply every pending migration, each in its own transaction
+export async function migrateUp(db: Db): Promise<Migration[]> {
+  const pending = (await migrationStatus(db)).filter(m => !m.applied_at);
+
+  for (const migration of pending) {
+    const sql = await readFile(path.join(MIGRATIONS_DIR, migration.file), "utf8");
+    const client = await db.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(sql);
+      await client.query(
+        "INSERT INTO schema_migrations (version, name) VALUES ($1, $2)",
+        [migration.version, migration.name]
+      );
+      await client.query("COMMIT");
+    } catch (err: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Migration ${migration.file} failed: ${err.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  return pending;
+}
+
+// Refuse to serve requests against a schema older than the code
+export async function assertMigrated(db: Db) {
+  const pending = (await migrationStatus(db)).filter(m => !m.applied_at);
+  if (pending.length > 0) {
+    throw new Error(
+      `Database has ${pending.length} pending migration(s) (${pending.map(m => m.file).join(", ")}). ` +
+      `Run "npm run migrate -- up" first.`
+    );
+  }
+}
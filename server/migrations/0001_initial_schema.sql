@@ -0,0 +1,38 @@
+-- Baseline schema. IF NOT EXISTS lets databases created by the old initDB()
+-- adopt the migration history without changes.
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT UNIQUE NOT NULL,
+  password TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS test_attempts (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  test_type TEXT NOT NULL,
+  subject TEXT,
+  score INTEGER NOT NULL,
+  total INTEGER NOT NULL,
+  duration INTEGER NOT NULL,
+  date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS bookmarks (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  question_data TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS static_questions (
+  id SERIAL PRIMARY KEY,
+  text TEXT NOT NULL,
+  options TEXT NOT NULL,
+  correctAnswer INTEGER NOT NULL,
+  explanation TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  difficulty TEXT NOT NULL,
+  is_important INTEGER DEFAULT 0
+);
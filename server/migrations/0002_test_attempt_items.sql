@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS test_attempt_items (
+  id SERIAL PRIMARY KEY,
+  attempt_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  question_data TEXT NOT NULL,
+  selected_option INTEGER,
+  correct_option INTEGER NOT NULL,
+  time_spent INTEGER NOT NULL DEFAULT 0,
+  FOREIGN KEY (attempt_id) REFERENCES test_attempts(id) ON DELETE CASCADE
+);
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS test_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  test_type TEXT NOT NULL,
+  subject TEXT,
+  attempt_id INTEGER,
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (attempt_id) REFERENCES test_attempts(id)
+);
+
+CREATE TABLE IF NOT EXISTS test_session_questions (
+  id SERIAL PRIMARY KEY,
+  session_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  question_data TEXT NOT NULL,
+  UNIQUE (session_id, position),
+  FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
+);
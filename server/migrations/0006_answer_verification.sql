@@ -0,0 +1,2 @@
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS verification TEXT NOT NULL DEFAULT 'unverified';
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS verified_answer INTEGER;
@@ -0,0 +1,15 @@
+-- In-progress tests are kept on the server so they survive a refresh. The
+-- deadline is fixed when the first questions are issued, so generation time
+-- is not taken off the candidate's clock.
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS total_questions INTEGER;
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS time_limit_seconds INTEGER;
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS deadline TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS test_session_answers (
+  session_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  selected_option INTEGER,
+  time_spent INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (session_id, position),
+  FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
+);
@@ -0,0 +1,26 @@
+-- Exam blueprints describe the layout of a full mock test. Sections and the
+-- difficulty mix are stored as JSON; exactly one blueprint is the default.
+CREATE TABLE IF NOT EXISTS exam_blueprints (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  difficulty_mix TEXT NOT NULL,
+  sections TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The official AP ECET (CSE) pattern: 200 questions in 180 minutes
+INSERT INTO exam_blueprints (name, duration_minutes, difficulty_mix, sections, is_default) VALUES (
+  'AP ECET CSE',
+  180,
+  '{"Easy":30,"Medium":50,"Hard":20}',
+  '[{"name":"Mathematics","subjects":["Mathematics"],"questions":50},{"name":"Physics","subjects":["Physics"],"questions":25},{"name":"Chemistry","subjects":["Chemistry"],"questions":25},{"name":"Computer Science & Engineering","subjects":["Programming in C","Data Structures","Digital Electronics","Computer Organization","Operating Systems","Database Management Systems","Computer Networks","Software Engineering","Java Programming","Web Technologies","Python Programming","Big Data","Android Programming","Internet of Things"],"questions":100}]',
+  TRUE
+);
+
+-- Sessions keep a copy of their layout, so editing a blueprint does not
+-- change tests already under way
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS blueprint_id INTEGER;
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS sections TEXT;
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS difficulty_mix TEXT;
@@ -0,0 +1,17 @@
+-- Scoring schemes: marks for a correct answer, a penalty for a wrong one and
+-- marks for leaving a question out, stored as JSON. Sections may also carry a
+-- weight inside the blueprint's sections JSON.
+ALTER TABLE exam_blueprints ADD COLUMN IF NOT EXISTS scoring TEXT;
+UPDATE exam_blueprints SET scoring = '{"correct":1,"wrong":0,"unattempted":0}' WHERE scoring IS NULL;
+
+-- Sessions keep the scheme they started with; NULL means one mark per correct
+-- answer, as before
+ALTER TABLE test_sessions ADD COLUMN IF NOT EXISTS scoring TEXT;
+
+-- score stays the number of correct answers; marks is the score under the
+-- scheme, and sections its per-section breakdown
+ALTER TABLE test_attempts ADD COLUMN IF NOT EXISTS marks DOUBLE PRECISION;
+ALTER TABLE test_attempts ADD COLUMN IF NOT EXISTS max_marks DOUBLE PRECISION;
+ALTER TABLE test_attempts ADD COLUMN IF NOT EXISTS scoring TEXT;
+ALTER TABLE test_attempts ADD COLUMN IF NOT EXISTS sections TEXT;
+UPDATE test_attempts SET marks = score, max_marks = total WHERE marks IS NULL;
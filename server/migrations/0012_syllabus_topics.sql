@@ -0,0 +1,186 @@
+-- The C-23 diploma syllabus as a subject -> unit -> topic taxonomy. Questions
+-- are tagged with a topic name, which is unique within its subject.
+CREATE TABLE IF NOT EXISTS syllabus_topics (
+  id SERIAL PRIMARY KEY,
+  subject TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL,
+  UNIQUE (subject, name)
+);
+
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS topic TEXT;
+
+INSERT INTO syllabus_topics (subject, unit, name, sort_order) VALUES
+  ('Mathematics', 'Matrices and Determinants', 'Matrices', 1),
+  ('Mathematics', 'Matrices and Determinants', 'Determinants', 2),
+  ('Mathematics', 'Matrices and Determinants', 'Solving Linear Equations', 3),
+  ('Mathematics', 'Trigonometry', 'Trigonometric Ratios', 4),
+  ('Mathematics', 'Trigonometry', 'Compound Angles', 5),
+  ('Mathematics', 'Trigonometry', 'Inverse Trigonometric Functions', 6),
+  ('Mathematics', 'Differential Calculus', 'Limits and Continuity', 7),
+  ('Mathematics', 'Differential Calculus', 'Differentiation', 8),
+  ('Mathematics', 'Differential Calculus', 'Applications of Derivatives', 9),
+  ('Mathematics', 'Integral Calculus', 'Indefinite Integrals', 10),
+  ('Mathematics', 'Integral Calculus', 'Definite Integrals', 11),
+  ('Mathematics', 'Integral Calculus', 'Areas and Volumes', 12),
+  ('Mathematics', 'Differential Equations', 'First Order Equations', 13),
+  ('Mathematics', 'Differential Equations', 'Linear Equations', 14),
+  ('Physics', 'Units and Measurements', 'Units and Dimensions', 1),
+  ('Physics', 'Units and Measurements', 'Errors in Measurement', 2),
+  ('Physics', 'Mechanics', 'Kinematics', 3),
+  ('Physics', 'Mechanics', 'Laws of Motion', 4),
+  ('Physics', 'Mechanics', 'Work, Power and Energy', 5),
+  ('Physics', 'Heat and Thermodynamics', 'Heat Transfer', 6),
+  ('Physics', 'Heat and Thermodynamics', 'Laws of Thermodynamics', 7),
+  ('Physics', 'Waves and Sound', 'Simple Harmonic Motion', 8),
+  ('Physics', 'Waves and Sound', 'Sound and Acoustics', 9),
+  ('Physics', 'Electricity and Magnetism', 'Current Electricity', 10),
+  ('Physics', 'Electricity and Magnetism', 'Electromagnetism', 11),
+  ('Physics', 'Electricity and Magnetism', 'Modern Physics', 12),
+  ('Chemistry', 'Atomic Structure and Bonding', 'Atomic Structure', 1),
+  ('Chemistry', 'Atomic Structure and Bonding', 'Chemical Bonding', 2),
+  ('Chemistry', 'Solutions and Acids', 'Solutions', 3),
+  ('Chemistry', 'Solutions and Acids', 'Acids, Bases and pH', 4),
+  ('Chemistry', 'Electrochemistry', 'Electrolysis', 5),
+  ('Chemistry', 'Electrochemistry', 'Corrosion', 6),
+  ('Chemistry', 'Industrial Chemistry', 'Water Technology', 7),
+  ('Chemistry', 'Industrial Chemistry', 'Polymers', 8),
+  ('Chemistry', 'Industrial Chemistry', 'Fuels', 9),
+  ('Chemistry', 'Environmental Chemistry', 'Pollution', 10),
+  ('Chemistry', 'Environmental Chemistry', 'Green Chemistry', 11),
+  ('Programming in C', 'C Fundamentals', 'Data Types and Operators', 1),
+  ('Programming in C', 'C Fundamentals', 'Input and Output', 2),
+  ('Programming in C', 'C Fundamentals', 'Control Statements', 3),
+  ('Programming in C', 'Arrays and Strings', 'Arrays', 4),
+  ('Programming in C', 'Arrays and Strings', 'Strings', 5),
+  ('Programming in C', 'Functions', 'Functions and Recursion', 6),
+  ('Programming in C', 'Functions', 'Storage Classes', 7),
+  ('Programming in C', 'Pointers and Structures', 'Pointers', 8),
+  ('Programming in C', 'Pointers and Structures', 'Structures and Unions', 9),
+  ('Programming in C', 'Pointers and Structures', 'File Handling', 10),
+  ('Data Structures', 'Introduction', 'Algorithm Analysis', 1),
+  ('Data Structures', 'Introduction', 'Searching and Sorting', 2),
+  ('Data Structures', 'Linear Data Structures', 'Stacks', 3),
+  ('Data Structures', 'Linear Data Structures', 'Queues', 4),
+  ('Data Structures', 'Linear Data Structures', 'Linked Lists', 5),
+  ('Data Structures', 'Trees', 'Binary Trees', 6),
+  ('Data Structures', 'Trees', 'Binary Search Trees', 7),
+  ('Data Structures', 'Trees', 'Tree Traversals', 8),
+  ('Data Structures', 'Graphs and Hashing', 'Graphs', 9),
+  ('Data Structures', 'Graphs and Hashing', 'Hashing', 10),
+  ('Digital Electronics', 'Number Systems', 'Number Systems and Codes', 1),
+  ('Digital Electronics', 'Number Systems', 'Binary Arithmetic', 2),
+  ('Digital Electronics', 'Logic Gates and Boolean Algebra', 'Logic Gates', 3),
+  ('Digital Electronics', 'Logic Gates and Boolean Algebra', 'Boolean Algebra', 4),
+  ('Digital Electronics', 'Logic Gates and Boolean Algebra', 'K-Maps', 5),
+  ('Digital Electronics', 'Combinational Circuits', 'Adders and Subtractors', 6),
+  ('Digital Electronics', 'Combinational Circuits', 'Multiplexers and Decoders', 7),
+  ('Digital Electronics', 'Sequential Circuits', 'Flip-Flops', 8),
+  ('Digital Electronics', 'Sequential Circuits', 'Counters and Registers', 9),
+  ('Computer Organization', 'Basic Computer Organization', 'Functional Units', 1),
+  ('Computer Organization', 'Basic Computer Organization', 'Registers and Buses', 2),
+  ('Computer Organization', 'CPU Organization', 'Instruction Formats', 3),
+  ('Computer Organization', 'CPU Organization', 'Addressing Modes', 4),
+  ('Computer Organization', 'CPU Organization', 'Microprocessor 8085', 5),
+  ('Computer Organization', 'Memory Organization', 'Memory Hierarchy', 6),
+  ('Computer Organization', 'Memory Organization', 'Cache Memory', 7),
+  ('Computer Organization', 'Memory Organization', 'Virtual Memory', 8),
+  ('Computer Organization', 'Input/Output Organization', 'I/O Interfaces', 9),
+  ('Computer Organization', 'Input/Output Organization', 'Interrupts and DMA', 10),
+  ('Operating Systems', 'Introduction', 'OS Structure', 1),
+  ('Operating Systems', 'Introduction', 'System Calls', 2),
+  ('Operating Systems', 'Process Management', 'Processes and Threads', 3),
+  ('Operating Systems', 'Process Management', 'CPU Scheduling', 4),
+  ('Operating Systems', 'Process Management', 'Synchronization', 5),
+  ('Operating Systems', 'Deadlocks', 'Deadlock Characterization', 6),
+  ('Operating Systems', 'Deadlocks', 'Deadlock Avoidance', 7),
+  ('Operating Systems', 'Memory Management', 'Paging and Segmentation', 8),
+  ('Operating Systems', 'Memory Management', 'Page Replacement', 9),
+  ('Operating Systems', 'File Systems', 'File Systems', 10),
+  ('Operating Systems', 'File Systems', 'Disk Scheduling', 11),
+  ('Database Management Systems', 'Introduction', 'DBMS Architecture', 1),
+  ('Database Management Systems', 'Introduction', 'Data Models', 2),
+  ('Database Management Systems', 'Relational Model', 'ER Model', 3),
+  ('Database Management Systems', 'Relational Model', 'Relational Algebra', 4),
+  ('Database Management Systems', 'Relational Model', 'Keys and Constraints', 5),
+  ('Database Management Systems', 'SQL', 'DDL and DML', 6),
+  ('Database Management Systems', 'SQL', 'Joins and Subqueries', 7),
+  ('Database Management Systems', 'Database Design', 'Functional Dependencies', 8),
+  ('Database Management Systems', 'Database Design', 'Normalization', 9),
+  ('Database Management Systems', 'Transactions', 'Transactions', 10),
+  ('Database Management Systems', 'Transactions', 'Concurrency Control', 11),
+  ('Computer Networks', 'Network Fundamentals', 'Network Topologies', 1),
+  ('Computer Networks', 'Network Fundamentals', 'OSI and TCP/IP Models', 2),
+  ('Computer Networks', 'Physical and Data Link Layers', 'Transmission Media', 3),
+  ('Computer Networks', 'Physical and Data Link Layers', 'Error Detection', 4),
+  ('Computer Networks', 'Physical and Data Link Layers', 'LAN Standards', 5),
+  ('Computer Networks', 'Network Layer', 'IP Addressing and Subnetting', 6),
+  ('Computer Networks', 'Network Layer', 'Routing', 7),
+  ('Computer Networks', 'Transport and Application Layers', 'TCP and UDP', 8),
+  ('Computer Networks', 'Transport and Application Layers', 'Application Protocols', 9),
+  ('Computer Networks', 'Transport and Application Layers', 'Network Security', 10),
+  ('Software Engineering', 'Software Process', 'SDLC Models', 1),
+  ('Software Engineering', 'Software Process', 'Agile Development', 2),
+  ('Software Engineering', 'Requirements and Design', 'Requirements Engineering', 3),
+  ('Software Engineering', 'Requirements and Design', 'Software Design', 4),
+  ('Software Engineering', 'Requirements and Design', 'UML', 5),
+  ('Software Engineering', 'Testing', 'Testing Techniques', 6),
+  ('Software Engineering', 'Testing', 'Levels of Testing', 7),
+  ('Software Engineering', 'Project Management', 'Estimation', 8),
+  ('Software Engineering', 'Project Management', 'Quality and Maintenance', 9),
+  ('Java Programming', 'Java Basics', 'Data Types and Operators', 1),
+  ('Java Programming', 'Java Basics', 'Control Statements', 2),
+  ('Java Programming', 'Java Basics', 'Arrays and Strings', 3),
+  ('Java Programming', 'Object-Oriented Programming', 'Classes and Objects', 4),
+  ('Java Programming', 'Object-Oriented Programming', 'Inheritance', 5),
+  ('Java Programming', 'Object-Oriented Programming', 'Interfaces and Packages', 6),
+  ('Java Programming', 'Exceptions and Threads', 'Exception Handling', 7),
+  ('Java Programming', 'Exceptions and Threads', 'Multithreading', 8),
+  ('Java Programming', 'Java Libraries', 'Collections', 9),
+  ('Java Programming', 'Java Libraries', 'I/O Streams', 10),
+  ('Java Programming', 'Java Libraries', 'JDBC', 11),
+  ('Web Technologies', 'HTML and CSS', 'HTML', 1),
+  ('Web Technologies', 'HTML and CSS', 'CSS', 2),
+  ('Web Technologies', 'Client-Side Scripting', 'JavaScript', 3),
+  ('Web Technologies', 'Client-Side Scripting', 'DOM and Events', 4),
+  ('Web Technologies', 'Server-Side Programming', 'PHP', 5),
+  ('Web Technologies', 'Server-Side Programming', 'Servlets and JSP', 6),
+  ('Web Technologies', 'Web Data', 'XML', 7),
+  ('Web Technologies', 'Web Data', 'Web Services', 8),
+  ('Python Programming', 'Python Basics', 'Data Types and Operators', 1),
+  ('Python Programming', 'Python Basics', 'Control Flow', 2),
+  ('Python Programming', 'Data Structures in Python', 'Lists and Tuples', 3),
+  ('Python Programming', 'Data Structures in Python', 'Dictionaries and Sets', 4),
+  ('Python Programming', 'Data Structures in Python', 'Strings', 5),
+  ('Python Programming', 'Functions and Modules', 'Functions', 6),
+  ('Python Programming', 'Functions and Modules', 'Modules and Packages', 7),
+  ('Python Programming', 'Advanced Python', 'File Handling', 8),
+  ('Python Programming', 'Advanced Python', 'Exception Handling', 9),
+  ('Python Programming', 'Advanced Python', 'Object-Oriented Python', 10),
+  ('Big Data', 'Introduction to Big Data', 'Characteristics of Big Data', 1),
+  ('Big Data', 'Introduction to Big Data', 'Big Data Applications', 2),
+  ('Big Data', 'Hadoop', 'HDFS', 3),
+  ('Big Data', 'Hadoop', 'MapReduce', 4),
+  ('Big Data', 'Hadoop', 'YARN', 5),
+  ('Big Data', 'Hadoop Ecosystem', 'Hive', 6),
+  ('Big Data', 'Hadoop Ecosystem', 'Pig', 7),
+  ('Big Data', 'Hadoop Ecosystem', 'HBase', 8),
+  ('Big Data', 'NoSQL', 'NoSQL Databases', 9),
+  ('Big Data', 'NoSQL', 'Data Analytics', 10),
+  ('Android Programming', 'Android Basics', 'Android Architecture', 1),
+  ('Android Programming', 'Android Basics', 'Development Environment', 2),
+  ('Android Programming', 'Application Components', 'Activities and Intents', 3),
+  ('Android Programming', 'Application Components', 'Services and Broadcast Receivers', 4),
+  ('Android Programming', 'User Interface', 'Layouts', 5),
+  ('Android Programming', 'User Interface', 'Views and Widgets', 6),
+  ('Android Programming', 'Data Storage', 'Shared Preferences', 7),
+  ('Android Programming', 'Data Storage', 'SQLite', 8),
+  ('Internet of Things', 'IoT Fundamentals', 'IoT Architecture', 1),
+  ('Internet of Things', 'IoT Fundamentals', 'IoT Applications', 2),
+  ('Internet of Things', 'Sensors and Devices', 'Sensors and Actuators', 3),
+  ('Internet of Things', 'Sensors and Devices', 'Microcontrollers', 4),
+  ('Internet of Things', 'IoT Communication', 'IoT Protocols', 5),
+  ('Internet of Things', 'IoT Communication', 'Wireless Technologies', 6),
+  ('Internet of Things', 'IoT Platforms', 'Cloud Platforms', 7),
+  ('Internet of Things', 'IoT Platforms', 'IoT Security', 8);
@@ -0,0 +1,19 @@
+-- Spaced-repetition review queue. Each user has one card per question,
+-- keyed by its normalised text, scheduled with SM-2. Times are local, like
+-- the rest of the schema.
+CREATE TABLE IF NOT EXISTS review_cards (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  question_key TEXT NOT NULL,
+  question_data TEXT NOT NULL,
+  source TEXT NOT NULL,
+  ease_factor DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP NOT NULL DEFAULT LOCALTIMESTAMP,
+  last_reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT LOCALTIMESTAMP,
+  UNIQUE (user_id, question_key),
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
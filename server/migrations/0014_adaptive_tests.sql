@@ -0,0 +1,3 @@
+-- Adaptive tests: sessions and attempts reuse test_type = 'Adaptive'; the
+-- attempt keeps the ability estimate the test ended on. NULL for other tests.
+ALTER TABLE test_attempts ADD COLUMN IF NOT EXISTS ability DOUBLE PRECISION;
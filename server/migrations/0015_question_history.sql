@@ -0,0 +1,17 @@
+-- Admin editing of the static pool. Deleted questions are kept, with
+-- deleted_at set, so they can be restored; every change is recorded with the
+-- editable fields before and after it (as JSON) so it can be reverted.
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS static_question_revisions (
+  id SERIAL PRIMARY KEY,
+  question_id INTEGER NOT NULL,
+  editor_id INTEGER,
+  action TEXT NOT NULL,
+  before_data TEXT,
+  after_data TEXT,
+  created_at TIMESTAMP DEFAULT LOCALTIMESTAMP,
+  FOREIGN KEY (question_id) REFERENCES static_questions(id),
+  FOREIGN KEY (editor_id) REFERENCES users(id)
+);
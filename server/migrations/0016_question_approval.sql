@@ -0,0 +1,4 @@
+-- Seeded questions wait in an approval queue until an admin approves them;
+-- only approved ones are served. Questions already in the pool were in use,
+-- so they start out approved.
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS approval TEXT NOT NULL DEFAULT 'approved';
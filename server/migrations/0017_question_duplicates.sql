@@ -0,0 +1,7 @@
+-- Near-duplicate tracking for the static pool. similar_to is the closest
+-- question already in the pool when this one was added, with its similarity
+-- score from 0 to 1. merged_into is the question a deleted duplicate was
+-- merged into.
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS similar_to INTEGER;
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS similarity DOUBLE PRECISION;
+ALTER TABLE static_questions ADD COLUMN IF NOT EXISTS merged_into INTEGER;
@@ -0,0 +1,3 @@
+-- Questions bookmarked while their test is still running. Their answer keys
+-- stay on the server until the test is submitted, when they are bookmarked.
+ALTER TABLE test_session_questions ADD COLUMN IF NOT EXISTS bookmarked BOOLEAN NOT NULL DEFAULT FALSE;
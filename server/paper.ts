@@ -0,0 +1,25 @@
+import { BlueprintSection, DifficultyMix, Subject, SUBJECTS, TestSection, SUBJECT_TEST_FORMAT } from "../src/types";
+
+// Give each section its run of positions, in blueprint order
+export function placeSections(sections: BlueprintSection[]): TestSection[] {
+  let start = 0;
+  return sections.map(section => {
+    const placed = { ...section, start };
+    start += section.questions;
+    return placed;
+  });
+}
+
+export const subjectTestSections = (subject: Subject, topics?: string[], questions = SUBJECT_TEST_FORMAT.questions): TestSection[] =>
+  placeSections([{ name: subject, subjects: [subject], questions }])
+    .map(section => topics ? { ...section, topics } : section);
+
+// Sessions from before sections were stored are one section over every subject
+export const legacySections = (subject: Subject | null, totalQuestions: number): TestSection[] =>
+  placeSections([{ name: subject ?? "Full Mock Test", subjects: subject ? [subject] : SUBJECTS, questions: totalQuestions }]);
+
+export const sectionAt = (sections: TestSection[], position: number): TestSection | undefined =>
+  sections.find(s => position >= s.start && position < s.start + s.questions);
+
+export const describeDifficultyMix = (mix: DifficultyMix | null) =>
+  mix ? `About ${mix.Easy}% Easy, ${mix.Medium}% Medium and ${mix.Hard}% Hard` : "Mix of Easy, Medium, and Hard";
@@ -0,0 +1,316 @@
+import { Question, QuestionFileFormat, ValidationIssue } from "../src/types";
+
+// A question as read from an import file, before it is validated. row is the
+// 1-based item of a JSON list, the spreadsheet row of a CSV file or the line a
+// GIFT question starts on.
+export interface ParsedRow {
+  row: number;
+  data: Record<string, unknown>;
+  issues: ValidationIssue[];
+}
+
+// Problems with a file as a whole, rather than with one of its questions
+export class QuestionFileError extends Error {}
+
+export const CONTENT_TYPES: Record<QuestionFileFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  gift: "text/plain",
+};
+
+const LETTERS = ["A", "B", "C", "D"];
+
+// "easy" and "EASY" are both Easy; anything else is passed on for validation to reject
+const toDifficulty = (value: string) => {
+  const level = value.trim().toLowerCase();
+  return ["easy", "medium", "hard"].includes(level) ? level[0].toUpperCase() + level.slice(1) : value.trim();
+};
+
+const isTrue = (value: string) => ["yes", "y", "true", "1"].includes(value.trim().toLowerCase());
+
+export function parseQuestionFile(format: QuestionFileFormat, content: string): ParsedRow[] {
+  const text = content.replace(/^\uFEFF/, "");
+  if (format === "json") return parseJson(text);
+  if (format === "csv") return parseCsv(text);
+  return parseGift(text);
+}
+
+export function formatQuestionFile(format: QuestionFileFormat, questions: Question[]): string {
+  if (format === "json") return JSON.stringify(questions.map(exportable), null, 2);
+  if (format === "csv") return formatCsv(questions);
+  return formatGift(questions);
+}
+
+// Ids and answer-check state belong to this bank, not to the file
+const exportable = ({ id, verification, verified_answer, ...question }: Question) => question;
+
+// JSON: a list of questions in the API's own shape, or { questions: [...] }
+function parseJson(text: string): ParsedRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new QuestionFileError("The file is not valid JSON");
+  }
+  const items = Array.isArray(parsed) ? parsed : (parsed as any)?.questions;
+  if (!Array.isArray(items)) throw new QuestionFileError("Expected a list of questions");
+  return items.map((item, i) => ({
+    row: i + 1,
+    data: item && typeof item === "object" ? item : {},
+    issues: item && typeof item === "object" ? [] : [{ path: "", message: "Each question must be an object" }],
+  }));
+}
+
+// CSV: one question per row under a header naming the columns
+export const CSV_COLUMNS = [
+  "text", "option_a", "option_b", "option_c", "option_d", "answer", "explanation", "subject", "topic", "difficulty", "is_important",
+];
+const REQUIRED_CSV_COLUMNS = ["text", "option_a", "option_b", "option_c", "option_d", "answer"];
+
+// RFC 4180 records with the line each one starts on; quoted fields may hold
+// commas, doubled quotes and line breaks
+function readCsvRecords(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      records.push({ line: start, fields });
+      fields = [];
+      field = "";
+      start = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new QuestionFileError(`Unclosed quote in the row starting on line ${start}`);
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: start, fields });
+  }
+  return records.filter(r => r.fields.some(f => f.trim() !== ""));
+}
+
+function parseCsv(text: string): ParsedRow[] {
+  const [header, ...records] = readCsvRecords(text);
+  if (!header) throw new QuestionFileError("The file is empty");
+  const columns = header.fields.map(f => f.trim().toLowerCase());
+  const missing = REQUIRED_CSV_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) throw new QuestionFileError(`Missing column${missing.length === 1 ? "" : "s"}: ${missing.join(", ")}`);
+
+  return records.map(({ line, fields }) => {
+    const cell = (name: string) => {
+      const index = columns.indexOf(name);
+      return index === -1 ? "" : (fields[index] ?? "").trim();
+    };
+    const issues: ValidationIssue[] = [];
+    const answer = LETTERS.indexOf(cell("answer").toUpperCase());
+    if (answer === -1) issues.push({ path: "correctAnswer", message: "Answer must be A, B, C or D" });
+
+    const data: Record<string, unknown> = {
+      text: cell("text"),
+      options: ["option_a", "option_b", "option_c", "option_d"].map(cell),
+      correctAnswer: answer === -1 ? undefined : answer,
+      explanation: cell("explanation"),
+      subject: cell("subject") || undefined,
+      difficulty: toDifficulty(cell("difficulty")) || undefined,
+    };
+    if (cell("topic")) data.topic = cell("topic");
+    if (cell("is_important")) data.is_important = isTrue(cell("is_important"));
+    return { row: line, data, issues };
+  });
+}
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+function formatCsv(questions: Question[]): string {
+  const rows = questions.map(q => [
+    q.text,
+    ...q.options,
+    LETTERS[q.correctAnswer],
+    q.explanation,
+    q.subject,
+    q.topic ?? "",
+    q.difficulty,
+    q.is_important ? "yes" : "",
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// GIFT, Moodle's plain-text format. Only multiple-choice questions with one
+// right answer are read. The subject and topic come from the category path
+// ($CATEGORY: $course$/top/Subject/Topic), and the difficulty and importance
+// from tags in the comment above the question (// [tag:Hard] [tag:important]).
+// A question without a difficulty tag is Medium; its general feedback (####)
+// is the explanation.
+
+const GIFT_SPECIAL = /[~=#{}:]/g;
+
+const giftEscape = (text: string) => text.replace(/\\/g, "\\\\").replace(GIFT_SPECIAL, ch => `\\${ch}`).replace(/\n/g, "\\n");
+
+const giftUnescape = (text: string) =>
+  text.replace(/\\(.)/g, (_, ch) => ch === "n" ? "\n" : ch).trim();
+
+// Splits on characters not preceded by a backslash
+function splitUnescaped(text: string, pattern: RegExp): { marker: string; body: string }[] {
+  const parts: { marker: string; body: string }[] = [];
+  let current = { marker: "", body: "" };
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\") {
+      current.body += text.slice(i, i + 2);
+      i++;
+    } else if (pattern.test(text[i])) {
+      parts.push(current);
+      current = { marker: text[i], body: "" };
+    } else {
+      current.body += text[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+const indexOfUnescaped = (text: string, ch: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === ch) return i;
+  }
+  return -1;
+};
+
+// Category path segments; a doubled slash is a slash inside a name
+const categorySegments = (path: string) =>
+  path.split(/(?<!\/)\/(?!\/)/).map(s => s.replace(/\/\//g, "/").trim())
+    .filter(s => s && s !== "$course$" && s !== "$system$" && s !== "top");
+
+function parseGift(text: string): ParsedRow[] {
+  const rows: ParsedRow[] = [];
+  let category: string[] = [];
+  let tags: string[] = [];
+  let block: string[] = [];
+  let blockLine = 0;
+
+  const flush = () => {
+    if (block.length > 0) rows.push(parseGiftQuestion(block.join("\n"), blockLine, category, tags));
+    block = [];
+    tags = [];
+  };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (block.length === 0 && line === "") return;
+    if (line.startsWith("//")) {
+      if (block.length === 0) tags.push(...[...line.matchAll(/\[tag:([^\]]+)\]/g)].map(m => m[1].trim()));
+      return;
+    }
+    if (block.length === 0 && line.startsWith("$CATEGORY:")) {
+      category = categorySegments(line.slice("$CATEGORY:".length));
+      return;
+    }
+    if (block.length === 0) blockLine = i + 1;
+    block.push(raw);
+    // A question ends at the blank line after its closing brace
+    if (line === "" && indexOfUnescaped(block.join("\n"), "}") !== -1) flush();
+  });
+  flush();
+  return rows;
+}
+
+function parseGiftQuestion(source: string, row: number, category: string[], tags: string[]): ParsedRow {
+  const issues: ValidationIssue[] = [];
+  let body = source.trim();
+
+  // An optional ::title:: is not part of the question
+  if (body.startsWith("::")) {
+    const end = body.indexOf("::", 2);
+    if (end !== -1) body = body.slice(end + 2).trim();
+  }
+  body = body.replace(/^\[(markdown|html|plain|moodle)\]/, "");
+
+  const open = indexOfUnescaped(body, "{");
+  const close = open === -1 ? -1 : indexOfUnescaped(body, "}", open);
+  if (open === -1 || close === -1) {
+    return { row, data: {}, issues: [{ path: "", message: "Missing the {…} answer block" }] };
+  }
+
+  // Text after the answer block is part of the question, as in fill-the-blank
+  const text = giftUnescape(`${body.slice(0, open)} ${body.slice(close + 1)}`);
+  let answers = body.slice(open + 1, close);
+  let explanation = "";
+  const feedback = answers.search(/(?<!\\)####/);
+  if (feedback !== -1) {
+    explanation = giftUnescape(answers.slice(feedback + 4));
+    answers = answers.slice(0, feedback);
+  }
+
+  const choices = splitUnescaped(answers, /[=~]/).slice(1)
+    // Per-answer feedback (#...) is dropped; a ~%100% weight marks a right answer
+    .map(({ marker, body }) => {
+      const answer = splitUnescaped(body, /#/)[0].body;
+      const weight = answer.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+      return {
+        correct: marker === "=" || (weight !== null && Number(weight[1]) === 100),
+        text: giftUnescape(weight ? answer.replace(weight[0], "") : answer),
+      };
+    });
+  const correct = choices.filter(c => c.correct);
+  if (choices.length === 0 || correct.length !== 1) {
+    issues.push({ path: "correctAnswer", message: "Only multiple-choice questions with one right answer can be imported" });
+  }
+
+  const difficulty = tags.map(toDifficulty).find(t => ["Easy", "Medium", "Hard"].includes(t)) ?? "Medium";
+  const data: Record<string, unknown> = {
+    text,
+    options: choices.map(c => c.text),
+    correctAnswer: correct.length === 1 ? choices.indexOf(correct[0]) : undefined,
+    explanation,
+    subject: category[0],
+    difficulty,
+  };
+  if (category[1]) data.topic = category[1];
+  if (tags.some(t => t.toLowerCase() === "important")) data.is_important = true;
+  return { row, data, issues };
+}
+
+function formatGift(questions: Question[]): string {
+  const blocks: string[] = [];
+  let category = "";
+  for (const q of questions) {
+    const path = ["$course$", "top", q.subject, ...(q.topic ? [q.topic] : [])].map(s => s.replace(/\//g, "//")).join("/");
+    if (path !== category) {
+      blocks.push(`$CATEGORY: ${path}`);
+      category = path;
+    }
+    const tags = [q.difficulty, ...(q.is_important ? ["important"] : [])].map(t => `[tag:${t}]`).join(" ");
+    blocks.push([
+      `// ${tags}`,
+      `${giftEscape(q.text)} {`,
+      ...q.options.map((option, i) => `${i === q.correctAnswer ? "=" : "~"}${giftEscape(option)}`),
+      `####${giftEscape(q.explanation)}`,
+      "}",
+    ].join("\n"));
+  }
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,101 @@
+import { Question, Subject, SUBJECTS } from "../src/types";
+
+const DIFFICULTIES: Question['difficulty'][] = ["Easy", "Medium", "Hard"];
+
+// Common short names models use instead of the exact subject
+const SUBJECT_ALIASES: Record<string, Subject> = {
+  "math": "Mathematics",
+  "maths": "Mathematics",
+  "c": "Programming in C",
+  "c programming": "Programming in C",
+  "ds": "Data Structures",
+  "data structures through c": "Data Structures",
+  "de": "Digital Electronics",
+  "co": "Computer Organization",
+  "computer organization and microprocessors": "Computer Organization",
+  "os": "Operating Systems",
+  "dbms": "Database Management Systems",
+  "cn": "Computer Networks",
+  "se": "Software Engineering",
+  "software eng": "Software Engineering",
+  "java": "Java Programming",
+  "web tech": "Web Technologies",
+  "python": "Python Programming",
+  "android": "Android Programming",
+  "iot": "Internet of Things",
+};
+
+// Lower-case, strip punctuation and collapse whitespace so trivially different
+// copies of the same question compare equal
+export const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+function resolveSubject(value: unknown): Subject | null {
+  if (typeof value !== "string") return null;
+  const key = value.trim().toLowerCase();
+  return SUBJECTS.find(s => s.toLowerCase() === key) ?? SUBJECT_ALIASES[key] ?? null;
+}
+
+// The syllabus spelling of a topic, ignoring case and punctuation
+export function resolveTopic(topics: string[], value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const key = normalizeText(value);
+  return topics.find(t => normalizeText(t) === key);
+}
+
+export interface QuestionCheck {
+  question: Question | null;
+  errors: string[];
+}
+
+// Check a generated question against the invariants the test UI relies on,
+// fixing harmless formatting problems (whitespace, casing, numeric strings)
+export function validateQuestion(raw: any): QuestionCheck {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") return { question: null, errors: ["not an object"] };
+
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  if (!text) errors.push("text is empty");
+
+  const explanation = typeof raw.explanation === "string" ? raw.explanation.trim() : "";
+  if (!explanation) errors.push("explanation is empty");
+
+  const options: string[] = Array.isArray(raw.options)
+    ? raw.options.map((o: unknown) => (typeof o === "string" || typeof o === "number" ? String(o).trim() : ""))
+    : [];
+  if (options.length !== 4) {
+    errors.push("options must have exactly 4 entries");
+  } else if (options.some(o => !o)) {
+    errors.push("options must not be empty");
+  } else if (new Set(options.map(o => o.toLowerCase().replace(/\s+/g, " "))).size !== 4) {
+    errors.push("options must be distinct");
+  }
+
+  const correctAnswer = typeof raw.correctAnswer === "string" ? Number(raw.correctAnswer) : raw.correctAnswer;
+  if (!Number.isInteger(correctAnswer) || correctAnswer < 0 || correctAnswer > 3) {
+    errors.push("correctAnswer must be an index from 0 to 3");
+  }
+
+  const subject = resolveSubject(raw.subject);
+  if (!subject) errors.push(`unknown subject "${raw.subject}"`);
+
+  const difficulty = DIFFICULTIES.find(d => d.toLowerCase() === String(raw.difficulty).trim().toLowerCase());
+  if (!difficulty) errors.push(`unknown difficulty "${raw.difficulty}"`);
+
+  const topic = typeof raw.topic === "string" && raw.topic.trim() ? raw.topic.trim() : undefined;
+
+  if (errors.length > 0) return { question: null, errors };
+  return {
+    question: {
+      text,
+      options,
+      correctAnswer,
+      explanation,
+      subject,
+      topic,
+      difficulty,
+      is_important: raw.is_important === true,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,74 @@
+import { RateLimitRule, RateLimitStore } from "./types";
+
+export type { RateLimitRule, RateLimitStore, RateLimitCounter } from "./types";
+export { createMemoryRateLimitStore } from "./memory";
+
+export interface RateLimitConfig {
+  // Per IP, shared by the sign-in, registration and email token routes
+  auth: RateLimitRule;
+  // Rejected session renewals per IP. Valid renewals are not counted, since
+  // many signed-in users can share one address and each renews every few minutes.
+  refresh: RateLimitRule;
+  // Per email address, for reset emails
+  passwordReset: RateLimitRule;
+  // Failed sign-ins per account before it is locked for the rest of the window
+  loginLockout: RateLimitRule;
+  // Generation requests per user and per IP
+  aiPerUser: RateLimitRule;
+  aiPerIp: RateLimitRule;
+}
+
+const UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+// Reads limits written as "<count>/<duration>", e.g. "5/15m"
+export function parseRateLimit(value: string): RateLimitRule {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)\s*([smh])$/);
+  if (!match) throw new Error(`Invalid rate limit "${value}", expected e.g. "5/15m"`);
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * UNITS[match[3]] };
+}
+
+const fromEnv = (name: string, fallback: string) => parseRateLimit(process.env[name] || fallback);
+
+export function loadRateLimitConfig(): RateLimitConfig {
+  return {
+    auth: fromEnv("RATE_LIMIT_AUTH", "30/15m"),
+    refresh: fromEnv("RATE_LIMIT_REFRESH", "10/15m"),
+    passwordReset: fromEnv("RATE_LIMIT_PASSWORD_RESET", "3/1h"),
+    loginLockout: fromEnv("LOGIN_LOCKOUT", "5/15m"),
+    aiPerUser: fromEnv("RATE_LIMIT_AI_USER", "20/1m"),
+    aiPerIp: fromEnv("RATE_LIMIT_AI_IP", "60/1m"),
+  };
+}
+
+function describeWait(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// 429 with Retry-After, telling the user how long to wait
+export function sendTooManyRequests(res: any, resetAt: number, reason: string) {
+  const seconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+  res.set("Retry-After", String(seconds));
+  res.status(429).json({ error: `${reason}. Try again in ${describeWait(seconds)}.` });
+}
+
+// Rate Limit Middleware: counts requests per key (IP, user id, ...) and
+// rejects them past the rule's limit. Requests without a key are not counted.
+export const rateLimit = (
+  store: RateLimitStore,
+  name: string,
+  rule: RateLimitRule,
+  keyOf: (req: any) => string | number | null | undefined
+) => async (req: any, res: any, next: any) => {
+  const key = keyOf(req);
+  if (key === null || key === undefined || key === "") return next();
+  try {
+    const { count, resetAt } = await store.increment(`${name}:${key}`, rule.windowMs);
+    if (count > rule.limit) return sendTooManyRequests(res, resetAt, "Too many requests");
+  } catch (err) {
+    // Serve the request rather than take the site down with the store
+    console.error("Rate limit store failed:", err);
+  }
+  next();
+};
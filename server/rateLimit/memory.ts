@@ -0,0 +1,43 @@
+import { RateLimitCounter, RateLimitStore } from "./types";
+
+// Expired windows are dropped during writes once this many keys are held
+const SWEEP_THRESHOLD = 10000;
+
+// Fixed-window counters held in process memory
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const counters = new Map<string, RateLimitCounter>();
+
+  const live = (key: string) => {
+    const counter = counters.get(key);
+    if (counter && counter.resetAt <= now()) {
+      counters.delete(key);
+      return null;
+    }
+    return counter ?? null;
+  };
+
+  const sweep = () => {
+    const time = now();
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= time) counters.delete(key);
+    }
+  };
+
+  return {
+    name: "memory",
+    async increment(key, windowMs) {
+      if (counters.size >= SWEEP_THRESHOLD) sweep();
+      const counter = live(key) ?? { count: 0, resetAt: now() + windowMs };
+      counter.count++;
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    async get(key) {
+      const counter = live(key);
+      return counter ? { ...counter } : null;
+    },
+    async reset(key) {
+      counters.delete(key);
+    },
+  };
+}
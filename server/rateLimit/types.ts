@@ -0,0 +1,20 @@
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitCounter {
+  count: number;
+  // Epoch milliseconds at which the window ends and the count starts over
+  resetAt: number;
+}
+
+// Where hit counters live. The in-memory store suits a single server process;
+// several instances behind a load balancer need a shared one (e.g. Redis).
+export interface RateLimitStore {
+  name: string;
+  // Counts a hit, starting a new window of windowMs if none is open
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitCounter | null>;
+  reset(key: string): Promise<void>;
+}
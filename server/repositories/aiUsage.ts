@@ -0,0 +1,23 @@
+import { Db } from "../db";
+
+export function createAiUsageRepository(db: Db) {
+  return {
+    // Questions generated for a user over the trailing 24 hours
+    async usedToday(userId: number): Promise<number> {
+      const result = await db.query(
+        "SELECT COALESCE(SUM(question_count), 0) AS used FROM ai_usage WHERE user_id = $1 AND created_at > CURRENT_TIMESTAMP - INTERVAL '1 day'",
+        [userId]
+      );
+      return Number(result.rows[0].used);
+    },
+
+    async record(userId: number, endpoint: string, count: number) {
+      await db.query(
+        "INSERT INTO ai_usage (user_id, endpoint, question_count) VALUES ($1, $2, $3)",
+        [userId, endpoint, count]
+      );
+    },
+  };
+}
+
+export type AiUsageRepository = ReturnType<typeof createAiUsageRepository>;
@@ -0,0 +1,216 @@
+import { Db } from "../db";
+import {
+  Question,
+  ScoringScheme,
+  SectionResult,
+  Subject,
+  TestAttempt,
+  TestAttemptDetail,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardPeriod,
+} from "../../src/types";
+import { describeAbility } from "../adaptive";
+
+export interface NewAttempt {
+  userId: number;
+  sessionId: number;
+  testType: string;
+  subject: string | null;
+  score: number;
+  total: number;
+  marks: number;
+  maxMarks: number;
+  scoring: ScoringScheme;
+  sections: SectionResult[];
+  // Adaptive tests only
+  ability: number | null;
+  duration: number;
+  items: {
+    position: number;
+    question: Question;
+    selected: number | null;
+    timeSpent: number;
+  }[];
+}
+
+export interface LeaderboardFilters {
+  period: LeaderboardPeriod;
+  testType?: "Full" | "Subject";
+  subject?: Subject;
+  minAttempts: number;
+  page: number;
+  pageSize: number;
+}
+
+// Rolling windows counted back from now
+const PERIOD_INTERVALS: Record<Exclude<LeaderboardPeriod, "all">, string> = {
+  week: "7 days",
+  month: "30 days",
+};
+
+// Aggregates come back as strings from Postgres, so normalise them to numbers
+const toEntry = (r: any, rank: number): LeaderboardEntry => ({
+  rank,
+  id: r.id,
+  name: r.name,
+  tests_taken: Number(r.tests_taken),
+  total_score: Number(r.total_score),
+  possible_score: Number(r.possible_score),
+  avg_accuracy: Number(r.avg_accuracy),
+});
+
+export function createAttemptRepository(db: Db) {
+  return {
+    // Saves a graded attempt and marks its session submitted. Returns null when
+    // the session was already claimed by a concurrent submit.
+    async saveForSession(attempt: NewAttempt): Promise<number | null> {
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        const result = await client.query(
+          `INSERT INTO test_attempts (user_id, test_type, subject, score, total, marks, max_marks, scoring, sections, ability, duration)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING id`,
+          [
+            attempt.userId,
+            attempt.testType,
+            attempt.subject,
+            attempt.score,
+            attempt.total,
+            attempt.marks,
+            attempt.maxMarks,
+            JSON.stringify(attempt.scoring),
+            JSON.stringify(attempt.sections),
+            attempt.ability,
+            attempt.duration,
+          ]
+        );
+        const attemptId = result.rows[0].id;
+        for (const item of attempt.items) {
+          await client.query(
+            "INSERT INTO test_attempt_items (attempt_id, position, question_data, selected_option, correct_option, time_spent) VALUES ($1, $2, $3, $4, $5, $6)",
+            [attemptId, item.position, JSON.stringify(item.question), item.selected, item.question.correctAnswer, item.timeSpent]
+          );
+        }
+        const claimed = await client.query(
+          "UPDATE test_sessions SET attempt_id = $1 WHERE id = $2 AND attempt_id IS NULL",
+          [attemptId, attempt.sessionId]
+        );
+        if (claimed.rowCount === 0) {
+          await client.query("ROLLBACK");
+          return null;
+        }
+        await client.query("COMMIT");
+        return attemptId;
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    async findDetail(attemptId: number, userId: number): Promise<TestAttemptDetail | null> {
+      const attempt = await db.query(
+        "SELECT * FROM test_attempts WHERE id = $1 AND user_id = $2",
+        [attemptId, userId]
+      );
+      if (!attempt.rows[0]) return null;
+
+      const items = await db.query(
+        "SELECT * FROM test_attempt_items WHERE attempt_id = $1 ORDER BY position",
+        [attemptId]
+      );
+      const row = attempt.rows[0];
+      return {
+        ...row,
+        scoring: row.scoring ? JSON.parse(row.scoring) : null,
+        sections: row.sections ? JSON.parse(row.sections) : null,
+        ability: row.ability === null ? null : describeAbility(Number(row.ability)),
+        items: items.rows.map((i: any) => ({ ...i, question_data: JSON.parse(i.question_data) })),
+      };
+    },
+
+    async listForUser(userId: number): Promise<TestAttempt[]> {
+      const result = await db.query(
+        "SELECT id, test_type, subject, score, total, marks, max_marks, duration, date FROM test_attempts WHERE user_id = $1 ORDER BY date DESC",
+        [userId]
+      );
+      return result.rows;
+    },
+
+    // One page of the board plus the caller's own standing. Scores are marks
+    // under each test's scoring scheme. Ranks follow the board order (share of
+    // possible marks, then total marks, then earliest account), so no two
+    // users share a rank. Adaptive tests are left off: each candidate gets a
+    // paper pitched at their own level, so their marks do not compare.
+    async leaderboard(filters: LeaderboardFilters, userId: number): Promise<LeaderboardPage> {
+      const params: unknown[] = [filters.minAttempts];
+      // Attempts with no marks to win, such as old ones submitted empty, would
+      // divide by zero and add nothing to the ranking
+      const conditions = ["t.test_type <> 'Adaptive'", "t.max_marks > 0"];
+      if (filters.period !== "all") {
+        params.push(PERIOD_INTERVALS[filters.period]);
+        conditions.push(`t.date >= LOCALTIMESTAMP - CAST($${params.length} AS INTERVAL)`);
+      }
+      if (filters.testType) {
+        params.push(filters.testType);
+        conditions.push(`t.test_type = $${params.length}`);
+      }
+      if (filters.subject) {
+        params.push(filters.subject);
+        conditions.push(`t.subject = $${params.length}`);
+      }
+
+      // pg-mem has no HAVING, so the attempts threshold is applied outside
+      const board = `(
+        SELECT
+          u.id,
+          u.name,
+          COUNT(t.id) as tests_taken,
+          SUM(t.marks) as total_score,
+          SUM(t.max_marks) as possible_score,
+          ROUND(CAST(SUM(t.marks) AS NUMERIC) * 100 / SUM(t.max_marks), 1) as avg_accuracy
+        FROM users u
+        JOIN test_attempts t ON u.id = t.user_id
+        WHERE ${conditions.join(" AND ")}
+        GROUP BY u.id, u.name
+      ) board WHERE tests_taken >= $1`;
+      const next = params.length;
+
+      const offset = (filters.page - 1) * filters.pageSize;
+      const [rows, total, mine] = await Promise.all([
+        db.query(
+          `SELECT * FROM ${board} ORDER BY avg_accuracy DESC, total_score DESC, id LIMIT $${next + 1} OFFSET $${next + 2}`,
+          [...params, filters.pageSize, offset]
+        ),
+        db.query(`SELECT COUNT(*) AS total FROM ${board}`, params),
+        db.query(`SELECT * FROM ${board} AND id = $${next + 1}`, [...params, userId]),
+      ]);
+
+      let me: LeaderboardEntry | null = null;
+      if (mine.rows[0]) {
+        const own = toEntry(mine.rows[0], 0);
+        const ahead = await db.query(
+          `SELECT COUNT(*) AS ahead FROM ${board} AND (
+            avg_accuracy > $${next + 1}
+            OR (avg_accuracy = $${next + 1} AND total_score > $${next + 2})
+            OR (avg_accuracy = $${next + 1} AND total_score = $${next + 2} AND id < $${next + 3})
+          )`,
+          [...params, own.avg_accuracy, own.total_score, own.id]
+        );
+        me = { ...own, rank: Number(ahead.rows[0].ahead) + 1 };
+      }
+
+      return {
+        entries: rows.rows.map((r: any, i: number) => toEntry(r, offset + i + 1)),
+        total: Number(total.rows[0].total),
+        page: filters.page,
+        page_size: filters.pageSize,
+        me,
+      };
+    },
+  };
+}
+
+export type AttemptRepository = ReturnType<typeof createAttemptRepository>;
@@ -0,0 +1,86 @@
+import { Db } from "../db";
+import { ExamBlueprint, BlueprintSection, DifficultyMix, ScoringScheme } from "../../src/types";
+
+export interface BlueprintInput {
+  name: string;
+  duration_minutes: number;
+  difficulty_mix: DifficultyMix;
+  scoring: ScoringScheme;
+  sections: BlueprintSection[];
+}
+
+const toBlueprint = (row: any): ExamBlueprint => ({
+  id: row.id,
+  name: row.name,
+  duration_minutes: row.duration_minutes,
+  difficulty_mix: JSON.parse(row.difficulty_mix),
+  scoring: JSON.parse(row.scoring),
+  sections: JSON.parse(row.sections),
+  is_default: row.is_default,
+});
+
+export function createBlueprintRepository(db: Db) {
+  return {
+    async list(): Promise<ExamBlueprint[]> {
+      const result = await db.query("SELECT * FROM exam_blueprints ORDER BY id");
+      return result.rows.map(toBlueprint);
+    },
+
+    async find(id: number): Promise<ExamBlueprint | null> {
+      const result = await db.query("SELECT * FROM exam_blueprints WHERE id = $1", [id]);
+      return result.rows[0] ? toBlueprint(result.rows[0]) : null;
+    },
+
+    async findDefault(): Promise<ExamBlueprint | null> {
+      const result = await db.query("SELECT * FROM exam_blueprints WHERE is_default = TRUE ORDER BY id LIMIT 1");
+      return result.rows[0] ? toBlueprint(result.rows[0]) : null;
+    },
+
+    async create(input: BlueprintInput): Promise<ExamBlueprint> {
+      const result = await db.query(
+        "INSERT INTO exam_blueprints (name, duration_minutes, difficulty_mix, scoring, sections) VALUES ($1, $2, $3, $4, $5) RETURNING *",
+        [input.name, input.duration_minutes, JSON.stringify(input.difficulty_mix), JSON.stringify(input.scoring), JSON.stringify(input.sections)]
+      );
+      return toBlueprint(result.rows[0]);
+    },
+
+    async update(id: number, input: BlueprintInput): Promise<ExamBlueprint | null> {
+      const result = await db.query(
+        `UPDATE exam_blueprints SET name = $2, duration_minutes = $3, difficulty_mix = $4, scoring = $5, sections = $6, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [id, input.name, input.duration_minutes, JSON.stringify(input.difficulty_mix), JSON.stringify(input.scoring), JSON.stringify(input.sections)]
+      );
+      return result.rows[0] ? toBlueprint(result.rows[0]) : null;
+    },
+
+    // Makes one blueprint the default for new full mocks. Returns false when it does not exist.
+    async setDefault(id: number): Promise<boolean> {
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        const exists = await client.query("SELECT id FROM exam_blueprints WHERE id = $1", [id]);
+        if (!exists.rows[0]) {
+          await client.query("ROLLBACK");
+          return false;
+        }
+        await client.query("UPDATE exam_blueprints SET is_default = FALSE WHERE is_default = TRUE");
+        await client.query("UPDATE exam_blueprints SET is_default = TRUE WHERE id = $1", [id]);
+        await client.query("COMMIT");
+        return true;
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    // The default blueprint cannot be removed; returns whether a row was deleted
+    async remove(id: number): Promise<boolean> {
+      const result = await db.query("DELETE FROM exam_blueprints WHERE id = $1 AND is_default = FALSE", [id]);
+      return (result.rowCount ?? 0) > 0;
+    },
+  };
+}
+
+export type BlueprintRepository = ReturnType<typeof createBlueprintRepository>;
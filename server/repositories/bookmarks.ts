@@ -0,0 +1,23 @@
+import { Db } from "../db";
+
+export function createBookmarkRepository(db: Db) {
+  return {
+    async add(userId: number, question: unknown) {
+      await db.query(
+        "INSERT INTO bookmarks (user_id, question_data) VALUES ($1, $2)",
+        [userId, JSON.stringify(question)]
+      );
+    },
+
+    async listForUser(userId: number) {
+      const result = await db.query("SELECT * FROM bookmarks WHERE user_id = $1", [userId]);
+      return result.rows.map((b: any) => ({ ...b, question_data: JSON.parse(b.question_data) }));
+    },
+
+    async remove(id: number, userId: number) {
+      await db.query("DELETE FROM bookmarks WHERE id = $1 AND user_id = $2", [id, userId]);
+    },
+  };
+}
+
+export type BookmarkRepository = ReturnType<typeof createBookmarkRepository>;
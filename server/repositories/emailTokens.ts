@@ -0,0 +1,41 @@
+import { Db } from "../db";
+
+export type EmailTokenPurpose = "verify_email" | "reset_password";
+
+export interface EmailTokenRow {
+  id: number;
+  user_id: number;
+  purpose: EmailTokenPurpose;
+  expires_at: Date;
+  used_at: Date | null;
+}
+
+export function createEmailTokenRepository(db: Db) {
+  return {
+    async create(userId: number, purpose: EmailTokenPurpose, tokenHash: string, expiresAt: Date) {
+      await db.query(
+        "INSERT INTO email_tokens (user_id, purpose, token_hash, expires_at) VALUES ($1, $2, $3, $4)",
+        [userId, purpose, tokenHash, expiresAt]
+      );
+    },
+
+    // Marks the token used and returns it; null if unknown or already used
+    async consume(tokenHash: string, purpose: EmailTokenPurpose): Promise<EmailTokenRow | null> {
+      const result = await db.query(
+        "UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL RETURNING *",
+        [tokenHash, purpose]
+      );
+      return result.rows[0] ?? null;
+    },
+
+    // Only the most recently mailed link should work
+    async invalidate(userId: number, purpose: EmailTokenPurpose) {
+      await db.query(
+        "UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL",
+        [userId, purpose]
+      );
+    },
+  };
+}
+
+export type EmailTokenRepository = ReturnType<typeof createEmailTokenRepository>;
@@ -0,0 +1,32 @@
+import { Db } from "../db";
+import { createUserRepository } from "./users";
+import { createTestSessionRepository } from "./testSessions";
+import { createAttemptRepository } from "./attempts";
+import { createBookmarkRepository } from "./bookmarks";
+import { createStaticQuestionRepository } from "./staticQuestions";
+import { createAiUsageRepository } from "./aiUsage";
+import { createRefreshTokenRepository } from "./refreshTokens";
+import { createEmailTokenRepository } from "./emailTokens";
+import { createBlueprintRepository } from "./blueprints";
+import { createSyllabusRepository } from "./syllabus";
+import { createReviewRepository } from "./review";
+
+// All data access goes through these, so routes work the same against
+// Postgres and the in-memory driver
+export function createRepositories(db: Db) {
+  return {
+    users: createUserRepository(db),
+    testSessions: createTestSessionRepository(db),
+    attempts: createAttemptRepository(db),
+    bookmarks: createBookmarkRepository(db),
+    staticQuestions: createStaticQuestionRepository(db),
+    aiUsage: createAiUsageRepository(db),
+    refreshTokens: createRefreshTokenRepository(db),
+    emailTokens: createEmailTokenRepository(db),
+    blueprints: createBlueprintRepository(db),
+    syllabus: createSyllabusRepository(db),
+    review: createReviewRepository(db),
+  };
+}
+
+export type Repositories = ReturnType<typeof createRepositories>;
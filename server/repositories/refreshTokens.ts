@@ -0,0 +1,44 @@
+import { Db } from "../db";
+
+export interface RefreshTokenRow {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+export function createRefreshTokenRepository(db: Db) {
+  return {
+    async create(userId: number, tokenHash: string, expiresAt: Date) {
+      await db.query(
+        "INSERT INTO refresh_tokens (user_id, token_hash, expires_at) VALUES ($1, $2, $3)",
+        [userId, tokenHash, expiresAt]
+      );
+    },
+
+    async find(tokenHash: string): Promise<RefreshTokenRow | null> {
+      const result = await db.query("SELECT * FROM refresh_tokens WHERE token_hash = $1", [tokenHash]);
+      return result.rows[0] ?? null;
+    },
+
+    // Revokes a live token and returns it, so two concurrent refreshes cannot
+    // both rotate the same token. Returns null when it was already revoked.
+    async consume(tokenHash: string): Promise<RefreshTokenRow | null> {
+      const result = await db.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE token_hash = $1 AND revoked_at IS NULL RETURNING *",
+        [tokenHash]
+      );
+      return result.rows[0] ?? null;
+    },
+
+    async revokeAllForUser(userId: number) {
+      await db.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL",
+        [userId]
+      );
+    },
+  };
+}
+
+export type RefreshTokenRepository = ReturnType<typeof createRefreshTokenRepository>;
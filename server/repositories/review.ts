@@ -0,0 +1,78 @@
+import { Db } from "../db";
+import { Question, ReviewCard, ReviewSource } from "../../src/types";
+import { normalizeText } from "../questionValidation";
+import { ReviewSchedule } from "../review";
+
+const toCard = (row: any): ReviewCard => ({
+  id: row.id,
+  question: JSON.parse(row.question_data),
+  source: row.source,
+  ease_factor: Number(row.ease_factor),
+  interval_days: row.interval_days,
+  repetitions: row.repetitions,
+  lapses: row.lapses,
+  due_at: row.due_at,
+  last_reviewed_at: row.last_reviewed_at,
+});
+
+export function createReviewRepository(db: Db) {
+  return {
+    // Adds questions to a user's queue, due now. A question missed again goes
+    // back to the start of its schedule; a bookmark of a queued one is a no-op.
+    async enqueue(userId: number, questions: Question[], source: ReviewSource) {
+      for (const question of questions) {
+        const relearn = source === "missed"
+          ? `DO UPDATE SET repetitions = 0, interval_days = 0, due_at = LOCALTIMESTAMP,
+               lapses = review_cards.lapses + 1, question_data = EXCLUDED.question_data`
+          : "DO NOTHING";
+        await db.query(
+          `INSERT INTO review_cards (user_id, question_key, question_data, source) VALUES ($1, $2, $3, $4)
+           ON CONFLICT (user_id, question_key) ${relearn}`,
+          [userId, normalizeText(question.text), JSON.stringify(question), source]
+        );
+      }
+    },
+
+    // The most overdue card, with counts of due and queued cards
+    async next(userId: number): Promise<{ card: ReviewCard | null; due: number; total: number }> {
+      const [card, counts] = await Promise.all([
+        db.query(
+          "SELECT * FROM review_cards WHERE user_id = $1 AND due_at <= LOCALTIMESTAMP ORDER BY due_at, id LIMIT 1",
+          [userId]
+        ),
+        db.query(
+          `SELECT COUNT(*) AS total, SUM(CASE WHEN due_at <= LOCALTIMESTAMP THEN 1 ELSE 0 END) AS due
+           FROM review_cards WHERE user_id = $1`,
+          [userId]
+        ),
+      ]);
+      return {
+        card: card.rows[0] ? toCard(card.rows[0]) : null,
+        due: Number(counts.rows[0].due ?? 0),
+        total: Number(counts.rows[0].total),
+      };
+    },
+
+    async find(id: number, userId: number): Promise<ReviewCard | null> {
+      const result = await db.query("SELECT * FROM review_cards WHERE id = $1 AND user_id = $2", [id, userId]);
+      return result.rows[0] ? toCard(result.rows[0]) : null;
+    },
+
+    // Stores a new schedule; the card falls due interval_days from now
+    async reschedule(id: number, userId: number, schedule: ReviewSchedule): Promise<ReviewCard | null> {
+      const result = await db.query(
+        `UPDATE review_cards SET ease_factor = $3, interval_days = $4, repetitions = $5, lapses = $6,
+           due_at = LOCALTIMESTAMP + CAST($7 AS INTERVAL), last_reviewed_at = LOCALTIMESTAMP
+         WHERE id = $1 AND user_id = $2 RETURNING *`,
+        [id, userId, schedule.ease_factor, schedule.interval_days, schedule.repetitions, schedule.lapses, `${schedule.interval_days} days`]
+      );
+      return result.rows[0] ? toCard(result.rows[0]) : null;
+    },
+
+    async remove(id: number, userId: number) {
+      await db.query("DELETE FROM review_cards WHERE id = $1 AND user_id = $2", [id, userId]);
+    },
+  };
+}
+
+export type ReviewRepository = ReturnType<typeof createReviewRepository>;
@@ -0,0 +1,406 @@
+import pg from "pg";
+import { Db } from "../db";
+import { Question, BankQuestion, QuestionApproval, QuestionEdit, QuestionChange, QuestionRevision, MergeResult } from "../../src/types";
+import { createDuplicateIndex } from "../duplicates";
+import { normalizeText } from "../questionValidation";
+
+// The column is unquoted in the schema, so Postgres folds it to lower case
+const COLUMNS = `id, text, options, correctAnswer AS "correctAnswer", explanation, subject, topic, difficulty,
+  is_important, verification, verified_answer`;
+
+// Deleted questions stay in the table for restoring but are never drawn, and
+// only approved ones are served
+const LIVE = "deleted_at IS NULL";
+const SERVED = `${LIVE} AND approval = 'approved'`;
+const MANAGED_COLUMNS = `${COLUMNS}, approval, deleted_at, updated_at, similar_to, similarity, merged_into`;
+
+// Untagged questions have no topic key rather than a null one; is_important
+// is stored as 0 or 1
+const toQuestion = ({ topic, ...row }: any): Question => ({
+  ...row,
+  ...(topic ? { topic } : {}),
+  options: JSON.parse(row.options),
+  is_important: !!row.is_important,
+});
+
+const toBankQuestion = (row: any): BankQuestion => ({
+  ...toQuestion(row),
+  id: row.id,
+  approval: row.approval,
+  deleted_at: row.deleted_at ?? null,
+  updated_at: row.updated_at ?? null,
+  similar_to: row.similar_to ?? null,
+  similarity: row.similarity === null || row.similarity === undefined ? null : Number(row.similarity),
+  merged_into: row.merged_into ?? null,
+});
+
+const toRevision = (row: any): QuestionRevision => ({
+  id: row.id,
+  question_id: row.question_id,
+  action: row.action,
+  editor_id: row.editor_id,
+  editor_name: row.editor_name ?? null,
+  before: row.before_data ? JSON.parse(row.before_data) : null,
+  after: row.after_data ? JSON.parse(row.after_data) : null,
+  created_at: row.created_at,
+});
+
+const editableFields = (q: Omit<Question, "id">): QuestionEdit => ({
+  text: q.text,
+  options: q.options,
+  correctAnswer: q.correctAnswer,
+  explanation: q.explanation,
+  difficulty: q.difficulty,
+  is_important: !!q.is_important,
+});
+
+// Questions copied into bookmarks and test history keep the id they were
+// served with in their JSON; there is no column to match on
+const withId = (id: number) => `%"id":${id}%`;
+
+export interface BankQuestionFilters {
+  q?: string;
+  subject?: string;
+  difficulty?: string;
+  approval?: QuestionApproval;
+  status: "active" | "deleted" | "all";
+  page: number;
+  page_size: number;
+}
+
+export function createStaticQuestionRepository(db: Db) {
+  // Includes deleted questions
+  const find = async (id: number): Promise<BankQuestion | null> => {
+    const result = await db.query(`SELECT ${MANAGED_COLUMNS} FROM static_questions WHERE id = $1`, [id]);
+    return result.rows[0] ? toBankQuestion(result.rows[0]) : null;
+  };
+
+  // Every question that is, or may yet be, in the bank, for duplicate checks
+  const candidates = async (client: Db | pg.PoolClient = db): Promise<(Omit<Question, "id"> & { id: number })[]> => {
+    const result = await client.query(`SELECT ${COLUMNS} FROM static_questions WHERE ${LIVE} AND approval <> 'rejected'`);
+    return result.rows.map((row: any) => ({ ...toQuestion(row), id: row.id }));
+  };
+
+  return {
+    async randomImportant(limit: number) {
+      const result = await db.query(
+        `SELECT ${COLUMNS} FROM static_questions WHERE is_important = 1 AND verification <> 'needs_review' AND ${SERVED} ORDER BY RANDOM() LIMIT $1`,
+        [limit]
+      );
+      return result.rows.map(toQuestion);
+    },
+
+    async randomBySubject(subject: string, limit: number, topic?: string) {
+      const result = await db.query(
+        `SELECT ${COLUMNS} FROM static_questions
+         WHERE subject = $1 AND ($3::text IS NULL OR topic = $3) AND verification <> 'needs_review' AND ${SERVED}
+         ORDER BY RANDOM() LIMIT $2`,
+        [subject, limit, topic ?? null]
+      );
+      return result.rows.map(toQuestion);
+    },
+
+    // Questions for a paper assembled from the bank, or the next question of an
+    // adaptive test. A null difficulty takes any; topics narrows to those topics.
+    async randomByLevel(subject: string, difficulty: Question["difficulty"] | null, limit: number, topics: string[] = []) {
+      const params: unknown[] = [subject, limit, difficulty];
+      const topicFilter = topics.length
+        ? `AND topic IN (${topics.map(t => `$${params.push(t)}`).join(", ")})`
+        : "";
+      const result = await db.query(
+        `SELECT ${COLUMNS} FROM static_questions
+         WHERE subject = $1 AND ($3::text IS NULL OR difficulty = $3) ${topicFilter} AND verification <> 'needs_review' AND ${SERVED}
+         ORDER BY RANDOM() LIMIT $2`,
+        params
+      );
+      return result.rows.map(toQuestion);
+    },
+
+    candidates: () => candidates(),
+
+    // Returns the new ids in order. Each question is scored against the bank
+    // and the questions added before it, and its closest near-duplicate kept.
+    async insertMany(questions: Question[], approval: QuestionApproval = "approved"): Promise<number[]> {
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        const index = createDuplicateIndex(await candidates(client));
+        const ids: number[] = [];
+        for (const q of questions) {
+          const similar = index.closest(q);
+          const result = await client.query(
+            `INSERT INTO static_questions (text, options, correctAnswer, explanation, subject, topic, difficulty, is_important, verification, verified_answer, approval, similar_to, similarity)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING id`,
+            [q.text, JSON.stringify(q.options), q.correctAnswer, q.explanation, q.subject, q.topic ?? null, q.difficulty, q.is_important ? 1 : 0,
+              q.verification || "unverified", q.verified_answer ?? null, approval, similar?.id ?? null, similar?.similarity ?? null]
+          );
+          ids.push(result.rows[0].id);
+          index.add({ ...q, id: result.rows[0].id });
+        }
+        await client.query("COMMIT");
+        return ids;
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    // The approved bank in subject and topic order, for export
+    async list(filters: { subject?: string; difficulty?: string } = {}): Promise<Question[]> {
+      const result = await db.query(
+        `SELECT ${COLUMNS} FROM static_questions
+         WHERE ($1::text IS NULL OR subject = $1) AND ($2::text IS NULL OR difficulty = $2) AND ${SERVED}
+         ORDER BY subject, topic, id`,
+        [filters.subject ?? null, filters.difficulty ?? null]
+      );
+      return result.rows.map(toQuestion);
+    },
+
+    async countBySubject(): Promise<{ subject: string; count: number }[]> {
+      const result = await db.query(`SELECT subject, COUNT(*) as count FROM static_questions WHERE ${SERVED} GROUP BY subject`);
+      return result.rows.map((r: any) => ({ subject: r.subject, count: Number(r.count) }));
+    },
+
+    // A page of the pool for the admin question list, newest first
+    async search(filters: BankQuestionFilters): Promise<{ questions: BankQuestion[]; total: number }> {
+      const status = { active: `AND ${LIVE}`, deleted: "AND deleted_at IS NOT NULL", all: "" }[filters.status];
+      const where = `WHERE ($1::text IS NULL OR LOWER(text) LIKE $1) AND ($2::text IS NULL OR subject = $2)
+        AND ($3::text IS NULL OR difficulty = $3) AND ($4::text IS NULL OR approval = $4) ${status}`;
+      const params = [filters.q ? `%${filters.q.toLowerCase()}%` : null, filters.subject ?? null, filters.difficulty ?? null, filters.approval ?? null];
+      const [rows, count] = await Promise.all([
+        db.query(
+          `SELECT ${MANAGED_COLUMNS} FROM static_questions ${where} ORDER BY id DESC LIMIT $5 OFFSET $6`,
+          [...params, filters.page_size, (filters.page - 1) * filters.page_size]
+        ),
+        db.query(`SELECT COUNT(*) AS total FROM static_questions ${where}`, params),
+      ]);
+      return { questions: rows.rows.map(toBankQuestion), total: Number(count.rows[0].total) };
+    },
+
+    find,
+
+    // Saves an edit (or a revert to earlier fields) with a revision recording
+    // the change. An answer check no longer holds once the question or its
+    // options change, so it is reset. Returns null for a missing question.
+    async update(id: number, edit: QuestionEdit, editorId: number, action: "edit" | "revert" = "edit"): Promise<BankQuestion | null> {
+      const current = await find(id);
+      if (!current) return null;
+      const before = editableFields(current);
+      const after = editableFields({ ...current, ...edit });
+      if (JSON.stringify(before) === JSON.stringify(after)) return current;
+
+      const recheck = before.text !== after.text || JSON.stringify(before.options) !== JSON.stringify(after.options)
+        || before.correctAnswer !== after.correctAnswer;
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        await client.query(
+          `UPDATE static_questions SET text = $2, options = $3, correctAnswer = $4, explanation = $5, difficulty = $6, is_important = $7,
+             verification = $8, verified_answer = $9, updated_at = LOCALTIMESTAMP
+           WHERE id = $1`,
+          [id, after.text, JSON.stringify(after.options), after.correctAnswer, after.explanation, after.difficulty, after.is_important ? 1 : 0,
+            recheck ? "unverified" : current.verification, recheck ? null : current.verified_answer ?? null]
+        );
+        await client.query(
+          "INSERT INTO static_question_revisions (question_id, editor_id, action, before_data, after_data) VALUES ($1, $2, $3, $4, $5)",
+          [id, editorId, action, JSON.stringify(before), JSON.stringify(after)]
+        );
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+      return find(id);
+    },
+
+    // Soft-deletes or restores a question. Returns false when it is missing or
+    // already in that state.
+    async setDeleted(id: number, deleted: boolean, editorId: number): Promise<boolean> {
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        const result = await client.query(
+          `UPDATE static_questions SET deleted_at = ${deleted ? "LOCALTIMESTAMP" : "NULL"}, updated_at = LOCALTIMESTAMP
+           WHERE id = $1 AND deleted_at IS ${deleted ? "NULL" : "NOT NULL"}`,
+          [id]
+        );
+        if (result.rowCount === 0) {
+          await client.query("ROLLBACK");
+          return false;
+        }
+        const action: QuestionChange = deleted ? "delete" : "restore";
+        await client.query(
+          "INSERT INTO static_question_revisions (question_id, editor_id, action) VALUES ($1, $2, $3)",
+          [id, editorId, action]
+        );
+        await client.query("COMMIT");
+        return true;
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    // Approves or rejects questions, recording a revision for each one that
+    // changed. Approving a question whose answer key the check flagged is the
+    // admin's ruling on the key, so it is marked verified and served; an
+    // approved question still flagged can be approved again to clear it.
+    // Deleted questions are left alone. Returns how many changed.
+    async setApproval(ids: number[], approval: Exclude<QuestionApproval, "pending">, editorId: number): Promise<number> {
+      const action: QuestionChange = approval === "approved" ? "approve" : "reject";
+      const update = approval === "approved"
+        ? `approval = $2,
+           verification = CASE WHEN verification = 'needs_review' THEN 'verified' ELSE verification END,
+           verified_answer = CASE WHEN verification = 'needs_review' THEN correctAnswer ELSE verified_answer END
+           WHERE id = $1 AND (approval <> $2 OR verification = 'needs_review')`
+        : "approval = $2 WHERE id = $1 AND approval <> $2";
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        let changed = 0;
+        for (const id of ids) {
+          const result = await client.query(
+            `UPDATE static_questions SET updated_at = LOCALTIMESTAMP, ${update} AND ${LIVE}`,
+            [id, approval]
+          );
+          if (result.rowCount === 0) continue;
+          await client.query(
+            "INSERT INTO static_question_revisions (question_id, editor_id, action) VALUES ($1, $2, $3)",
+            [id, editorId, action]
+          );
+          changed++;
+        }
+        await client.query("COMMIT");
+        return changed;
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    // Live questions of the bank for the duplicate report, optionally of one
+    // subject. Rejected ones are left out, as they are never served.
+    async live(subject?: string): Promise<BankQuestion[]> {
+      const result = await db.query(
+        `SELECT ${MANAGED_COLUMNS} FROM static_questions WHERE ($1::text IS NULL OR subject = $1) AND ${LIVE} AND approval <> 'rejected' ORDER BY id`,
+        [subject ?? null]
+      );
+      return result.rows.map(toBankQuestion);
+    },
+
+    // Merges duplicates into a surviving question. Each duplicate is deleted
+    // with merged_into set, and its copies in bookmarks, unfinished tests and
+    // attempt history are pointed at the survivor. Bookmarks and review cards
+    // take the survivor's wording, and one repeating a bookmark or card of the
+    // survivor is dropped; tests keep the wording they were taken with. Duplicates that
+    // are already deleted are skipped.
+    async merge(survivorId: number, ids: number[], editorId: number): Promise<MergeResult> {
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        const survivorRow = await client.query(`SELECT ${COLUMNS} FROM static_questions WHERE id = $1`, [survivorId]);
+        const survivor = toQuestion(survivorRow.rows[0]);
+        const survivorKey = normalizeText(survivor.text);
+        const merged: MergeResult = { merged: 0, bookmarks: 0, reviews: 0, attempts: 0 };
+
+        // Rows of a table holding a copy of the question. The LIKE match on
+        // "id":1 also finds "id":12, so the JSON is checked as well.
+        const copiesOf = async (table: string, id: number) => {
+          const result = await client.query(`SELECT * FROM ${table} WHERE question_data LIKE $1`, [withId(id)]);
+          return result.rows
+            .map((row: any) => ({ ...row, question: JSON.parse(row.question_data) }))
+            .filter((row: any) => row.question.id === id);
+        };
+
+        for (const id of ids) {
+          const result = await client.query(
+            `UPDATE static_questions SET deleted_at = LOCALTIMESTAMP, updated_at = LOCALTIMESTAMP, merged_into = $2 WHERE id = $1 AND ${LIVE}`,
+            [id, survivorId]
+          );
+          if (result.rowCount === 0) continue;
+          const action: QuestionChange = "merge";
+          await client.query(
+            "INSERT INTO static_question_revisions (question_id, editor_id, action) VALUES ($1, $2, $3)",
+            [id, editorId, action]
+          );
+          merged.merged++;
+
+          const kept = new Set((await copiesOf("bookmarks", survivorId)).map((row: any) => row.user_id));
+          for (const bookmark of await copiesOf("bookmarks", id)) {
+            if (kept.has(bookmark.user_id)) {
+              await client.query("DELETE FROM bookmarks WHERE id = $1", [bookmark.id]);
+            } else {
+              await client.query("UPDATE bookmarks SET question_data = $2 WHERE id = $1", [bookmark.id, JSON.stringify(survivor)]);
+              kept.add(bookmark.user_id);
+            }
+            merged.bookmarks++;
+          }
+
+          // Review cards are keyed by text, so a moved card is re-keyed and
+          // keeps its schedule
+          const queued = await client.query("SELECT user_id FROM review_cards WHERE question_key = $1", [survivorKey]);
+          const queuedFor = new Set(queued.rows.map((row: any) => row.user_id));
+          for (const card of await copiesOf("review_cards", id)) {
+            if (queuedFor.has(card.user_id)) {
+              await client.query("DELETE FROM review_cards WHERE id = $1", [card.id]);
+            } else {
+              await client.query(
+                "UPDATE review_cards SET question_key = $2, question_data = $3 WHERE id = $1",
+                [card.id, survivorKey, JSON.stringify(survivor)]
+              );
+              queuedFor.add(card.user_id);
+            }
+            merged.reviews++;
+          }
+
+          for (const table of ["test_session_questions", "test_attempt_items"]) {
+            for (const copy of await copiesOf(table, id)) {
+              await client.query(
+                `UPDATE ${table} SET question_data = $2 WHERE id = $1`,
+                [copy.id, JSON.stringify({ ...copy.question, id: survivorId })]
+              );
+              if (table === "test_attempt_items") merged.attempts++;
+            }
+          }
+        }
+
+        await client.query("COMMIT");
+        return merged;
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    // Newest change first
+    async history(id: number): Promise<QuestionRevision[]> {
+      const result = await db.query(
+        `SELECT r.*, u.name AS editor_name FROM static_question_revisions r
+         LEFT JOIN users u ON u.id = r.editor_id
+         WHERE r.question_id = $1 ORDER BY r.id DESC`,
+        [id]
+      );
+      return result.rows.map(toRevision);
+    },
+
+    async findRevision(questionId: number, revisionId: number): Promise<QuestionRevision | null> {
+      const result = await db.query(
+        "SELECT * FROM static_question_revisions WHERE id = $1 AND question_id = $2",
+        [revisionId, questionId]
+      );
+      return result.rows[0] ? toRevision(result.rows[0]) : null;
+    },
+  };
+}
+
+export type StaticQuestionRepository = ReturnType<typeof createStaticQuestionRepository>;
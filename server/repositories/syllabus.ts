@@ -0,0 +1,39 @@
+import { Db } from "../db";
+import { Subject, SubjectSyllabus } from "../../src/types";
+
+// Topic names by subject, in syllabus order
+export type TopicIndex = Record<string, string[]>;
+
+export function createSyllabusRepository(db: Db) {
+  const rows = async () =>
+    (await db.query("SELECT subject, unit, name FROM syllabus_topics ORDER BY subject, sort_order")).rows as
+      { subject: Subject; unit: string; name: string }[];
+
+  return {
+    async list(): Promise<SubjectSyllabus[]> {
+      const syllabus: SubjectSyllabus[] = [];
+      for (const row of await rows()) {
+        let subject = syllabus.at(-1);
+        if (subject?.subject !== row.subject) {
+          subject = { subject: row.subject, units: [] };
+          syllabus.push(subject);
+        }
+        let unit = subject.units.at(-1);
+        if (unit?.name !== row.unit) {
+          unit = { name: row.unit, topics: [] };
+          subject.units.push(unit);
+        }
+        unit.topics.push(row.name);
+      }
+      return syllabus;
+    },
+
+    async topicIndex(): Promise<TopicIndex> {
+      const index: TopicIndex = {};
+      for (const row of await rows()) (index[row.subject] ??= []).push(row.name);
+      return index;
+    },
+  };
+}
+
+export type SyllabusRepository = ReturnType<typeof createSyllabusRepository>;
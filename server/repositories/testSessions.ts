@@ -0,0 +1,187 @@
+import { Db } from "../db";
+import { Question, Subject, TestSection, TestType, DifficultyMix, ScoringScheme } from "../../src/types";
+
+export interface TestSessionRow {
+  id: number;
+  user_id: number;
+  test_type: TestType;
+  subject: Subject | null;
+  attempt_id: number | null;
+  started_at: Date;
+  total_questions: number | null;
+  time_limit_seconds: number | null;
+  blueprint_id: number | null;
+  // Null for sessions started before papers were laid out in sections
+  sections: TestSection[] | null;
+  difficulty_mix: DifficultyMix | null;
+  // Null for sessions started before scoring schemes, graded one mark per correct answer
+  scoring: ScoringScheme | null;
+  deadline: Date | null;
+  elapsed_seconds: number;
+  // Null until the clock starts with the first issued questions; negative
+  // once the deadline has passed
+  remaining_seconds: number | null;
+}
+
+export interface NewTestSession {
+  userId: number;
+  testType: TestType;
+  subject: Subject | null;
+  blueprintId: number | null;
+  sections: TestSection[];
+  difficultyMix: DifficultyMix | null;
+  scoring: ScoringScheme;
+  timeLimitSeconds: number;
+}
+
+export interface IssuedQuestionRow {
+  position: number;
+  question: Question;
+}
+
+export interface SavedAnswerRow {
+  position: number;
+  selected_option: number | null;
+  time_spent: number;
+}
+
+// started_at and deadline are local TIMESTAMPs, so measure against LOCALTIMESTAMP
+const SESSION_COLUMNS = `*,
+  EXTRACT(EPOCH FROM LOCALTIMESTAMP) - EXTRACT(EPOCH FROM started_at) AS elapsed_seconds,
+  EXTRACT(EPOCH FROM deadline) - EXTRACT(EPOCH FROM LOCALTIMESTAMP) AS remaining_seconds`;
+
+const toSession = (row: any): TestSessionRow => ({
+  ...row,
+  sections: row.sections ? JSON.parse(row.sections) : null,
+  difficulty_mix: row.difficulty_mix ? JSON.parse(row.difficulty_mix) : null,
+  scoring: row.scoring ? JSON.parse(row.scoring) : null,
+  elapsed_seconds: Number(row.elapsed_seconds),
+  remaining_seconds: row.remaining_seconds === null ? null : Math.floor(Number(row.remaining_seconds)),
+});
+
+export function createTestSessionRepository(db: Db) {
+  return {
+    async create(session: NewTestSession): Promise<number> {
+      const totalQuestions = session.sections.reduce((sum, s) => sum + s.questions, 0);
+      const result = await db.query(
+        `INSERT INTO test_sessions (user_id, test_type, subject, total_questions, time_limit_seconds, blueprint_id, sections, difficulty_mix, scoring)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING id`,
+        [
+          session.userId,
+          session.testType,
+          session.subject,
+          totalQuestions,
+          session.timeLimitSeconds,
+          session.blueprintId,
+          JSON.stringify(session.sections),
+          session.difficultyMix ? JSON.stringify(session.difficultyMix) : null,
+          JSON.stringify(session.scoring),
+        ]
+      );
+      return result.rows[0].id;
+    },
+
+    async find(id: number, userId: number): Promise<TestSessionRow | null> {
+      const result = await db.query(
+        `SELECT ${SESSION_COLUMNS} FROM test_sessions WHERE id = $1 AND user_id = $2`,
+        [id, userId]
+      );
+      return result.rows[0] ? toSession(result.rows[0]) : null;
+    },
+
+    // The user's most recent unsubmitted test that still has time left
+    async findActive(userId: number): Promise<TestSessionRow | null> {
+      const result = await db.query(
+        `SELECT ${SESSION_COLUMNS} FROM test_sessions
+         WHERE user_id = $1 AND attempt_id IS NULL AND deadline > LOCALTIMESTAMP
+         ORDER BY id DESC LIMIT 1`,
+        [userId]
+      );
+      return result.rows[0] ? toSession(result.rows[0]) : null;
+    },
+
+    async listQuestions(sessionId: number): Promise<IssuedQuestionRow[]> {
+      const result = await db.query(
+        "SELECT position, question_data FROM test_session_questions WHERE session_id = $1 ORDER BY position",
+        [sessionId]
+      );
+      return result.rows.map((r: any) => ({ position: r.position, question: JSON.parse(r.question_data) }));
+    },
+
+    // Looks a question up through the owning session so users only see their own
+    async findQuestion(sessionId: number, position: number, userId: number): Promise<Question | null> {
+      const result = await db.query(
+        `SELECT q.question_data FROM test_session_questions q
+         JOIN test_sessions s ON s.id = q.session_id
+         WHERE q.session_id = $1 AND q.position = $2 AND s.user_id = $3`,
+        [sessionId, position, userId]
+      );
+      return result.rows[0] ? JSON.parse(result.rows[0].question_data) : null;
+    },
+
+    // Marks an issued question to be bookmarked once the test is submitted.
+    // False when the session has no question at that position.
+    async markBookmarked(sessionId: number, position: number): Promise<boolean> {
+      const result = await db.query(
+        "UPDATE test_session_questions SET bookmarked = TRUE WHERE session_id = $1 AND position = $2",
+        [sessionId, position]
+      );
+      return (result.rowCount ?? 0) > 0;
+    },
+
+    async listBookmarked(sessionId: number): Promise<Question[]> {
+      const result = await db.query(
+        "SELECT question_data FROM test_session_questions WHERE session_id = $1 AND bookmarked ORDER BY position",
+        [sessionId]
+      );
+      return result.rows.map((r: any) => JSON.parse(r.question_data));
+    },
+
+    // All or nothing; a position issued twice raises a unique violation (23505).
+    // The first questions issued start the session's clock.
+    async issueQuestions(sessionId: number, start: number, questions: Question[]) {
+      const client = await db.connect();
+      try {
+        await client.query("BEGIN");
+        const session = await client.query("SELECT time_limit_seconds FROM test_sessions WHERE id = $1", [sessionId]);
+        const limit = session.rows[0]?.time_limit_seconds;
+        if (limit) {
+          await client.query(
+            "UPDATE test_sessions SET deadline = LOCALTIMESTAMP + CAST($2 AS INTERVAL) WHERE id = $1 AND deadline IS NULL",
+            [sessionId, `${limit} seconds`]
+          );
+        }
+        for (const [i, q] of questions.entries()) {
+          await client.query(
+            "INSERT INTO test_session_questions (session_id, position, question_data) VALUES ($1, $2, $3)",
+            [sessionId, start + i, JSON.stringify(q)]
+          );
+        }
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    async saveAnswer(sessionId: number, position: number, selectedOption: number | null, timeSpent: number) {
+      await db.query(
+        `INSERT INTO test_session_answers (session_id, position, selected_option, time_spent) VALUES ($1, $2, $3, $4)
+         ON CONFLICT (session_id, position) DO UPDATE SET selected_option = EXCLUDED.selected_option, time_spent = EXCLUDED.time_spent`,
+        [sessionId, position, selectedOption, timeSpent]
+      );
+    },
+
+    async listAnswers(sessionId: number): Promise<SavedAnswerRow[]> {
+      const result = await db.query(
+        "SELECT position, selected_option, time_spent FROM test_session_answers WHERE session_id = $1 ORDER BY position",
+        [sessionId]
+      );
+      return result.rows;
+    },
+  };
+}
+
+export type TestSessionRepository = ReturnType<typeof createTestSessionRepository>;
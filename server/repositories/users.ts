@@ -0,0 +1,55 @@
+import { Db } from "../db";
+import { Role } from "../../src/types";
+
+export interface UserRow {
+  id: number;
+  name: string;
+  email: string;
+  password: string;
+  role: Role;
+  email_verified_at: Date | null;
+}
+
+export function createUserRepository(db: Db) {
+  return {
+    // Throws the driver's unique violation (code 23505) for a taken email
+    async create(name: string, email: string, passwordHash: string): Promise<{ id: number; role: Role }> {
+      const result = await db.query(
+        "INSERT INTO users (name, email, password) VALUES ($1, $2, $3) RETURNING id, role",
+        [name, email, passwordHash]
+      );
+      return result.rows[0];
+    },
+
+    async findByEmail(email: string): Promise<UserRow | null> {
+      const result = await db.query("SELECT * FROM users WHERE email = $1", [email]);
+      return result.rows[0] ?? null;
+    },
+
+    async findById(id: number): Promise<UserRow | null> {
+      const result = await db.query("SELECT * FROM users WHERE id = $1", [id]);
+      return result.rows[0] ?? null;
+    },
+
+    async setPassword(id: number, passwordHash: string) {
+      await db.query("UPDATE users SET password = $2 WHERE id = $1", [id, passwordHash]);
+    },
+
+    async markEmailVerified(id: number) {
+      await db.query(
+        "UPDATE users SET email_verified_at = CURRENT_TIMESTAMP WHERE id = $1 AND email_verified_at IS NULL",
+        [id]
+      );
+    },
+
+    async setRole(email: string, role: Role): Promise<{ id: number; name: string } | null> {
+      const result = await db.query(
+        "UPDATE users SET role = $2 WHERE email = $1 RETURNING id, name",
+        [email, role]
+      );
+      return result.rows[0] ?? null;
+    },
+  };
+}
+
+export type UserRepository = ReturnType<typeof createUserRepository>;
@@ -0,0 +1,26 @@
+// SM-2 scheduling. Grades run from 0 (blackout) to 5 (perfect recall); below 3
+// the card is relearned from the start.
+
+export interface ReviewSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export const MIN_EASE = 1.3;
+
+export function scheduleReview(card: ReviewSchedule, grade: number): ReviewSchedule {
+  const ease = Math.max(MIN_EASE, card.ease_factor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+  const rounded = Math.round(ease * 100) / 100;
+
+  if (grade < 3) {
+    return { ease_factor: rounded, interval_days: 1, repetitions: 0, lapses: card.lapses + 1 };
+  }
+
+  const interval =
+    card.repetitions === 0 ? 1 :
+    card.repetitions === 1 ? 6 :
+    Math.round(card.interval_days * card.ease_factor);
+  return { ease_factor: rounded, interval_days: interval, repetitions: card.repetitions + 1, lapses: card.lapses };
+}
@@ -0,0 +1,65 @@
+import { Question, ScoringScheme, SectionResult, TestSection } from "../src/types";
+import { sectionAt } from "./paper";
+
+export interface GradedPaper {
+  correct: number;
+  marks: number;
+  max_marks: number;
+  sections: SectionResult[];
+}
+
+// Marks are kept to two decimals, so penalties like 1/3 stay readable
+const round = (marks: number) => Math.round(marks * 100) / 100;
+
+// Grades a paper under a scoring scheme. Each question's marks are multiplied
+// by its section's weight. Positions never issued count as unattempted, so a
+// paper submitted early is marked out of its full length; with issuedOnly,
+// for tests that may end early, they are left out of the marks and maximum.
+export function gradePaper(
+  sections: TestSection[],
+  scoring: ScoringScheme,
+  questions: Map<number, Question>,
+  answers: Record<string, number>,
+  issuedOnly = false
+): GradedPaper {
+  const results = sections.map((section): SectionResult => ({
+    name: section.name,
+    weight: section.weight ?? 1,
+    correct: 0,
+    wrong: 0,
+    unattempted: 0,
+    marks: 0,
+    max_marks: 0,
+  }));
+
+  const positions = issuedOnly
+    ? [...questions.keys()]
+    : sections.flatMap(section => Array.from({ length: section.questions }, (_, i) => section.start + i));
+  for (const position of positions) {
+    const section = sectionAt(sections, position);
+    if (!section) continue;
+    const result = results[sections.indexOf(section)];
+    const question = questions.get(position);
+    const selected = question ? answers[position] : undefined;
+
+    if (selected === undefined) {
+      result.unattempted++;
+      result.marks += scoring.unattempted * result.weight;
+    } else if (selected === question?.correctAnswer) {
+      result.correct++;
+      result.marks += scoring.correct * result.weight;
+    } else {
+      result.wrong++;
+      result.marks -= scoring.wrong * result.weight;
+    }
+    result.max_marks += scoring.correct * result.weight;
+  }
+
+  const graded = results.map(r => ({ ...r, marks: round(r.marks), max_marks: round(r.max_marks) }));
+  return {
+    correct: graded.reduce((sum, r) => sum + r.correct, 0),
+    marks: round(graded.reduce((sum, r) => sum + r.marks, 0)),
+    max_marks: round(graded.reduce((sum, r) => sum + r.max_marks, 0)),
+    sections: graded,
+  };
+}
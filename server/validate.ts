@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { ApiErrorBody, ValidationIssue } from "../src/types";
+
+export const toValidationIssues = (error: z.ZodError): ValidationIssue[] =>
+  error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+
+const validate = (source: "body" | "query", schema: z.ZodType) => (req: any, res: any, next: any) => {
+  const result = schema.safeParse(req[source] ?? {});
+  if (!result.success) {
+    const issues = toValidationIssues(result.error);
+    const body: ApiErrorBody = { error: issues[0]?.message || "Invalid request", issues };
+    return res.status(400).json(body);
+  }
+  req[source] = result.data;
+  next();
+};
+
+// Validation Middleware: replaces req.body with the parsed (trimmed, defaulted)
+// value, or answers 400 listing every failing field
+export const validateBody = (schema: z.ZodType) => validate("body", schema);
+
+// Same for query string parameters, which the schema must coerce from strings
+export const validateQuery = (schema: z.ZodType) => validate("query", schema);
@@ -0,0 +1,34 @@
+import { Question } from "../src/types";
+import { getQuestionProvider } from "./llm";
+
+const SOLVE_BATCH_SIZE = 10;
+
+export const verificationEnabledByDefault = () => process.env.AI_VERIFY_ANSWERS === "true";
+
+// Second pass over generated questions: the provider solves each one without
+// seeing its key, and any disagreement is flagged for human review
+export async function verifyAnswerKeys(questions: Question[]): Promise<Question[]> {
+  const checked: Question[] = [];
+
+  for (let i = 0; i < questions.length; i += SOLVE_BATCH_SIZE) {
+    const batch = questions.slice(i, i + SOLVE_BATCH_SIZE);
+    let answers: (number | null)[];
+    try {
+      answers = await getQuestionProvider().solve(batch.map(({ text, options }) => ({ text, options })));
+    } catch (error) {
+      console.error("Answer key verification failed:", error);
+      answers = batch.map(() => null);
+    }
+
+    batch.forEach((q, j) => {
+      const answer = answers[j];
+      checked.push({
+        ...q,
+        verification: answer === null ? 'unverified' : answer === q.correctAnswer ? 'verified' : 'needs_review',
+        verified_answer: answer,
+      });
+    });
+  }
+
+  return checked;
+}
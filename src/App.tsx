@@ -1,20 +1,27 @@
 import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AnimatePresence } from 'motion/react';
-import { User } from './types';
+import { User, AuthSession } from './types';
+import { api, saveSession, SESSION_EXPIRED_EVENT } from './services/api';
 import Navbar from './components/Navbar';
 import Dashboard from './components/Dashboard';
 import TestEnvironment from './components/TestEnvironment';
 import AnalyticsView from './components/AnalyticsView';
 import LandingPage from './components/LandingPage';
 import BookmarksPage from './components/BookmarksPage';
+import ReviewPage from './components/ReviewPage';
 import QuestionBankGenerator from './components/QuestionBankGenerator';
-import AuthModal from './components/AuthModal';
+import BlueprintEditor from './components/BlueprintEditor';
+import QuestionFiles from './components/QuestionFiles';
+import QuestionManager from './components/QuestionManager';
+import DuplicateQuestions from './components/DuplicateQuestions';
+import AuthModal, { AuthMode } from './components/AuthModal';
 
 export default function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [authLink, setAuthLink] = useState<{ mode: AuthMode; token: string } | null>(null);
 
   useEffect(() => {
     const savedUser = localStorage.getItem('user');
@@ -23,18 +30,45 @@ export default function App() {
       setUser(JSON.parse(savedUser));
     }
     setLoading(false);
+
+    // Emailed reset and verification links land here with a token in the query
+    const params = new URLSearchParams(window.location.search);
+    const resetToken = params.get('reset_token');
+    const verifyToken = params.get('verify_token');
+    if (resetToken || verifyToken) {
+      setAuthLink(resetToken ? { mode: 'reset', token: resetToken } : { mode: 'verify', token: verifyToken! });
+      setIsAuthModalOpen(true);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    // api.ts signs the user out once their refresh token is rejected
+    const handleExpired = () => setUser(null);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
   }, []);
 
-  const handleLogin = (userData: User, token: string) => {
-    setUser(userData);
-    localStorage.setItem('user', JSON.stringify(userData));
-    localStorage.setItem('token', token);
+  const handleLogin = (session: AuthSession) => {
+    setUser(session.user);
+    saveSession(session);
+  };
+
+  const handleEmailVerified = () => {
+    setUser(prev => {
+      if (!prev) return prev;
+      const updated = { ...prev, email_verified: true };
+      localStorage.setItem('user', JSON.stringify(updated));
+      return updated;
+    });
+  };
+
+  const openAuth = () => {
+    setAuthLink(null);
+    setIsAuthModalOpen(true);
   };
 
   const handleLogout = () => {
     setUser(null);
-    localStorage.removeItem('user');
-    localStorage.removeItem('token');
+    api.auth.logout();
   };
 
   if (loading) return (
@@ -60,16 +94,21 @@ export default function App() {
           user={user} 
           onLogout={handleLogout} 
           onLogin={handleLogin} 
-          onOpenAuth={() => setIsAuthModalOpen(true)} 
+          onOpenAuth={openAuth} 
         />
         <main className="max-w-7xl mx-auto px-4 py-12 sm:px-6 lg:px-8">
           <Routes>
-            <Route path="/" element={user ? <Navigate to="/dashboard" /> : <LandingPage onLogin={handleLogin} onOpenAuth={() => setIsAuthModalOpen(true)} />} />
+            <Route path="/" element={user ? <Navigate to="/dashboard" /> : <LandingPage onLogin={handleLogin} onOpenAuth={openAuth} />} />
             <Route path="/dashboard" element={user ? <Dashboard user={user} /> : <Navigate to="/" />} />
             <Route path="/test/:type/:subject?" element={user ? <TestEnvironment /> : <Navigate to="/" />} />
             <Route path="/analytics" element={user ? <AnalyticsView /> : <Navigate to="/" />} />
             <Route path="/bookmarks" element={user ? <BookmarksPage /> : <Navigate to="/" />} />
-            <Route path="/admin/generator" element={user ? <QuestionBankGenerator /> : <Navigate to="/" />} />
+            <Route path="/review" element={user ? <ReviewPage /> : <Navigate to="/" />} />
+            <Route path="/admin/generator" element={user?.role === 'admin' ? <QuestionBankGenerator /> : <Navigate to="/" />} />
+            <Route path="/admin/blueprints" element={user?.role === 'admin' ? <BlueprintEditor /> : <Navigate to="/" />} />
+            <Route path="/admin/questions" element={user?.role === 'admin' ? <QuestionFiles /> : <Navigate to="/" />} />
+            <Route path="/admin/pool" element={user?.role === 'admin' ? <QuestionManager /> : <Navigate to="/" />} />
+            <Route path="/admin/duplicates" element={user?.role === 'admin' ? <DuplicateQuestions /> : <Navigate to="/" />} />
           </Routes>
         </main>
 
@@ -79,6 +118,9 @@ export default function App() {
               isOpen={isAuthModalOpen} 
               onClose={() => setIsAuthModalOpen(false)} 
               onLogin={handleLogin} 
+              initialMode={authLink?.mode}
+              token={authLink?.token}
+              onVerified={handleEmailVerified}
             />
           )}
         </AnimatePresence>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { api } from '../services/api';
-import { TestAttempt, LeaderboardEntry } from '../types';
+import { TestAttempt, LeaderboardPage } from '../types';
+import LeaderboardPanel from './LeaderboardPanel';
 import { 
   BarChart, 
   Bar, 
@@ -19,17 +20,17 @@ import { Target, TrendingUp, AlertTriangle, CheckCircle2, Clock, Users } from 'l
 
 export default function AnalyticsView() {
   const [history, setHistory] = useState<TestAttempt[]>([]);
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPage | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     Promise.all([
       api.tests.getHistory(),
-      api.tests.getLeaderboard()
+      api.tests.getLeaderboard({ page_size: 50 })
     ])
       .then(([historyData, leaderboardData]) => {
         if (Array.isArray(historyData)) setHistory(historyData);
-        if (Array.isArray(leaderboardData)) setLeaderboard(leaderboardData);
+        setLeaderboard(leaderboardData);
       })
       .catch(err => {
         console.error("Failed to fetch analytics data:", err);
@@ -40,18 +41,20 @@ export default function AnalyticsView() {
   if (loading) return <div className="text-center py-20">Loading analytics...</div>;
 
   const safeHistory = Array.isArray(history) ? history : [];
-  const safeLeaderboard = Array.isArray(leaderboard) ? leaderboard : [];
+  // Old attempts with nothing to mark have no percentage, as on the leaderboard
+  const markedHistory = safeHistory.filter(h => h.max_marks > 0);
+  const safeLeaderboard = leaderboard?.entries ?? [];
 
-  // Calculate Global Average Accuracy
+  // Calculate Global Average Accuracy over the top 50
   const globalAvgAccuracy = safeLeaderboard.length 
     ? Math.round(safeLeaderboard.reduce((acc, curr) => acc + curr.avg_accuracy, 0) / safeLeaderboard.length)
     : 0;
 
-  const subjectPerformance = safeHistory.reduce((acc: any, curr) => {
+  const subjectPerformance = markedHistory.reduce((acc: any, curr) => {
     const sub = curr.subject || 'Full Mock';
     if (!acc[sub]) acc[sub] = { name: sub, score: 0, total: 0, count: 0 };
-    acc[sub].score += curr.score;
-    acc[sub].total += curr.total;
+    acc[sub].score += curr.marks;
+    acc[sub].total += curr.max_marks;
     acc[sub].count += 1;
     return acc;
   }, {});
@@ -61,18 +64,19 @@ export default function AnalyticsView() {
     accuracy: Math.round((s.score / s.total) * 100)
   }));
 
-  const progressionData = safeHistory.slice().reverse().map(h => ({
+  const progressionData = markedHistory.slice().reverse().map(h => ({
     date: format(new Date(h.date), 'MMM dd'),
-    yourScore: Math.round((h.score / h.total) * 100),
+    yourScore: Math.round((h.marks / h.max_marks) * 100),
     avgScore: globalAvgAccuracy
   }));
 
-  const userAvgAccuracy = safeHistory.length 
-    ? Math.round(safeHistory.reduce((acc, curr) => acc + (curr.score / curr.total) * 100, 0) / safeHistory.length)
-    : 0;
-
   const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
+  // Share of ranked users at or above the caller's all-time rank
+  const percentile = leaderboard?.me && leaderboard.total
+    ? Math.max(1, Math.ceil((leaderboard.me.rank / leaderboard.total) * 100))
+    : null;
+
   const weakTopics = barData.filter(d => d.accuracy < 60).map(d => d.name);
   const strongTopics = barData.filter(d => d.accuracy >= 80).map(d => d.name);
 
@@ -195,7 +199,7 @@ export default function AnalyticsView() {
                     Global Percentile
                   </span>
                   <span className="text-2xl font-light text-indigo-400 tracking-tighter">
-                    {userAvgAccuracy > globalAvgAccuracy ? "Top 25%" : "Top 50%"}
+                    {percentile !== null ? `Top ${percentile}%` : "Unranked"}
                   </span>
                 </div>
               </div>
@@ -223,6 +227,9 @@ export default function AnalyticsView() {
           </section>
         </div>
       </div>
+
+      {/* Leaderboard */}
+      <LeaderboardPanel title="Leaderboard" paginate />
     </div>
   );
 }
@@ -1,42 +1,109 @@
-import { useState } from 'react';
-import { X, Mail, Lock, User as UserIcon, ArrowRight } from 'lucide-react';
-import { api } from '../services/api';
-import { User } from '../types';
+import { useState, useEffect } from 'react';
+import { X, Mail, Lock, User as UserIcon, ArrowRight, CheckCircle2 } from 'lucide-react';
+import { api, fieldErrors } from '../services/api';
+import { AuthSession } from '../types';
 import { motion, AnimatePresence } from 'motion/react';
 
+// reset and verify are reached from emailed links, which carry a token
+export type AuthMode = 'login' | 'register' | 'forgot' | 'reset' | 'verify';
+
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onLogin: (user: User, token: string) => void;
+  onLogin: (session: AuthSession) => void;
+  initialMode?: AuthMode;
+  token?: string;
+  onVerified?: () => void;
 }
 
-export default function AuthModal({ isOpen, onClose, onLogin }: AuthModalProps) {
-  const [isLogin, setIsLogin] = useState(true);
+const FORM_FIELDS = ['name', 'email', 'password'];
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-2 pl-5 text-red-500 text-[10px] font-bold uppercase tracking-widest">{message}</p> : null;
+
+const HEADINGS: Record<AuthMode, { title: string; subtitle: string }> = {
+  login: { title: 'Welcome Back', subtitle: 'Sign in to continue your preparation' },
+  register: { title: 'Join Platform', subtitle: 'Create an account to start your journey' },
+  forgot: { title: 'Forgot Password', subtitle: "We'll email you a link to choose a new one" },
+  reset: { title: 'New Password', subtitle: 'Choose a new password for your account' },
+  verify: { title: 'Verify Email', subtitle: 'Confirming your email address' },
+};
+
+export default function AuthModal({ isOpen, onClose, onLogin, initialMode = 'login', token = '', onVerified }: AuthModalProps) {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [name, setName] = useState('');
   const [error, setError] = useState('');
+  const [fieldErrs, setFieldErrs] = useState<Record<string, string>>({});
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
 
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError('');
+    setFieldErrs({});
+    setNotice('');
+  };
+
+  // Verification links need no input, so confirm as soon as the modal opens
+  useEffect(() => {
+    if (mode !== 'verify') return;
+    let cancelled = false;
+    setLoading(true);
+    api.auth.verifyEmail(token)
+      .then(() => {
+        if (cancelled) return;
+        setNotice('Your email address is confirmed.');
+        onVerified?.();
+      })
+      .catch((err: any) => !cancelled && setError(err.message || 'Verification failed'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [mode, token]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldErrs({});
+    setNotice('');
+
+    if (mode === 'reset' && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
     setLoading(true);
 
     try {
-      const res = isLogin 
+      if (mode === 'forgot') {
+        await api.auth.forgotPassword(email);
+        setNotice(`If ${email} has an account, a reset link is on its way.`);
+        return;
+      }
+
+      const res = mode === 'login'
         ? await api.auth.login({ email, password })
-        : await api.auth.register({ name, email, password });
+        : mode === 'register'
+          ? await api.auth.register({ name, email, password })
+          : await api.auth.resetPassword(token, password);
       
-      onLogin(res.user, res.token);
+      onLogin(res);
       onClose();
     } catch (err: any) {
-      setError(err.message || 'Authentication failed');
+      // Problems with a visible field are shown under it; anything else above the button
+      const fields = fieldErrors(err);
+      setFieldErrs(fields);
+      if (!FORM_FIELDS.some(f => fields[f])) setError(err.message || 'Authentication failed');
     } finally {
       setLoading(false);
     }
   };
 
+  const inputClass = "w-full pl-14 pr-6 py-4 bg-white/5 border border-white/10 rounded-2xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-white placeholder:text-white/10 font-light";
+  const iconClass = "absolute left-5 top-1/2 -translate-y-1/2 h-5 w-5 text-white/20 group-focus-within:text-white transition-colors";
+  const linkClass = "text-white/30 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-colors";
+
   return (
     <motion.div 
       initial={{ opacity: 0 }}
@@ -62,51 +129,86 @@ export default function AuthModal({ isOpen, onClose, onLogin }: AuthModalProps)
         <div className="p-10 sm:p-14 relative z-0">
           <div className="text-center mb-10">
             <h2 className="text-4xl font-light text-white mb-3 tracking-tight">
-              {isLogin ? 'Welcome Back' : 'Join Platform'}
+              {HEADINGS[mode].title}
             </h2>
             <p className="text-white/30 font-light text-sm">
-              {isLogin ? 'Sign in to continue your preparation' : 'Create an account to start your journey'}
+              {HEADINGS[mode].subtitle}
             </p>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-5">
-            {!isLogin && (
+            {mode === 'register' && (
+              <div>
+                <div className="relative group">
+                  <UserIcon className={iconClass} />
+                  <input
+                    type="text"
+                    placeholder="Full Name"
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <FieldError message={fieldErrs.name} />
+              </div>
+            )}
+
+            {(mode === 'login' || mode === 'register' || mode === 'forgot') && (
+              <div>
+                <div className="relative group">
+                  <Mail className={iconClass} />
+                  <input
+                    type="email"
+                    placeholder="Email Address"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <FieldError message={fieldErrs.email} />
+              </div>
+            )}
+
+            {(mode === 'login' || mode === 'register' || mode === 'reset') && (
+              <div>
+                <div className="relative group">
+                  <Lock className={iconClass} />
+                  <input
+                    type="password"
+                    placeholder={mode === 'reset' ? 'New Password' : 'Password'}
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <FieldError message={fieldErrs.password} />
+              </div>
+            )}
+
+            {mode === 'reset' && (
               <div className="relative group">
-                <UserIcon className="absolute left-5 top-1/2 -translate-y-1/2 h-5 w-5 text-white/20 group-focus-within:text-white transition-colors" />
+                <Lock className={iconClass} />
                 <input
-                  type="text"
-                  placeholder="Full Name"
+                  type="password"
+                  placeholder="Confirm New Password"
                   required
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  className="w-full pl-14 pr-6 py-4 bg-white/5 border border-white/10 rounded-2xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-white placeholder:text-white/10 font-light"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClass}
                 />
               </div>
             )}
 
-            <div className="relative group">
-              <Mail className="absolute left-5 top-1/2 -translate-y-1/2 h-5 w-5 text-white/20 group-focus-within:text-white transition-colors" />
-              <input
-                type="email"
-                placeholder="Email Address"
-                required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full pl-14 pr-6 py-4 bg-white/5 border border-white/10 rounded-2xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-white placeholder:text-white/10 font-light"
-              />
-            </div>
-
-            <div className="relative group">
-              <Lock className="absolute left-5 top-1/2 -translate-y-1/2 h-5 w-5 text-white/20 group-focus-within:text-white transition-colors" />
-              <input
-                type="password"
-                placeholder="Password"
-                required
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full pl-14 pr-6 py-4 bg-white/5 border border-white/10 rounded-2xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-white placeholder:text-white/10 font-light"
-              />
-            </div>
+            {mode === 'login' && (
+              <div className="text-right">
+                <button type="button" onClick={() => switchMode('forgot')} className={linkClass}>
+                  Forgot password?
+                </button>
+              </div>
+            )}
 
             {error && (
               <motion.div 
@@ -118,23 +220,54 @@ export default function AuthModal({ isOpen, onClose, onLogin }: AuthModalProps)
               </motion.div>
             )}
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-white text-black py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-indigo-500 hover:text-white transition-all flex items-center justify-center gap-3 disabled:opacity-50 mt-4"
-            >
-              {loading ? 'Processing...' : isLogin ? 'Sign In' : 'Create Account'}
-              {!loading && <ArrowRight className="h-4 w-4" />}
-            </button>
+            {notice && (
+              <motion.div 
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-2xl text-emerald-500 text-xs font-bold uppercase tracking-widest text-center flex items-center justify-center gap-2"
+              >
+                <CheckCircle2 className="h-4 w-4 shrink-0" />
+                {notice}
+              </motion.div>
+            )}
+
+            {mode === 'verify' ? (
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={loading}
+                className="w-full bg-white text-black py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-indigo-500 hover:text-white transition-all flex items-center justify-center gap-3 disabled:opacity-50 mt-4"
+              >
+                {loading ? 'Verifying...' : 'Continue'}
+                {!loading && <ArrowRight className="h-4 w-4" />}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-white text-black py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-indigo-500 hover:text-white transition-all flex items-center justify-center gap-3 disabled:opacity-50 mt-4"
+              >
+                {loading ? 'Processing...' : {
+                  login: 'Sign In',
+                  register: 'Create Account',
+                  forgot: 'Send Reset Link',
+                  reset: 'Set Password',
+                }[mode]}
+                {!loading && <ArrowRight className="h-4 w-4" />}
+              </button>
+            )}
           </form>
 
           <div className="mt-10 text-center">
-            <button
-              onClick={() => setIsLogin(!isLogin)}
-              className="text-white/30 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-colors"
-            >
-              {isLogin ? "Don't have an account? Sign Up" : "Already have an account? Sign In"}
-            </button>
+            {mode === 'login' || mode === 'register' ? (
+              <button onClick={() => switchMode(mode === 'login' ? 'register' : 'login')} className={linkClass}>
+                {mode === 'login' ? "Don't have an account? Sign Up" : "Already have an account? Sign In"}
+              </button>
+            ) : mode !== 'verify' && (
+              <button onClick={() => switchMode('login')} className={linkClass}>
+                Back to Sign In
+              </button>
+            )}
           </div>
         </div>
       </motion.div>
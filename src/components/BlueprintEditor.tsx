@@ -0,0 +1,375 @@
+import { useState, useEffect } from 'react';
+import { ExamBlueprint, BlueprintRequest, BlueprintSection, ScoringScheme, Subject, SUBJECTS, DEFAULT_SCORING } from '../types';
+import { api, fieldErrors } from '../services/api';
+import {
+  LayoutList,
+  Plus,
+  Trash2,
+  Save,
+  Star,
+  Clock,
+  Layers,
+  Scale,
+  Loader2,
+  CheckCircle2,
+  AlertCircle
+} from 'lucide-react';
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+
+const SCORING_FIELDS: { key: keyof ScoringScheme; label: string }[] = [
+  { key: 'correct', label: 'Correct' },
+  { key: 'wrong', label: 'Wrong (Penalty)' },
+  { key: 'unattempted', label: 'Skipped' },
+];
+
+const emptyBlueprint = (): BlueprintRequest => ({
+  name: '',
+  duration_minutes: 180,
+  difficulty_mix: { Easy: 30, Medium: 50, Hard: 20 },
+  scoring: DEFAULT_SCORING,
+  sections: [{ name: '', subjects: [], questions: 50 }],
+});
+
+const toRequest = ({ name, duration_minutes, difficulty_mix, scoring, sections }: ExamBlueprint): BlueprintRequest =>
+  ({ name, duration_minutes, difficulty_mix, scoring, sections });
+
+export default function BlueprintEditor() {
+  const [blueprints, setBlueprints] = useState<ExamBlueprint[]>([]);
+  // The blueprint being edited; null while drafting a new one
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<BlueprintRequest>(emptyBlueprint);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Server validation messages keyed by field path, e.g. "sections.1.subjects"
+  const [fieldErrs, setFieldErrs] = useState<Record<string, string>>({});
+
+  const load = async (select?: number) => {
+    try {
+      const data = await api.blueprints.getAll();
+      setBlueprints(data);
+      const current = data.find(b => b.id === select) ?? data.find(b => b.is_default) ?? data[0];
+      if (current) {
+        setSelectedId(current.id);
+        setDraft(toRequest(current));
+      }
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load exam blueprints.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const selected = blueprints.find(b => b.id === selectedId) ?? null;
+  const totalQuestions = draft.sections.reduce((sum, s) => sum + (Number(s.questions) || 0), 0);
+  const mixTotal = DIFFICULTIES.reduce((sum, d) => sum + (Number(draft.difficulty_mix[d]) || 0), 0);
+  const scoring = { ...DEFAULT_SCORING, ...draft.scoring };
+
+  const startEditing = (blueprint: ExamBlueprint | null) => {
+    setSelectedId(blueprint?.id ?? null);
+    setDraft(blueprint ? toRequest(blueprint) : emptyBlueprint());
+    setFieldErrs({});
+    setError(null);
+    setSuccess(null);
+  };
+
+  const updateSection = (idx: number, change: Partial<BlueprintSection>) =>
+    setDraft(d => ({ ...d, sections: d.sections.map((s, i) => i === idx ? { ...s, ...change } : s) }));
+
+  const toggleSubject = (idx: number, subject: Subject) => {
+    const current = draft.sections[idx].subjects;
+    updateSection(idx, {
+      subjects: current.includes(subject) ? current.filter(s => s !== subject) : [...current, subject],
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    setFieldErrs({});
+    try {
+      const saved = selectedId === null
+        ? await api.blueprints.create(draft)
+        : await api.blueprints.update(selectedId, draft);
+      setSuccess(`Saved "${saved.name}". New full mock tests will use it${saved.is_default ? '' : ' once it is the default'}.`);
+      await load(saved.id);
+    } catch (err) {
+      const fields = fieldErrors(err);
+      setFieldErrs(fields);
+      setError(Object.keys(fields).length ? 'Fix the highlighted fields and save again.' : 'Failed to save the blueprint.');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async () => {
+    if (!selected) return;
+    try {
+      await api.blueprints.setDefault(selected.id);
+      setSuccess(`"${selected.name}" is now used for new full mock tests.`);
+      await load(selected.id);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to change the default blueprint.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}"? Tests already started keep their layout.`)) return;
+    try {
+      await api.blueprints.remove(selected.id);
+      setSuccess(`Deleted "${selected.name}".`);
+      await load();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete the blueprint.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <Loader2 className="h-8 w-8 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-16 pb-32">
+      <div className="space-y-4">
+        <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-500/10 text-indigo-400 text-[10px] font-bold uppercase tracking-[0.2em]">
+          Admin Tools
+        </div>
+        <h1 className="text-6xl font-light text-white tracking-tight">Exam <span className="text-indigo-500">Blueprints</span></h1>
+        <p className="text-white/30 font-light tracking-tight max-w-2xl">
+          Define the sections, question counts, difficulty mix, marking and duration of full mock tests. The default blueprint is used for every new full mock, and its marking for subject tests too.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-12">
+        {/* Blueprint List */}
+        <div className="lg:col-span-1 space-y-4">
+          {blueprints.map(b => (
+            <button
+              key={b.id}
+              onClick={() => startEditing(b)}
+              className={`w-full p-6 rounded-[2rem] border text-left transition-all ${
+                selectedId === b.id ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-white/[0.02] border-white/5 hover:bg-white/5'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-white font-light truncate">{b.name}</p>
+                {b.is_default && <Star className="h-4 w-4 text-amber-500 fill-current shrink-0" />}
+              </div>
+              <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold mt-2">
+                {b.sections.reduce((sum, s) => sum + s.questions, 0)} Questions · {b.duration_minutes} Min · {b.sections.length} Sections
+              </p>
+            </button>
+          ))}
+          <button
+            onClick={() => startEditing(null)}
+            className="w-full p-5 rounded-2xl bg-white/5 text-white/40 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-3"
+          >
+            <Plus className="h-4 w-4" />
+            New Blueprint
+          </button>
+        </div>
+
+        {/* Editor */}
+        <div className="lg:col-span-2 bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-10">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
+                <LayoutList className="h-4 w-4" /> Name
+              </label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+              />
+              <FieldError message={fieldErrs.name} />
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
+                <Clock className="h-4 w-4" /> Duration (Minutes)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={draft.duration_minutes}
+                onChange={(e) => setDraft(d => ({ ...d, duration_minutes: parseInt(e.target.value) || 0 }))}
+                className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+              />
+              <FieldError message={fieldErrs.duration_minutes} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
+              <Layers className="h-4 w-4" /> Difficulty Mix ({mixTotal}% of 100%)
+            </label>
+            <div className="grid grid-cols-3 gap-4">
+              {DIFFICULTIES.map(d => (
+                <div key={d} className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl px-5 py-3">
+                  <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{d}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.difficulty_mix[d]}
+                    onChange={(e) => setDraft(b => ({ ...b, difficulty_mix: { ...b.difficulty_mix, [d]: parseInt(e.target.value) || 0 } }))}
+                    className="w-full bg-transparent text-right text-white font-light outline-none"
+                  />
+                  <span className="text-white/20">%</span>
+                </div>
+              ))}
+            </div>
+            <FieldError message={fieldErrs.difficulty_mix} />
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
+              <Scale className="h-4 w-4" /> Marks Per Question
+            </label>
+            <div className="grid grid-cols-3 gap-4">
+              {SCORING_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <div className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl px-5 py-3">
+                    <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest whitespace-nowrap">{label}</span>
+                    <input
+                      type="number"
+                      step="0.25"
+                      value={scoring[key]}
+                      onChange={(e) => setDraft(b => ({ ...b, scoring: { ...scoring, [key]: parseFloat(e.target.value) || 0 } }))}
+                      className="w-full min-w-0 bg-transparent text-right text-white font-light outline-none"
+                    />
+                  </div>
+                  <FieldError message={fieldErrs[`scoring.${key}`]} />
+                </div>
+              ))}
+            </div>
+            <FieldError message={fieldErrs.scoring} />
+          </div>
+
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h4 className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20">Sections · {totalQuestions} Questions</h4>
+              <button
+                onClick={() => setDraft(d => ({ ...d, sections: [...d.sections, { name: '', subjects: [], questions: 25 }] }))}
+                className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-indigo-400 hover:text-indigo-300 transition-colors"
+              >
+                <Plus className="h-3 w-3" /> Add Section
+              </button>
+            </div>
+            <FieldError message={fieldErrs.sections} />
+            {draft.sections.map((section, idx) => (
+              <div key={idx} className="p-6 rounded-[2rem] bg-white/5 border border-white/5 space-y-4">
+                <div className="flex items-center gap-4">
+                  <span className="text-sm font-black text-white/10 w-8">{String(idx + 1).padStart(2, '0')}</span>
+                  <input
+                    value={section.name}
+                    placeholder="Section name"
+                    onChange={(e) => updateSection(idx, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={section.questions}
+                    title="Questions in this section"
+                    onChange={(e) => updateSection(idx, { questions: parseInt(e.target.value) || 0 })}
+                    className="w-24 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <input
+                    type="number"
+                    min={0.25}
+                    step="0.25"
+                    value={section.weight ?? 1}
+                    title="Weight: multiplies the marks of this section"
+                    onChange={(e) => updateSection(idx, { weight: parseFloat(e.target.value) || 0 })}
+                    className="w-20 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    onClick={() => setDraft(d => ({ ...d, sections: d.sections.filter((_, i) => i !== idx) }))}
+                    disabled={draft.sections.length === 1}
+                    className="p-2 text-white/20 hover:text-red-500 disabled:opacity-20 transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {SUBJECTS.map(s => (
+                    <button
+                      key={s}
+                      onClick={() => toggleSubject(idx, s)}
+                      className={`px-3 py-1 rounded-full text-[10px] font-bold tracking-wide transition-all border ${
+                        section.subjects.includes(s)
+                          ? 'bg-indigo-500 border-indigo-500 text-white'
+                          : 'bg-white/5 border-white/5 text-white/30 hover:bg-white/10'
+                      }`}
+                    >
+                      {s}
+                    </button>
+                  ))}
+                </div>
+                {['name', 'subjects', 'questions', 'weight'].map(field => (
+                  <FieldError key={field} message={fieldErrs[`sections.${idx}.${field}`]} />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-3 p-5 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm font-light">
+              <AlertCircle className="h-4 w-4 shrink-0" /> {error}
+            </div>
+          )}
+          {success && (
+            <div className="flex items-center gap-3 p-5 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm font-light">
+              <CheckCircle2 className="h-4 w-4 shrink-0" /> {success}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-3 px-10 py-5 rounded-full bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-50 transition-all"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {selectedId === null ? 'Create Blueprint' : 'Save Changes'}
+            </button>
+            {selected && !selected.is_default && (
+              <>
+                <button
+                  onClick={handleMakeDefault}
+                  className="flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all"
+                >
+                  <Star className="h-4 w-4" /> Make Default
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-white/5 text-white/40 font-black text-[10px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 transition-all"
+                >
+                  <Trash2 className="h-4 w-4" /> Delete
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-red-500 text-[10px] font-bold uppercase tracking-widest">{message}</p>;
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Bookmark, Question } from '../types';
+import { Bookmark } from '../types';
 import { api } from '../services/api';
 import { 
   Bookmark as BookmarkIcon, 
@@ -7,9 +7,11 @@ import {
   ChevronRight, 
   HelpCircle,
   BookOpen,
-  Search
+  Search,
+  Repeat
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import { Link } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 
 export default function BookmarksPage() {
@@ -43,7 +45,7 @@ export default function BookmarksPage() {
   };
 
   const filteredBookmarks = bookmarks.filter(b => {
-    const q = JSON.parse(b.question_data) as Question;
+    const q = b.question_data;
     return q.text.toLowerCase().includes(searchQuery.toLowerCase()) || 
            q.subject.toLowerCase().includes(searchQuery.toLowerCase());
   });
@@ -68,6 +70,12 @@ export default function BookmarksPage() {
             Bookmarks
           </h1>
           <p className="text-white/30 font-light tracking-tight">Review and master your saved questions.</p>
+          <Link
+            to="/review"
+            className="inline-flex items-center gap-2 text-indigo-400 font-bold text-[10px] uppercase tracking-widest hover:text-white transition-colors"
+          >
+            <Repeat className="h-4 w-4" /> Practise in the review queue
+          </Link>
         </div>
         <div className="relative group">
           <Search className="absolute left-6 top-1/2 -translate-y-1/2 h-5 w-5 text-white/20 group-focus-within:text-white transition-colors" />
@@ -84,7 +92,7 @@ export default function BookmarksPage() {
       {filteredBookmarks.length > 0 ? (
         <div className="space-y-6">
           {filteredBookmarks.map((bookmark) => {
-            const question = JSON.parse(bookmark.question_data) as Question;
+            const question = bookmark.question_data;
             const isExpanded = expandedId === bookmark.id;
 
             return (
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { User, TestAttempt, Subject, LeaderboardEntry, Question } from '../types';
+import { User, TestAttempt, Subject, SUBJECTS, Question, ActiveTestSession } from '../types';
 import { api } from '../services/api';
 import { generateStaticPool } from '../services/gemini';
+import LeaderboardPanel from './LeaderboardPanel';
+import TopicPicker from './TopicPicker';
 import { 
   Trophy, 
   Clock, 
@@ -13,43 +15,47 @@ import {
   BookOpen, 
   Zap,
   History,
-  Medal,
   Users,
   Star,
   RefreshCw,
   Database,
-  Sparkles
+  Sparkles,
+  MailWarning,
+  LayoutList,
+  FileText,
+  Pencil,
+  ClipboardCheck,
+  Copy
 } from 'lucide-react';
-import { motion } from 'motion/react';
+import { motion, AnimatePresence } from 'motion/react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { format } from 'date-fns';
 
-const SUBJECTS: Subject[] = [
-  'Mathematics', 'Physics', 'Chemistry',
-  'Programming in C', 'Data Structures', 'Digital Electronics',
-  'Computer Organization', 'Operating Systems', 'Database Management Systems',
-  'Computer Networks'
-];
-
 export default function Dashboard({ user }: { user: User }) {
   const [history, setHistory] = useState<TestAttempt[]>([]);
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [impQuestions, setImpQuestions] = useState<Question[]>([]);
+  const [activeTest, setActiveTest] = useState<ActiveTestSession | null>(null);
   const [staticCounts, setStaticCounts] = useState<{ subject: string; count: number }[]>([]);
+  // Seeded questions awaiting approval
+  const [pendingCount, setPendingCount] = useState(0);
   const [isSeeding, setIsSeeding] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
+  // Subject whose topic picker is open
+  const [practiceSubject, setPracticeSubject] = useState<Subject | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
+  const isAdmin = user.role === 'admin';
 
   useEffect(() => {
     Promise.all([
       api.tests.getHistory(),
-      api.tests.getLeaderboard(),
       api.questions.getImportant(),
-      api.questions.getStaticCounts()
+      isAdmin ? api.questions.getStaticCounts() : Promise.resolve([]),
+      api.tests.getActiveSession()
     ])
-      .then(([historyData, leaderboardData, impData, countsData]) => {
+      .then(([historyData, impData, countsData, activeData]) => {
         if (Array.isArray(historyData)) setHistory(historyData);
-        if (Array.isArray(leaderboardData)) setLeaderboard(leaderboardData);
+        setActiveTest(activeData);
         if (Array.isArray(impData)) setImpQuestions(impData);
         if (Array.isArray(countsData)) setStaticCounts(countsData);
       })
@@ -57,41 +63,63 @@ export default function Dashboard({ user }: { user: User }) {
         console.error("Failed to fetch dashboard data:", err);
       })
       .finally(() => setLoading(false));
-  }, []);
+  }, [isAdmin]);
+
+  const loadPendingCount = () =>
+    api.questions.list({ approval: 'pending', page_size: 1 })
+      .then(page => setPendingCount(page.total))
+      .catch(err => console.error("Failed to count pending questions:", err));
+
+  useEffect(() => {
+    if (isAdmin) loadPendingCount();
+  }, [isAdmin]);
 
   const handleSeed = async (subject: Subject) => {
     if (isSeeding) return;
     setIsSeeding(true);
     try {
-      const questions = await generateStaticPool(subject, 50);
-      await api.questions.seedStatic(questions);
-      const counts = await api.questions.getStaticCounts();
-      setStaticCounts(counts);
-      alert(`Successfully seeded 50 questions for ${subject}`);
-    } catch (error) {
+      const { questions, report } = await generateStaticPool(subject, 50);
+      const { count, skipped } = await api.questions.seedStatic(questions);
+      loadPendingCount();
+      const dropped = report.rejected + report.duplicates + skipped;
+      alert(
+        `Sent ${count} ${subject} questions to the approval queue` +
+        (dropped ? ` (${dropped} invalid or duplicate dropped)` : '') +
+        (report.flagged ? `. ${report.flagged} held back for answer key review.` : '')
+      );
+    } catch (error: any) {
       console.error('Seeding error:', error);
-      alert('Failed to seed questions.');
+      alert(error.status === 429 ? error.message : 'Failed to seed questions.');
     } finally {
       setIsSeeding(false);
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await api.auth.resendVerification();
+      setVerificationSent(true);
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      alert(error.status === 429 ? error.message : 'Failed to send verification email.');
+    }
+  };
+
   const getCount = (subject: string) => {
     return staticCounts.find(c => c.subject === subject)?.count || 0;
   };
 
   const safeHistory = Array.isArray(history) ? history : [];
-  const safeLeaderboard = Array.isArray(leaderboard) ? leaderboard : [];
 
   const stats = {
     totalTests: safeHistory.length,
-    avgScore: safeHistory.length ? Math.round(safeHistory.reduce((acc, curr) => acc + (curr.score / curr.total) * 100, 0) / safeHistory.length) : 0,
+    avgScore: safeHistory.length ? Math.round(safeHistory.reduce((acc, curr) => acc + (curr.marks / curr.max_marks) * 100, 0) / safeHistory.length) : 0,
     totalTime: safeHistory.reduce((acc, curr) => acc + curr.duration, 0),
   };
 
   const chartData = safeHistory.slice(0, 7).reverse().map(h => ({
     date: format(new Date(h.date), 'MMM dd'),
-    score: Math.round((h.score / h.total) * 100)
+    score: Math.round((h.marks / h.max_marks) * 100)
   }));
 
   return (
@@ -105,15 +133,66 @@ export default function Dashboard({ user }: { user: User }) {
           <h1 className="text-6xl font-light text-white tracking-tight">Welcome, {user.name}</h1>
           <p className="text-white/30 font-light tracking-tight">Your path to AP ECET 2026 excellence starts here.</p>
         </div>
-        <button
-          onClick={() => navigate('/test/Full')}
-          className="bg-white text-black px-10 py-5 rounded-full font-black text-sm hover:scale-105 transition-all flex items-center gap-3 group tracking-widest uppercase"
-        >
-          <Play className="h-4 w-4 fill-current" />
-          Start Mock Exam
-        </button>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={() => navigate('/test/Full?source=bank')}
+            title="Starts instantly from the question bank, generating only what it is missing"
+            className="bg-white/5 border border-white/10 text-white px-8 py-5 rounded-full font-black text-sm hover:bg-white/10 transition-all flex items-center justify-center gap-3 tracking-widest uppercase"
+          >
+            <Database className="h-4 w-4" />
+            Instant Mock
+          </button>
+          <button
+            onClick={() => navigate('/test/Full')}
+            className="bg-white text-black px-10 py-5 rounded-full font-black text-sm hover:scale-105 transition-all flex items-center justify-center gap-3 group tracking-widest uppercase"
+          >
+            <Play className="h-4 w-4 fill-current" />
+            Start Mock Exam
+          </button>
+        </div>
       </div>
 
+      {/* Older sessions predate verification state, so only prompt on an explicit false */}
+      {user.email_verified === false && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6 rounded-[2rem] bg-amber-500/10 border border-amber-500/20">
+          <div className="flex items-center gap-4 text-amber-400">
+            <MailWarning className="h-5 w-5 shrink-0" />
+            <p className="text-sm font-light tracking-tight">
+              Confirm your email address using the link we sent to <span className="font-bold">{user.email}</span>.
+            </p>
+          </div>
+          <button
+            onClick={handleResendVerification}
+            disabled={verificationSent}
+            className="text-amber-400 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-colors disabled:opacity-50 shrink-0"
+          >
+            {verificationSent ? 'Link Sent' : 'Resend Link'}
+          </button>
+        </div>
+      )}
+
+      {activeTest && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6 rounded-[2rem] bg-indigo-500/10 border border-indigo-500/20">
+          <div className="flex items-center gap-4 text-indigo-300">
+            <Clock className="h-5 w-5 shrink-0" />
+            <p className="text-sm font-light tracking-tight">
+              Your {activeTest.test_type === 'Full' ? 'full mock test' : `${activeTest.subject} ${activeTest.test_type === 'Adaptive' ? 'adaptive practice' : 'test'}`} is still in progress:{' '}
+              <span className="font-bold">{activeTest.answered}/{activeTest.total_questions}</span> answered,{' '}
+              <span className="font-bold">{Math.ceil((activeTest.remaining_seconds ?? 0) / 60)} min</span> left.
+            </p>
+          </div>
+          <button
+            onClick={() => navigate(
+              `/test/${activeTest.test_type}${activeTest.subject ? `/${encodeURIComponent(activeTest.subject)}` : ''}?session=${activeTest.id}`
+            )}
+            className="text-indigo-300 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-colors shrink-0 flex items-center gap-2"
+          >
+            <Play className="h-3 w-3 fill-current" />
+            Resume Test
+          </button>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
         <StatCard 
@@ -197,7 +276,7 @@ export default function Dashboard({ user }: { user: User }) {
                 <motion.button
                   key={subject}
                   whileHover={{ y: -4, backgroundColor: 'rgba(255,255,255,0.05)' }}
-                  onClick={() => navigate(`/test/Subject/${encodeURIComponent(subject)}`)}
+                  onClick={() => setPracticeSubject(subject)}
                   className="p-8 bg-white/[0.02] border border-white/5 rounded-[2.5rem] text-left transition-all group flex items-center gap-6"
                 >
                   <div className="h-12 w-12 bg-white/5 rounded-2xl flex items-center justify-center group-hover:bg-white transition-colors shrink-0">
@@ -216,97 +295,114 @@ export default function Dashboard({ user }: { user: User }) {
         {/* Sidebar */}
         <div className="space-y-16">
           {/* Leaderboard */}
-          <section className="bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-10">
-            <h3 className="text-2xl font-light text-white tracking-tight flex items-center gap-4">
-              <Medal className="h-6 w-6 text-amber-500" />
-              Top Performers
-            </h3>
-            <div className="space-y-8">
-              {loading ? (
-                <div className="animate-pulse space-y-6">
-                  {[1, 2, 3].map(i => <div key={i} className="h-12 bg-white/5 rounded-2xl" />)}
-                </div>
-              ) : safeLeaderboard.length > 0 ? (
-                safeLeaderboard.slice(0, 5).map((entry, index) => (
-                  <div 
-                    key={entry.id} 
-                    className="flex items-center justify-between group"
-                  >
-                    <div className="flex items-center gap-5">
-                      <span className={`text-sm font-black w-6 ${
-                        index === 0 ? 'text-amber-500' : 
-                        index === 1 ? 'text-slate-400' : 
-                        index === 2 ? 'text-amber-700' : 
-                        'text-white/10'
-                      }`}>
-                        0{index + 1}
-                      </span>
-                      <div>
-                        <p className="font-light text-white group-hover:text-indigo-400 transition-colors">{entry.name}</p>
-                        <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold">{entry.tests_taken} Tests</p>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-bold text-white">{entry.avg_accuracy}%</p>
-                    </div>
-                  </div>
-                ))
-              ) : (
-                <p className="text-white/20 text-center py-8 italic font-light">No rankings yet</p>
-              )}
-            </div>
-            <button className="w-full py-4 bg-white/5 text-white/30 rounded-2xl text-[10px] uppercase tracking-widest font-bold hover:bg-white hover:text-black transition-all">
+          <LeaderboardPanel pageSize={5}>
+            <button
+              onClick={() => navigate('/analytics')}
+              className="w-full py-4 bg-white/5 text-white/30 rounded-2xl text-[10px] uppercase tracking-widest font-bold hover:bg-white hover:text-black transition-all"
+            >
               Full Leaderboard
             </button>
-          </section>
+          </LeaderboardPanel>
 
           {/* Admin Seeding Section */}
-          <section className="bg-indigo-500/5 border border-indigo-500/10 rounded-[3rem] p-10 space-y-10">
-            <div className="flex items-center justify-between">
-              <h3 className="text-2xl font-light text-white tracking-tight flex items-center gap-4">
-                <Database className="h-6 w-6 text-indigo-500" />
-                System Pool
-              </h3>
-              {isSeeding && <RefreshCw className="h-4 w-4 text-indigo-500 animate-spin" />}
-            </div>
-            <div className="space-y-4 max-h-80 overflow-y-auto custom-scrollbar pr-2">
-              <button
-                onClick={() => navigate('/admin/generator')}
-                className="w-full p-5 rounded-2xl bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 transition-all flex items-center justify-center gap-3 mb-4"
-              >
-                <Sparkles className="h-4 w-4" />
-                AI Question Generator
-              </button>
-              {SUBJECTS.map(s => (
-                <div key={s} className="p-5 rounded-2xl bg-white/5 border border-white/5 space-y-4">
-                  <div className="flex items-center justify-between">
-                    <p className="text-sm font-light text-white/70 truncate mr-4">{s}</p>
-                    <button
-                      onClick={() => handleSeed(s)}
-                      disabled={isSeeding}
-                      className="p-2 bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 disabled:opacity-50 transition-all"
-                    >
-                      <Plus className="h-4 w-4" />
-                    </button>
-                  </div>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-[10px] uppercase tracking-widest font-bold text-white/20">
-                      <span>{getCount(s)} Qs</span>
-                      <span>Goal: 200</span>
+          {isAdmin && (
+            <section className="bg-indigo-500/5 border border-indigo-500/10 rounded-[3rem] p-10 space-y-10">
+              <div className="flex items-center justify-between">
+                <h3 className="text-2xl font-light text-white tracking-tight flex items-center gap-4">
+                  <Database className="h-6 w-6 text-indigo-500" />
+                  System Pool
+                </h3>
+                {isSeeding && <RefreshCw className="h-4 w-4 text-indigo-500 animate-spin" />}
+              </div>
+              <div className="space-y-4 max-h-80 overflow-y-auto custom-scrollbar pr-2">
+                <button
+                  onClick={() => navigate('/admin/generator')}
+                  className="w-full p-5 rounded-2xl bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 transition-all flex items-center justify-center gap-3 mb-4"
+                >
+                  <Sparkles className="h-4 w-4" />
+                  AI Question Generator
+                </button>
+                <button
+                  onClick={() => navigate('/admin/blueprints')}
+                  className="w-full p-5 rounded-2xl bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-3 mb-4"
+                >
+                  <LayoutList className="h-4 w-4" />
+                  Exam Blueprints
+                </button>
+                <button
+                  onClick={() => navigate('/admin/questions')}
+                  className="w-full p-5 rounded-2xl bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-3 mb-4"
+                >
+                  <FileText className="h-4 w-4" />
+                  Import / Export Questions
+                </button>
+                <button
+                  onClick={() => navigate('/admin/pool?approval=pending')}
+                  className="w-full p-5 rounded-2xl bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-3 mb-4"
+                >
+                  <ClipboardCheck className="h-4 w-4" />
+                  Approval Queue{pendingCount > 0 ? ` (${pendingCount})` : ''}
+                </button>
+                <button
+                  onClick={() => navigate('/admin/pool')}
+                  className="w-full p-5 rounded-2xl bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-3 mb-4"
+                >
+                  <Pencil className="h-4 w-4" />
+                  Manage Questions
+                </button>
+                <button
+                  onClick={() => navigate('/admin/duplicates')}
+                  className="w-full p-5 rounded-2xl bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-3 mb-4"
+                >
+                  <Copy className="h-4 w-4" />
+                  Duplicate Questions
+                </button>
+                {SUBJECTS.map(s => (
+                  <div key={s} className="p-5 rounded-2xl bg-white/5 border border-white/5 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-light text-white/70 truncate mr-4">{s}</p>
+                      <button
+                        onClick={() => handleSeed(s)}
+                        disabled={isSeeding}
+                        className="p-2 bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 disabled:opacity-50 transition-all"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
                     </div>
-                    <div className="w-full bg-white/5 h-1 rounded-full overflow-hidden">
-                      <div 
-                        className="bg-indigo-500 h-full transition-all duration-500" 
-                        style={{ width: `${Math.min(100, (getCount(s) / 200) * 100)}%` }}
-                      />
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-[10px] uppercase tracking-widest font-bold text-white/20">
+                        <span>{getCount(s)} Qs</span>
+                        <span>Goal: 200</span>
+                      </div>
+                      <div className="w-full bg-white/5 h-1 rounded-full overflow-hidden">
+                        <div 
+                          className="bg-indigo-500 h-full transition-all duration-500" 
+                          style={{ width: `${Math.min(100, (getCount(s) / 200) * 100)}%` }}
+                        />
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
-          </section>
+                ))}
+              </div>
+            </section>
+          )}
         </div>
       </div>
+
+      <AnimatePresence>
+        {practiceSubject && (
+          <TopicPicker
+            subject={practiceSubject}
+            onClose={() => setPracticeSubject(null)}
+            onStart={(topics, mode) => {
+              const params = topics.map(t => ['topic', t]);
+              if (mode === 'bank') params.push(['source', 'bank']);
+              const query = new URLSearchParams(params).toString();
+              navigate(`/test/${mode === 'adaptive' ? 'Adaptive' : 'Subject'}/${encodeURIComponent(practiceSubject)}${query ? `?${query}` : ''}`);
+            }}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { DuplicateCluster, Subject, SUBJECTS, DUPLICATE_THRESHOLD } from '../types';
+import { api } from '../services/api';
+import {
+  Merge,
+  Crown,
+  RefreshCw,
+  Loader2,
+  CheckCircle2,
+  AlertCircle
+} from 'lucide-react';
+
+const LETTERS = ['A', 'B', 'C', 'D'];
+const THRESHOLDS = [0.6, 0.7, DUPLICATE_THRESHOLD, 0.9];
+
+const selectClass = 'w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500 transition-all [&>option]:bg-zinc-900';
+
+// The question kept from each group, by the id of the group's first question.
+// Approved questions are preferred, then the oldest.
+const suggestedSurvivor = (cluster: DuplicateCluster) =>
+  (cluster.questions.find(q => q.approval === 'approved') ?? cluster.questions[0]).id;
+
+export default function DuplicateQuestions() {
+  const [subject, setSubject] = useState<Subject | ''>('');
+  const [threshold, setThreshold] = useState(DUPLICATE_THRESHOLD);
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [survivors, setSurvivors] = useState<Record<number, number>>({});
+  const [busy, setBusy] = useState<number | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setClusters(null);
+    try {
+      const found = await api.questions.duplicates({ threshold, ...(subject ? { subject } : {}) });
+      setClusters(found);
+      setSurvivors(Object.fromEntries(found.map(c => [c.questions[0].id, suggestedSurvivor(c)])));
+    } catch (err: any) {
+      console.error(err);
+      setClusters([]);
+      setError(err.message || 'Failed to find duplicates.');
+    }
+  };
+
+  useEffect(() => { load(); }, [subject, threshold]);
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const key = cluster.questions[0].id;
+    const survivor = survivors[key];
+    const ids = cluster.questions.map(q => q.id).filter(id => id !== survivor);
+    if (!confirm(`Merge ${ids.length} question${ids.length === 1 ? '' : 's'} into #${survivor}? The others will be deleted.`)) return;
+    setBusy(key);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await api.questions.merge(survivor, { ids });
+      setSuccess(
+        `Merged ${result.merged} question${result.merged === 1 ? '' : 's'} into #${survivor}, ` +
+        `moving ${result.bookmarks} bookmark${result.bookmarks === 1 ? '' : 's'}, ${result.reviews} review card${result.reviews === 1 ? '' : 's'} ` +
+        `and ${result.attempts} past answer${result.attempts === 1 ? '' : 's'}.`
+      );
+      await load();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to merge the questions.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-16 pb-32">
+      <div className="space-y-4">
+        <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-500/10 text-indigo-400 text-[10px] font-bold uppercase tracking-[0.2em]">
+          Admin Tools
+        </div>
+        <h1 className="text-6xl font-light text-white tracking-tight">Duplicate <span className="text-indigo-500">Questions</span></h1>
+        <p className="text-white/30 font-light tracking-tight max-w-2xl">
+          Groups of questions in the static pool that ask the same thing in different words. Tests never serve two questions from one group, so keep the best of each and merge the rest into it: bookmarks, review cards and past answers move to the question kept, and the others are deleted.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <select value={subject} onChange={(e) => setSubject(e.target.value as Subject | '')} className={selectClass}>
+          <option value="">All Subjects</option>
+          {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className={selectClass}>
+          {THRESHOLDS.map(t => <option key={t} value={t}>{Math.round(t * 100)}% alike or more</option>)}
+        </select>
+        <button
+          onClick={load}
+          className="flex items-center justify-center gap-3 px-8 py-4 rounded-full bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white transition-all"
+        >
+          <RefreshCw className="h-4 w-4" /> Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 p-5 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm font-light">
+          <AlertCircle className="h-4 w-4 shrink-0" /> {error}
+        </div>
+      )}
+      {success && (
+        <div className="flex items-center gap-3 p-5 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm font-light">
+          <CheckCircle2 className="h-4 w-4 shrink-0" /> {success}
+        </div>
+      )}
+
+      {!clusters ? (
+        <div className="flex justify-center py-16"><Loader2 className="h-6 w-6 text-indigo-500 animate-spin" /></div>
+      ) : clusters.length === 0 ? (
+        <p className="text-white/30 font-light text-center py-16">No duplicates found.</p>
+      ) : (
+        <div className="space-y-8">
+          <h4 className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20">{clusters.length} Groups</h4>
+          {clusters.map(cluster => {
+            const key = cluster.questions[0].id;
+            return (
+              <div key={key} className="bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-6">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold">
+                    {cluster.subject} · {Math.round(cluster.similarity * 100)}% alike
+                  </p>
+                  <button
+                    onClick={() => handleMerge(cluster)}
+                    disabled={busy !== null}
+                    className="flex items-center gap-3 px-6 py-3 rounded-full bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-50 transition-all"
+                  >
+                    {busy === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Merge className="h-4 w-4" />}
+                    Merge Into #{survivors[key]}
+                  </button>
+                </div>
+                {cluster.questions.map(q => (
+                  <button
+                    key={q.id}
+                    onClick={() => setSurvivors(s => ({ ...s, [key]: q.id }))}
+                    title="Keep this question"
+                    className={`w-full p-5 rounded-[2rem] border text-left transition-all ${
+                      survivors[key] === q.id ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-white/[0.02] border-white/5 hover:bg-white/5'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="text-white/80 font-light">{q.text}</p>
+                      {survivors[key] === q.id && <Crown className="h-4 w-4 text-indigo-400 shrink-0" />}
+                    </div>
+                    <p className="text-sm text-white/40 font-light mt-2">
+                      {LETTERS[q.correctAnswer]}. {q.options[q.correctAnswer]}
+                    </p>
+                    <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold mt-2">
+                      #{q.id} · {q.difficulty} · {q.approval}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { User, Question } from '../types';
+import { Question, AuthSession } from '../types';
 import { api } from '../services/api';
 import { 
   Rocket, 
@@ -15,7 +15,7 @@ import {
 } from 'lucide-react';
 import { motion } from 'motion/react';
 
-export default function LandingPage({ onLogin, onOpenAuth }: { onLogin: (user: User, token: string) => void, onOpenAuth: () => void }) {
+export default function LandingPage({ onLogin, onOpenAuth }: { onLogin: (session: AuthSession) => void, onOpenAuth: () => void }) {
   const [impQuestions, setImpQuestions] = useState<Question[]>([]);
 
   useEffect(() => {
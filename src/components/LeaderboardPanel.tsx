@@ -0,0 +1,173 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { LeaderboardPage, LeaderboardPeriod, LeaderboardEntry, Subject, SUBJECTS } from '../types';
+import { api } from '../services/api';
+import { Medal, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'all', label: 'All Time' },
+];
+
+const MIN_ATTEMPTS = [1, 3, 5, 10];
+
+// "all" ranks every test, "Full" only full mocks, anything else one subject
+type Scope = 'all' | 'Full' | Subject;
+
+interface LeaderboardPanelProps {
+  pageSize?: number;
+  // Page through the whole board instead of showing only the top entries
+  paginate?: boolean;
+  title?: string;
+  onLoad?: (page: LeaderboardPage) => void;
+  children?: ReactNode;
+}
+
+export default function LeaderboardPanel({ pageSize = 10, paginate = false, title = 'Top Performers', onLoad, children }: LeaderboardPanelProps) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all');
+  const [scope, setScope] = useState<Scope>('all');
+  const [minAttempts, setMinAttempts] = useState(1);
+  const [page, setPage] = useState(1);
+  const [board, setBoard] = useState<LeaderboardPage | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api.tests.getLeaderboard({
+      period,
+      test_type: scope === 'all' ? undefined : scope === 'Full' ? 'Full' : 'Subject',
+      subject: scope === 'all' || scope === 'Full' ? undefined : scope,
+      min_attempts: minAttempts,
+      page,
+      page_size: pageSize,
+    })
+      .then(data => {
+        if (cancelled) return;
+        setBoard(data);
+        onLoad?.(data);
+      })
+      .catch(err => console.error("Failed to fetch leaderboard:", err))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [period, scope, minAttempts, page, pageSize]);
+
+  // Any filter change starts again from the first page
+  const filter = <T,>(set: (value: T) => void) => (value: T) => { set(value); setPage(1); };
+
+  const entries = board?.entries ?? [];
+  const pages = board ? Math.max(1, Math.ceil(board.total / board.page_size)) : 1;
+  const me = board?.me;
+  const meShown = me && entries.some(e => e.id === me.id);
+
+  return (
+    <section className="bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-10">
+      <h3 className="text-2xl font-light text-white tracking-tight flex items-center gap-4">
+        <Medal className="h-6 w-6 text-amber-500" />
+        {title}
+      </h3>
+
+      <div className="space-y-4">
+        <div className="flex gap-2 p-1 bg-white/5 rounded-full">
+          {PERIODS.map(p => (
+            <button
+              key={p.value}
+              onClick={() => filter(setPeriod)(p.value)}
+              className={`flex-1 py-2 rounded-full text-[10px] uppercase tracking-widest font-bold transition-all ${
+                period === p.value ? 'bg-white text-black' : 'text-white/30 hover:text-white'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={scope}
+            onChange={(e) => filter(setScope)(e.target.value as Scope)}
+            className="flex-1 min-w-0 px-4 py-2 bg-white/5 border border-white/10 rounded-full text-[10px] uppercase tracking-widest font-bold text-white/60 outline-none"
+          >
+            <option value="all" className="bg-black">All Tests</option>
+            <option value="Full" className="bg-black">Full Mocks</option>
+            {SUBJECTS.map(s => <option key={s} value={s} className="bg-black">{s}</option>)}
+          </select>
+          <select
+            value={minAttempts}
+            onChange={(e) => filter(setMinAttempts)(Number(e.target.value))}
+            title="Minimum tests taken"
+            className="px-4 py-2 bg-white/5 border border-white/10 rounded-full text-[10px] uppercase tracking-widest font-bold text-white/60 outline-none"
+          >
+            {MIN_ATTEMPTS.map(n => <option key={n} value={n} className="bg-black">{n}+ Tests</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-8">
+        {loading && !board ? (
+          <div className="animate-pulse space-y-6">
+            {[1, 2, 3].map(i => <div key={i} className="h-12 bg-white/5 rounded-2xl" />)}
+          </div>
+        ) : entries.length > 0 ? (
+          entries.map(entry => <LeaderboardRow key={entry.id} entry={entry} highlight={entry.id === me?.id} />)
+        ) : (
+          <p className="text-white/20 text-center py-8 italic font-light">No rankings yet</p>
+        )}
+      </div>
+
+      {me && !meShown && (
+        <div className="pt-8 border-t border-white/5">
+          <LeaderboardRow entry={me} highlight />
+        </div>
+      )}
+
+      {paginate && pages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page <= 1}
+            className="p-3 bg-white/5 rounded-2xl text-white/40 hover:text-white disabled:opacity-20 transition-all"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-white/30">Page {page} of {pages}</span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={page >= pages}
+            className="p-3 bg-white/5 rounded-2xl text-white/40 hover:text-white disabled:opacity-20 transition-all"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {children}
+    </section>
+  );
+}
+
+function LeaderboardRow({ entry, highlight }: { entry: LeaderboardEntry; highlight: boolean }) {
+  return (
+    <div className="flex items-center justify-between group">
+      <div className="flex items-center gap-5">
+        <span className={`text-sm font-black w-8 ${
+          entry.rank === 1 ? 'text-amber-500' :
+          entry.rank === 2 ? 'text-slate-400' :
+          entry.rank === 3 ? 'text-amber-700' :
+          highlight ? 'text-indigo-400' :
+          'text-white/10'
+        }`}>
+          {String(entry.rank).padStart(2, '0')}
+        </span>
+        <div>
+          <p className={`font-light group-hover:text-indigo-400 transition-colors ${highlight ? 'text-indigo-400' : 'text-white'}`}>
+            {entry.name}{highlight && ' (You)'}
+          </p>
+          <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold">{entry.tests_taken} Tests</p>
+        </div>
+      </div>
+      <div className="text-right">
+        <p className="font-bold text-white">{entry.avg_accuracy}%</p>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { User } from '../types';
-import { BookOpen, LogOut, User as UserIcon, Menu, X, Bookmark } from 'lucide-react';
+import { User, AuthSession } from '../types';
+import { BookOpen, LogOut, User as UserIcon, Menu, X, Bookmark, Repeat } from 'lucide-react';
 
 interface NavbarProps {
   user: User | null;
   onLogout: () => void;
-  onLogin: (user: User, token: string) => void;
+  onLogin: (session: AuthSession) => void;
   onOpenAuth: () => void;
 }
 
@@ -36,6 +36,9 @@ export default function Navbar({ user, onLogout, onLogin, onOpenAuth }: NavbarPr
                 <Link to="/bookmarks" className="text-white/70 hover:text-white text-sm font-medium transition-colors flex items-center gap-2 tracking-wide">
                   <Bookmark className="h-4 w-4" /> BOOKMARKS
                 </Link>
+                <Link to="/review" className="text-white/70 hover:text-white text-sm font-medium transition-colors flex items-center gap-2 tracking-wide">
+                  <Repeat className="h-4 w-4" /> REVIEW
+                </Link>
                 <div className="flex items-center gap-4 pl-6 border-l border-white/10">
                   <div className="flex flex-col items-end">
                     <span className="text-sm font-bold text-white tracking-tight">{user.name}</span>
@@ -75,6 +78,7 @@ export default function Navbar({ user, onLogout, onLogin, onOpenAuth }: NavbarPr
             <>
               <Link to="/dashboard" className="block text-white font-light tracking-tight text-xl" onClick={() => setIsMenuOpen(false)}>Dashboard</Link>
               <Link to="/bookmarks" className="block text-white font-light tracking-tight text-xl" onClick={() => setIsMenuOpen(false)}>Bookmarks</Link>
+              <Link to="/review" className="block text-white font-light tracking-tight text-xl" onClick={() => setIsMenuOpen(false)}>Review</Link>
               <button
                 onClick={() => { onLogout(); navigate('/'); setIsMenuOpen(false); }}
                 className="block text-red-500 font-bold text-[10px] uppercase tracking-widest"
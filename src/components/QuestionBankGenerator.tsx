@@ -1,7 +1,7 @@
-import { useState } from 'react';
-import { Subject, Question } from '../types';
+import { useState, useEffect } from 'react';
+import { Subject, SUBJECTS, Question, GenerationReport, SubjectSyllabus } from '../types';
 import { generateQuestionBank } from '../services/gemini';
-import { api } from '../services/api';
+import { api, fieldErrors } from '../services/api';
 import { 
   Sparkles, 
   Database, 
@@ -10,46 +10,54 @@ import {
   CheckCircle2, 
   AlertCircle,
   BookOpen,
+  Tags,
   Layers,
-  Save
+  Save,
+  ShieldCheck
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import ReactMarkdown from 'react-markdown';
 
-const SUBJECTS: Subject[] = [
-  'Mathematics', 
-  'Physics', 
-  'Chemistry', 
-  'Programming in C', 
-  'Data Structures', 
-  'Digital Electronics', 
-  'Computer Organization', 
-  'Operating Systems', 
-  'Database Management Systems', 
-  'Computer Networks'
-];
-
 const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
 
 export default function QuestionBankGenerator() {
   const [subject, setSubject] = useState<Subject>(SUBJECTS[0]);
+  const [syllabus, setSyllabus] = useState<SubjectSyllabus[]>([]);
+  // Topics to focus on; empty for the whole subject
+  const [topics, setTopics] = useState<string[]>([]);
   const [difficulty, setDifficulty] = useState<'Easy' | 'Medium' | 'Hard'>('Medium');
   const [count, setCount] = useState(10);
+  const [verify, setVerify] = useState(true);
   const [loading, setLoading] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [report, setReport] = useState<GenerationReport | null>(null);
   const [saving, setSaving] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Server validation messages keyed by field path, e.g. "count" or "questions.3.options"
+  const [fieldErrs, setFieldErrs] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    api.syllabus.get().then(setSyllabus).catch(err => console.error("Failed to fetch syllabus:", err));
+  }, []);
+
+  const subjectTopics = syllabus.find(s => s.subject === subject)?.units.flatMap(u => u.topics) ?? [];
 
   const handleGenerate = async () => {
     setLoading(true);
     setError(null);
+    setFieldErrs({});
     setSuccess(null);
     try {
-      const data = await generateQuestionBank(subject, difficulty, count);
-      setQuestions(data);
-    } catch (err) {
-      setError('Failed to generate questions. Please try again.');
+      const data = await generateQuestionBank(subject, difficulty, count, verify, topics);
+      setQuestions(data.questions);
+      setReport(data.report);
+    } catch (err: any) {
+      const fields = fieldErrors(err);
+      setFieldErrs(fields);
+      if (Object.keys(fields).length === 0) {
+        setError(err.status === 429 ? err.message : 'Failed to generate questions. Please try again.');
+      }
       console.error(err);
     } finally {
       setLoading(false);
@@ -59,18 +67,33 @@ export default function QuestionBankGenerator() {
   const handleSaveToBank = async () => {
     setSaving(true);
     setError(null);
+    setFieldErrs({});
     try {
-      await api.questions.seedStatic(questions);
-      setSuccess(`Successfully added ${questions.length} questions to the static pool!`);
+      const { count, skipped } = await api.questions.seedStatic(questions);
+      setSuccess(
+        `Sent ${count} questions to the approval queue. Students will see them once approved.` +
+        (skipped ? ` ${skipped} already in the bank ${skipped === 1 ? 'was' : 'were'} skipped.` : '')
+      );
       setQuestions([]);
     } catch (err) {
-      setError('Failed to save questions to the database.');
+      const fields = fieldErrors(err);
+      setFieldErrs(fields);
+      const invalid = new Set(Object.keys(fields).map(path => path.split('.')[1]).filter(Boolean)).size;
+      setError(invalid
+        ? `${invalid} question${invalid === 1 ? '' : 's'} failed validation. Fix or regenerate the highlighted items.`
+        : 'Failed to save questions to the database.');
       console.error(err);
     } finally {
       setSaving(false);
     }
   };
 
+  // Messages for one previewed question, labelled with the offending field
+  const questionErrors = (idx: number) =>
+    Object.entries(fieldErrs)
+      .filter(([path]) => path.startsWith(`questions.${idx}.`))
+      .map(([path, message]) => `${path.split('.').slice(2).join('.')}: ${message}`);
+
   return (
     <div className="max-w-6xl mx-auto space-y-16 pb-32">
       <div className="space-y-4">
@@ -94,13 +117,38 @@ export default function QuestionBankGenerator() {
                 </label>
                 <select 
                   value={subject}
-                  onChange={(e) => setSubject(e.target.value as Subject)}
+                  onChange={(e) => { setSubject(e.target.value as Subject); setTopics([]); }}
                   className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500 transition-all appearance-none"
                 >
                   {SUBJECTS.map(s => <option key={s} value={s} className="bg-black">{s}</option>)}
                 </select>
+                <FieldError message={fieldErrs.subject} />
               </div>
 
+              {subjectTopics.length > 0 && (
+                <div className="space-y-3">
+                  <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
+                    <Tags className="h-4 w-4" /> Topics {topics.length === 0 && '(All)'}
+                  </label>
+                  <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto custom-scrollbar pr-2">
+                    {subjectTopics.map(t => (
+                      <button
+                        key={t}
+                        onClick={() => setTopics(prev => prev.includes(t) ? prev.filter(x => x !== t) : [...prev, t])}
+                        className={`px-3 py-1 rounded-full text-[10px] font-bold tracking-wide transition-all border ${
+                          topics.includes(t)
+                            ? 'bg-indigo-500 border-indigo-500 text-white'
+                            : 'bg-white/5 border-white/5 text-white/30 hover:bg-white/10'
+                        }`}
+                      >
+                        {t}
+                      </button>
+                    ))}
+                  </div>
+                  <FieldError message={fieldErrs.topics} />
+                </div>
+              )}
+
               <div className="space-y-3">
                 <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
                   <Layers className="h-4 w-4" /> Difficulty Level
@@ -120,6 +168,7 @@ export default function QuestionBankGenerator() {
                     </button>
                   ))}
                 </div>
+                <FieldError message={fieldErrs.difficulty} />
               </div>
 
               <div className="space-y-3">
@@ -140,7 +189,20 @@ export default function QuestionBankGenerator() {
                   <span className="text-indigo-400">{count} Questions</span>
                   <span>50</span>
                 </div>
+                <FieldError message={fieldErrs.count} />
               </div>
+
+              <label className="flex items-center justify-between gap-4 cursor-pointer">
+                <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4" /> Verify Answer Keys
+                </span>
+                <input
+                  type="checkbox"
+                  checked={verify}
+                  onChange={(e) => setVerify(e.target.checked)}
+                  className="h-5 w-5 accent-indigo-500"
+                />
+              </label>
             </div>
 
             <button
@@ -206,6 +268,12 @@ export default function QuestionBankGenerator() {
             <h3 className="text-3xl font-light text-white tracking-tight">Preview Area</h3>
             <span className="text-[10px] uppercase tracking-widest font-bold text-white/30">
               {questions.length} Questions Generated
+              {report && report.rejected + report.duplicates > 0 && (
+                <span className="text-amber-500"> • {report.rejected} Invalid, {report.duplicates} Duplicate Dropped</span>
+              )}
+              {report && report.flagged > 0 && (
+                <span className="text-red-500"> • {report.flagged} Need Review</span>
+              )}
             </span>
           </div>
 
@@ -230,8 +298,15 @@ export default function QuestionBankGenerator() {
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: idx * 0.05 }}
-                className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-10 space-y-8"
+                className={`bg-white/[0.02] border rounded-[2.5rem] p-10 space-y-8 ${
+                  questionErrors(idx).length ? 'border-red-500/40' : 'border-white/5'
+                }`}
               >
+                {questionErrors(idx).length > 0 && (
+                  <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-500 text-xs font-medium space-y-1">
+                    {questionErrors(idx).map(message => <p key={message}>{message}</p>)}
+                  </div>
+                )}
                 <div className="flex items-start justify-between gap-4">
                   <div className="space-y-4">
                     <div className="flex items-center gap-3">
@@ -241,6 +316,21 @@ export default function QuestionBankGenerator() {
                       <span className="px-3 py-1 bg-white/5 text-white/40 text-[10px] font-bold rounded-full uppercase tracking-widest">
                         {q.difficulty}
                       </span>
+                      {q.topic && (
+                        <span className="px-3 py-1 bg-indigo-500/10 text-indigo-400 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                          {q.topic}
+                        </span>
+                      )}
+                      {q.verification === 'verified' && (
+                        <span className="px-3 py-1 bg-emerald-500/10 text-emerald-500 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                          Key Verified
+                        </span>
+                      )}
+                      {q.verification === 'needs_review' && (
+                        <span className="px-3 py-1 bg-red-500/10 text-red-500 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                          Needs Review • Solver chose {String.fromCharCode(65 + (q.verified_answer ?? 0))}
+                        </span>
+                      )}
                     </div>
                     <p className="text-xl font-light text-white leading-tight tracking-tight">
                       {q.text}
@@ -282,3 +372,8 @@ export default function QuestionBankGenerator() {
     </div>
   );
 }
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-red-500 text-[10px] font-bold uppercase tracking-widest">{message}</p>;
+}
@@ -0,0 +1,236 @@
+import { useState, ChangeEvent } from 'react';
+import { ImportReport, QuestionFileFormat, Subject, SUBJECTS } from '../types';
+import { api } from '../services/api';
+import {
+  Upload,
+  Download,
+  FileText,
+  Eye,
+  Loader2,
+  CheckCircle2,
+  AlertCircle
+} from 'lucide-react';
+
+const FORMATS: { value: QuestionFileFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'gift', label: 'Moodle GIFT' },
+];
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+
+// Guess the format from the file name; GIFT files are often saved as .txt
+const formatOf = (name: string): QuestionFileFormat => {
+  const ext = name.split('.').pop()?.toLowerCase();
+  if (ext === 'json') return 'json';
+  if (ext === 'gift' || ext === 'txt') return 'gift';
+  return 'csv';
+};
+
+const selectClass = 'w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500 transition-all [&>option]:bg-zinc-900';
+
+export default function QuestionFiles() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<QuestionFileFormat>('csv');
+  // Used for rows and GIFT categories that do not name a subject
+  const [subject, setSubject] = useState<Subject | ''>('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [exportFormat, setExportFormat] = useState<QuestionFileFormat>('csv');
+  const [exportSubject, setExportSubject] = useState<Subject | ''>('');
+  const [exportDifficulty, setExportDifficulty] = useState<typeof DIFFICULTIES[number] | ''>('');
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(formatOf(file.name));
+    setContent(await file.text());
+    setReport(null);
+    setSuccess(null);
+    setError(null);
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await api.questions.importFile({
+        format,
+        content,
+        dry_run: dryRun,
+        ...(subject ? { subject } : {}),
+      });
+      setReport(result);
+      if (!dryRun) setSuccess(`Imported ${result.imported} question${result.imported === 1 ? '' : 's'}. Rows with problems were skipped.`);
+    } catch (err: any) {
+      console.error(err);
+      setReport(null);
+      setError(err.message || 'Failed to read the file.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const { blob, filename } = await api.questions.exportFile({
+        format: exportFormat,
+        ...(exportSubject ? { subject: exportSubject } : {}),
+        ...(exportDifficulty ? { difficulty: exportDifficulty } : {}),
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to export the question bank.');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-16 pb-32">
+      <div className="space-y-4">
+        <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-500/10 text-indigo-400 text-[10px] font-bold uppercase tracking-[0.2em]">
+          Admin Tools
+        </div>
+        <h1 className="text-6xl font-light text-white tracking-tight">Question <span className="text-indigo-500">Files</span></h1>
+        <p className="text-white/30 font-light tracking-tight max-w-2xl">
+          Bring questions into the static pool from a spreadsheet (CSV), a JSON list or a Moodle GIFT export, and take them out again in the same formats. Preview a file first to see which rows will be imported and what is wrong with the rest.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-12">
+        {/* Import */}
+        <div className="lg:col-span-2 bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-8">
+          <h3 className="text-2xl font-light text-white tracking-tight flex items-center gap-4">
+            <Upload className="h-6 w-6 text-indigo-500" /> Import
+          </h3>
+          <label className="flex items-center justify-center gap-3 p-8 rounded-[2rem] border border-dashed border-white/10 text-white/40 hover:bg-white/5 hover:text-white cursor-pointer transition-all">
+            <FileText className="h-5 w-5" />
+            <span className="font-light">{fileName ?? 'Choose a .csv, .json, .gift or .txt file'}</span>
+            <input type="file" accept=".csv,.json,.gift,.txt" onChange={handleFile} className="hidden" />
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as QuestionFileFormat)} className={selectClass}>
+                {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-bold text-white/20 uppercase tracking-widest">Default Subject</label>
+              <select value={subject} onChange={(e) => setSubject(e.target.value as Subject | '')} className={selectClass}>
+                <option value="">None (every row names one)</option>
+                {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-3 p-5 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm font-light">
+              <AlertCircle className="h-4 w-4 shrink-0" /> {error}
+            </div>
+          )}
+          {success && (
+            <div className="flex items-center gap-3 p-5 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm font-light">
+              <CheckCircle2 className="h-4 w-4 shrink-0" /> {success}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <button
+              onClick={() => handleImport(true)}
+              disabled={busy || !content}
+              className="flex-1 flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-white/5 text-white/60 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 hover:text-white disabled:opacity-50 transition-all"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+              Preview
+            </button>
+            <button
+              onClick={() => handleImport(false)}
+              disabled={busy || !report?.dry_run || report.valid === 0}
+              className="flex-1 flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-50 transition-all"
+            >
+              <Upload className="h-4 w-4" />
+              Import {report?.dry_run ? report.valid : ''} Questions
+            </button>
+          </div>
+
+          {report && (
+            <div className="space-y-4">
+              <h4 className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20">
+                {report.valid} Ready · {report.invalid} With Problems
+              </h4>
+              <div className="max-h-[32rem] overflow-y-auto custom-scrollbar space-y-2 pr-2">
+                {report.rows.map(r => (
+                  <div
+                    key={r.row}
+                    className={`flex gap-4 p-4 rounded-2xl border text-sm font-light ${
+                      r.issues.length ? 'bg-red-500/5 border-red-500/10' : 'bg-white/[0.02] border-white/5'
+                    }`}
+                  >
+                    <span className="text-white/20 font-black w-12 shrink-0">#{r.row}</span>
+                    <div className="min-w-0 space-y-1">
+                      {r.question && <p className="text-white/70 truncate">{r.question.text}</p>}
+                      {r.question && (
+                        <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold">
+                          {r.question.subject}{r.question.topic ? ` · ${r.question.topic}` : ''} · {r.question.difficulty}
+                        </p>
+                      )}
+                      {r.similar_to && (
+                        <p className="text-amber-400">
+                          {Math.round(r.similar_to.similarity * 100)}% like {'id' in r.similar_to ? `question #${r.similar_to.id} in the bank` : `row ${r.similar_to.row}`}
+                        </p>
+                      )}
+                      {r.issues.map((issue, i) => (
+                        <p key={i} className="text-red-400">
+                          {issue.path && <span className="text-red-400/50">{issue.path}: </span>}
+                          {issue.message}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Export */}
+        <div className="lg:col-span-1 bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-6 self-start">
+          <h3 className="text-2xl font-light text-white tracking-tight flex items-center gap-4">
+            <Download className="h-6 w-6 text-indigo-500" /> Export
+          </h3>
+          <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as QuestionFileFormat)} className={selectClass}>
+            {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+          <select value={exportSubject} onChange={(e) => setExportSubject(e.target.value as Subject | '')} className={selectClass}>
+            <option value="">All Subjects</option>
+            {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={exportDifficulty} onChange={(e) => setExportDifficulty(e.target.value as typeof DIFFICULTIES[number] | '')} className={selectClass}>
+            <option value="">All Difficulties</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+          <button
+            onClick={handleExport}
+            className="w-full flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 transition-all"
+          >
+            <Download className="h-4 w-4" /> Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
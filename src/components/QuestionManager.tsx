@@ -0,0 +1,425 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BankQuestion, BankQuestionPage, BankQuestionQuery, QuestionApproval, QuestionEdit, QuestionRevision, Subject, SUBJECTS } from '../types';
+import { api, fieldErrors } from '../services/api';
+import {
+  Search,
+  Save,
+  Trash2,
+  RotateCcw,
+  Check,
+  X,
+  History,
+  ChevronLeft,
+  ChevronRight,
+  Star,
+  ShieldAlert,
+  Loader2,
+  CheckCircle2,
+  AlertCircle
+} from 'lucide-react';
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+const LETTERS = ['A', 'B', 'C', 'D'];
+const PAGE_SIZE = 20;
+
+const ACTION_LABELS: Record<QuestionRevision['action'], string> = {
+  edit: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored',
+  revert: 'Reverted',
+  approve: 'Approved',
+  reject: 'Rejected',
+  merge: 'Merged',
+};
+
+const APPROVAL_STYLES: Record<QuestionApproval, string> = {
+  pending: 'bg-amber-500/10 text-amber-400',
+  approved: 'bg-emerald-500/10 text-emerald-400',
+  rejected: 'bg-red-500/10 text-red-400',
+};
+
+const toEdit = ({ text, options, correctAnswer, explanation, difficulty, is_important }: BankQuestion): QuestionEdit =>
+  ({ text, options, correctAnswer, explanation, difficulty, is_important: !!is_important });
+
+// Names of the fields a revision changed, e.g. "answer, explanation"
+const changedFields = ({ before, after }: QuestionRevision) => {
+  if (!before || !after) return '';
+  const labels: Record<keyof QuestionEdit, string> = {
+    text: 'text', options: 'options', correctAnswer: 'answer', explanation: 'explanation', difficulty: 'difficulty', is_important: 'important',
+  };
+  return (Object.keys(labels) as (keyof QuestionEdit)[])
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => labels[key])
+    .join(', ');
+};
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-3 text-white font-light outline-none focus:ring-2 focus:ring-indigo-500 transition-all [&>option]:bg-zinc-900';
+
+export default function QuestionManager() {
+  // ?approval=pending opens the approval queue
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState<BankQuestionQuery>(() => ({
+    status: 'active',
+    approval: (searchParams.get('approval') || undefined) as QuestionApproval | undefined,
+    page: 1,
+    page_size: PAGE_SIZE,
+  }));
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState<BankQuestionPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  // The question open for editing, with its history
+  const [selected, setSelected] = useState<BankQuestion | null>(null);
+  const [history, setHistory] = useState<QuestionRevision[]>([]);
+  const [draft, setDraft] = useState<QuestionEdit | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrs, setFieldErrs] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setPage(await api.questions.list(query));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load questions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [query]);
+
+  // Search as the admin types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(q => q.q === (search || undefined) ? q : { ...q, q: search || undefined, page: 1 }), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const open = async (id: number) => {
+    setSuccess(null);
+    setError(null);
+    setFieldErrs({});
+    try {
+      const detail = await api.questions.get(id);
+      setSelected(detail.question);
+      setHistory(detail.history);
+      setDraft(toEdit(detail.question));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load the question.');
+    }
+  };
+
+  // Runs a change to the open question, then reloads it and the list
+  const change = async (action: () => Promise<unknown>, message: string) => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    setFieldErrs({});
+    try {
+      await action();
+      // Reopening clears the messages, so confirm afterwards
+      await Promise.all([selected && open(selected.id), load()]);
+      setSuccess(message);
+    } catch (err: any) {
+      const fields = fieldErrors(err);
+      setFieldErrs(fields);
+      setError(Object.keys(fields).length ? 'Fix the highlighted fields and save again.' : err.message || 'Failed to save the change.');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currentPage = Number(query.page);
+  // Approves every pending question on the current page
+  const approvePage = () => {
+    const ids = (page?.questions ?? []).filter(q => q.approval === 'pending' && !q.deleted_at).map(q => q.id);
+    if (ids.length === 0 || !confirm(`Approve ${ids.length} question${ids.length === 1 ? '' : 's'} on this page?`)) return;
+    change(() => api.questions.approve({ ids }), `Approved ${ids.length} question${ids.length === 1 ? '' : 's'}.`);
+  };
+
+  const totalPages = page ? Math.max(1, Math.ceil(page.total / page.page_size)) : 1;
+  const updateDraft = (update: Partial<QuestionEdit>) => setDraft(d => d && ({ ...d, ...update }));
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-16 pb-32">
+      <div className="space-y-4">
+        <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-500/10 text-indigo-400 text-[10px] font-bold uppercase tracking-[0.2em]">
+          Admin Tools
+        </div>
+        <h1 className="text-6xl font-light text-white tracking-tight">Static <span className="text-indigo-500">Pool</span></h1>
+        <p className="text-white/30 font-light tracking-tight max-w-2xl">
+          Find and fix questions in the static pool. Generated questions wait here as pending until they are edited as needed and approved. Every edit is kept in the question's history and can be reverted. Deleted questions are taken out of tests and can be restored.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="md:col-span-2 relative">
+          <Search className="absolute left-5 top-1/2 -translate-y-1/2 h-4 w-4 text-white/20" />
+          <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search question text" className={`${inputClass} pl-12`} />
+        </div>
+        <select
+          value={query.subject ?? ''}
+          onChange={(e) => setQuery(q => ({ ...q, subject: (e.target.value || undefined) as Subject | undefined, page: 1 }))}
+          className={inputClass}
+        >
+          <option value="">All Subjects</option>
+          {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select
+          value={query.approval ?? ''}
+          onChange={(e) => setQuery(q => ({ ...q, approval: (e.target.value || undefined) as QuestionApproval | undefined, page: 1 }))}
+          className={inputClass}
+        >
+          <option value="">Any Approval</option>
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+        </select>
+        <div className="grid grid-cols-2 gap-4">
+          <select
+            value={query.difficulty ?? ''}
+            onChange={(e) => setQuery(q => ({ ...q, difficulty: (e.target.value || undefined) as QuestionEdit['difficulty'] | undefined, page: 1 }))}
+            className={inputClass}
+          >
+            <option value="">Any Level</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+          <select
+            value={query.status}
+            onChange={(e) => setQuery(q => ({ ...q, status: e.target.value as BankQuestionQuery['status'], page: 1 }))}
+            className={inputClass}
+          >
+            <option value="active">Active</option>
+            <option value="deleted">Deleted</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-12">
+        {/* Question List */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20">{page?.total ?? 0} Questions</h4>
+            {query.approval === 'pending' && !!page?.questions.length && (
+              <button
+                onClick={approvePage}
+                disabled={saving}
+                className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-emerald-400 hover:text-emerald-300 disabled:opacity-50 transition-colors"
+              >
+                <Check className="h-3 w-3" /> Approve Page
+              </button>
+            )}
+          </div>
+          {loading && !page ? (
+            <div className="flex justify-center py-16"><Loader2 className="h-6 w-6 text-indigo-500 animate-spin" /></div>
+          ) : page?.questions.map(q => (
+            <button
+              key={q.id}
+              onClick={() => open(q.id)}
+              className={`w-full p-5 rounded-[2rem] border text-left transition-all ${
+                selected?.id === q.id ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-white/[0.02] border-white/5 hover:bg-white/5'
+              } ${q.deleted_at ? 'opacity-40' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-white/80 font-light line-clamp-2">{q.text}</p>
+                <div className="flex items-center gap-2 shrink-0">
+                  {q.verification === 'needs_review' && <ShieldAlert className="h-4 w-4 text-amber-500" />}
+                  {q.is_important && <Star className="h-4 w-4 text-amber-500 fill-current" />}
+                </div>
+              </div>
+              <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold mt-2">
+                #{q.id} · {q.subject} · {q.difficulty} · {q.approval}{q.deleted_at ? ' · Deleted' : ''}
+                {q.verification === 'needs_review' && <span className="text-amber-500"> · Key flagged</span>}
+              </p>
+            </button>
+          ))}
+          <div className="flex items-center justify-between pt-2">
+            <button
+              onClick={() => setQuery(q => ({ ...q, page: Number(q.page) - 1 }))}
+              disabled={currentPage <= 1}
+              className="p-3 rounded-full bg-white/5 text-white/40 hover:bg-white/10 hover:text-white disabled:opacity-20 transition-all"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span className="text-[10px] text-white/30 uppercase tracking-widest font-bold">Page {currentPage} of {totalPages}</span>
+            <button
+              onClick={() => setQuery(q => ({ ...q, page: Number(q.page) + 1 }))}
+              disabled={currentPage >= totalPages}
+              className="p-3 rounded-full bg-white/5 text-white/40 hover:bg-white/10 hover:text-white disabled:opacity-20 transition-all"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Editor */}
+        <div className="lg:col-span-3 bg-white/[0.02] border border-white/5 rounded-[3rem] p-10 space-y-8 self-start">
+          {!selected || !draft ? (
+            <p className="text-white/30 font-light text-center py-16">Choose a question to edit it.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold">
+                  #{selected.id} · {selected.subject}{selected.topic ? ` · ${selected.topic}` : ''} · {selected.verification ?? 'unverified'}
+                  {selected.merged_into
+                    ? ` · Merged into #${selected.merged_into}`
+                    : selected.similar_to ? ` · ${Math.round((selected.similarity ?? 0) * 100)}% like #${selected.similar_to}` : ''}
+                </p>
+                <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest ${APPROVAL_STYLES[selected.approval]}`}>
+                  {selected.approval}
+                </span>
+              </div>
+              {selected.verification === 'needs_review' && (
+                <div className="flex items-center gap-3 p-5 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-amber-400 text-sm font-light">
+                  <ShieldAlert className="h-4 w-4 shrink-0" />
+                  The answer check picked {selected.verified_answer != null ? LETTERS[selected.verified_answer] : 'a different option'}, not {LETTERS[selected.correctAnswer]}. Fix the answer, or approve to keep it as it is.
+                </div>
+              )}
+              <fieldset disabled={!!selected.deleted_at || saving} className="space-y-6 disabled:opacity-50">
+                <div className="space-y-2">
+                  <textarea value={draft.text} rows={3} onChange={(e) => updateDraft({ text: e.target.value })} className={inputClass} />
+                  <FieldError message={fieldErrs.text} />
+                </div>
+                {draft.options.map((option, i) => (
+                  <div key={i} className="flex items-center gap-4">
+                    <button
+                      onClick={() => updateDraft({ correctAnswer: i })}
+                      title="Mark as the right answer"
+                      className={`h-10 w-10 shrink-0 rounded-xl text-xs font-black transition-all ${
+                        draft.correctAnswer === i ? 'bg-emerald-500 text-white' : 'bg-white/5 text-white/30 hover:bg-white/10'
+                      }`}
+                    >
+                      {LETTERS[i]}
+                    </button>
+                    <input
+                      value={option}
+                      onChange={(e) => updateDraft({ options: draft.options.map((o, j) => j === i ? e.target.value : o) })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+                <FieldError message={fieldErrs.options ?? fieldErrs.correctAnswer} />
+                <div className="space-y-2">
+                  <textarea value={draft.explanation} rows={3} onChange={(e) => updateDraft({ explanation: e.target.value })} className={inputClass} />
+                  <FieldError message={fieldErrs.explanation} />
+                </div>
+                <div className="flex items-center gap-6">
+                  <select
+                    value={draft.difficulty}
+                    onChange={(e) => updateDraft({ difficulty: e.target.value as QuestionEdit['difficulty'] })}
+                    className={`${inputClass} max-w-48`}
+                  >
+                    {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                  </select>
+                  <label className="flex items-center gap-3 text-sm text-white/50 font-light">
+                    <input type="checkbox" checked={draft.is_important} onChange={(e) => updateDraft({ is_important: e.target.checked })} />
+                    Important
+                  </label>
+                </div>
+              </fieldset>
+
+              {error && (
+                <div className="flex items-center gap-3 p-5 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm font-light">
+                  <AlertCircle className="h-4 w-4 shrink-0" /> {error}
+                </div>
+              )}
+              {success && (
+                <div className="flex items-center gap-3 p-5 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm font-light">
+                  <CheckCircle2 className="h-4 w-4 shrink-0" /> {success}
+                </div>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-4">
+                {selected.deleted_at ? (
+                  <button
+                    onClick={() => change(() => api.questions.restore(selected.id), 'Restored. The question can be drawn for tests again.')}
+                    disabled={saving}
+                    className="flex-1 flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-50 transition-all"
+                  >
+                    <RotateCcw className="h-4 w-4" /> Restore
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => change(() => api.questions.update(selected.id, draft), 'Saved. New tests will use the edited question.')}
+                      disabled={saving}
+                      className="flex-1 flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-50 transition-all"
+                    >
+                      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                      Save Changes
+                    </button>
+                    {/* Approving a flagged question accepts its answer key as it stands */}
+                    {(selected.approval !== 'approved' || selected.verification === 'needs_review') && (
+                      <button
+                        onClick={() => change(() => api.questions.approve({ ids: [selected.id] }), 'Approved. The question can be drawn for tests.')}
+                        disabled={saving}
+                        className="flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-emerald-500/10 text-emerald-400 font-black text-[10px] uppercase tracking-widest hover:bg-emerald-500/20 disabled:opacity-50 transition-all"
+                      >
+                        <Check className="h-4 w-4" /> Approve
+                      </button>
+                    )}
+                    {selected.approval !== 'rejected' && (
+                      <button
+                        onClick={() => change(() => api.questions.reject({ ids: [selected.id] }), 'Rejected. The question will not be drawn for tests.')}
+                        disabled={saving}
+                        className="flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-white/5 text-white/40 font-black text-[10px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 disabled:opacity-50 transition-all"
+                      >
+                        <X className="h-4 w-4" /> Reject
+                      </button>
+                    )}
+                    <button
+                      onClick={() => confirm('Delete this question? It can be restored later.') &&
+                        change(() => api.questions.remove(selected.id), 'Deleted. The question is no longer drawn for tests.')}
+                      disabled={saving}
+                      className="flex items-center justify-center gap-3 px-8 py-5 rounded-full bg-white/5 text-white/40 font-black text-[10px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 transition-all"
+                    >
+                      <Trash2 className="h-4 w-4" /> Delete
+                    </button>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <h4 className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20 flex items-center gap-2">
+                  <History className="h-3 w-3" /> History
+                </h4>
+                {history.length === 0 && <p className="text-white/20 text-sm font-light">No changes yet.</p>}
+                {history.map(r => (
+                  <div key={r.id} className="flex items-center justify-between gap-4 p-4 rounded-2xl bg-white/5 text-sm font-light">
+                    <div className="min-w-0">
+                      <p className="text-white/70">
+                        {ACTION_LABELS[r.action]}{changedFields(r) ? `: ${changedFields(r)}` : ''}
+                      </p>
+                      <p className="text-[10px] text-white/20 uppercase tracking-widest font-bold mt-1">
+                        {r.editor_name ?? 'Unknown'} · {new Date(r.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {r.before && !selected.deleted_at && (
+                      <button
+                        onClick={() => change(() => api.questions.revert(selected.id, r.id), 'Reverted to the question as it was before that change.')}
+                        disabled={saving}
+                        className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-indigo-400 hover:text-indigo-300 disabled:opacity-50 transition-colors shrink-0"
+                      >
+                        <RotateCcw className="h-3 w-3" /> Revert
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-red-500 text-[10px] font-bold uppercase tracking-widest">{message}</p>;
+}
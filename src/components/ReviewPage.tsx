@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'motion/react';
+import ReactMarkdown from 'react-markdown';
+import { ReviewQueue } from '../types';
+import { api } from '../services/api';
+import { Repeat, HelpCircle, Trash2, CheckCircle2, Loader2 } from 'lucide-react';
+
+// Self-grades mapped onto SM-2's 0-5 recall scale
+const GRADES = [
+  { label: 'Again', grade: 1, className: 'hover:bg-red-500 hover:border-red-500' },
+  { label: 'Hard', grade: 3, className: 'hover:bg-amber-500 hover:border-amber-500' },
+  { label: 'Good', grade: 4, className: 'hover:bg-indigo-500 hover:border-indigo-500' },
+  { label: 'Easy', grade: 5, className: 'hover:bg-emerald-500 hover:border-emerald-500' },
+];
+
+// Serves due review cards one at a time: answer, reveal, then grade your recall
+export default function ReviewPage() {
+  const [queue, setQueue] = useState<ReviewQueue | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadNext = async () => {
+    try {
+      setQueue(await api.review.next());
+      setSelected(null);
+      setRevealed(false);
+    } catch (err) {
+      console.error("Failed to fetch review card:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadNext();
+  }, []);
+
+  const grade = async (value: number) => {
+    if (!queue?.card || busy) return;
+    setBusy(true);
+    try {
+      await api.review.grade(queue.card.id, value);
+      await loadNext();
+    } catch (err) {
+      console.error("Failed to grade card:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!queue?.card || busy) return;
+    setBusy(true);
+    try {
+      await api.review.remove(queue.card.id);
+      await loadNext();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!queue) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-10 w-10 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const card = queue.card;
+  const question = card?.question;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-12 pb-32">
+      <div className="space-y-4">
+        <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 text-white/40 text-[10px] font-bold uppercase tracking-[0.2em]">
+          {queue.due} due · {queue.total} in queue
+        </div>
+        <h1 className="text-6xl font-light text-white tracking-tight flex items-center gap-6">
+          <Repeat className="h-12 w-12 text-indigo-500" />
+          Review
+        </h1>
+        <p className="text-white/30 font-light tracking-tight">Questions you missed or bookmarked, spaced out until they stick.</p>
+      </div>
+
+      {card && question ? (
+        <motion.div
+          key={card.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white/[0.02] rounded-[3rem] border border-white/5 p-10 sm:p-12 space-y-10"
+        >
+          <div className="flex items-start justify-between gap-6">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="px-3 py-1 bg-white/5 text-white/40 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                {question.subject}
+              </span>
+              {question.topic && (
+                <span className="px-3 py-1 bg-white/5 text-white/20 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                  {question.topic}
+                </span>
+              )}
+              <span className="px-3 py-1 bg-indigo-500/10 text-indigo-400 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                {card.source === 'missed' ? 'Missed' : 'Bookmarked'}
+              </span>
+            </div>
+            <button
+              onClick={remove}
+              title="Remove from queue"
+              className="p-3 text-white/10 hover:text-red-500 hover:bg-red-500/10 rounded-2xl transition-all shrink-0"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          </div>
+
+          <p className="text-2xl font-light text-white leading-tight tracking-tight">{question.text}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {question.options.map((option, idx) => {
+              const tone = !revealed
+                ? selected === idx ? 'bg-white/10 border-white/40 text-white' : 'bg-white/5 border-white/5 text-white/50 hover:bg-white/10'
+                : idx === question.correctAnswer ? 'bg-emerald-500/10 border-emerald-500 text-emerald-500'
+                : idx === selected ? 'bg-red-500/10 border-red-500 text-red-500'
+                : 'bg-white/5 border-white/5 text-white/30';
+              return (
+                <button
+                  key={idx}
+                  disabled={revealed}
+                  onClick={() => setSelected(idx)}
+                  className={`p-6 rounded-[2rem] border-2 flex items-center gap-5 text-left transition-all ${tone}`}
+                >
+                  <span className="h-9 w-9 flex items-center justify-center rounded-xl font-black text-sm shrink-0 bg-white/5">
+                    {String.fromCharCode(65 + idx)}
+                  </span>
+                  <span className="font-light text-lg tracking-tight">{option}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {revealed ? (
+            <div className="space-y-10">
+              <div className="space-y-4">
+                <div className="flex items-center gap-3 text-indigo-400 font-bold text-[10px] uppercase tracking-widest">
+                  <HelpCircle className="h-5 w-5" />
+                  Explanation
+                </div>
+                <div className="prose prose-invert max-w-none text-white/60 text-lg leading-relaxed font-light">
+                  <ReactMarkdown>{question.explanation}</ReactMarkdown>
+                </div>
+              </div>
+              <div className="space-y-4">
+                <p className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/30">How well did you recall it?</p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {GRADES.map(g => (
+                    <button
+                      key={g.label}
+                      disabled={busy}
+                      onClick={() => grade(g.grade)}
+                      className={`py-4 rounded-2xl border border-white/10 bg-white/5 text-white font-black text-[10px] uppercase tracking-[0.2em] transition-all disabled:opacity-50 ${g.className}`}
+                    >
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setRevealed(true)}
+              className="w-full bg-white text-black py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-indigo-500 hover:text-white transition-all"
+            >
+              {selected === null ? 'Show Answer' : 'Check Answer'}
+            </button>
+          )}
+        </motion.div>
+      ) : (
+        <div className="text-center py-32 bg-white/[0.02] rounded-[4rem] border border-white/5 border-dashed">
+          <div className="p-8 bg-white/5 rounded-full w-24 h-24 flex items-center justify-center mx-auto mb-10">
+            <CheckCircle2 className="h-10 w-10 text-emerald-500/50" />
+          </div>
+          <h3 className="text-3xl font-light text-white mb-4 tracking-tight">All caught up</h3>
+          <p className="text-white/30 max-w-sm mx-auto font-light">
+            {queue.total
+              ? 'Nothing is due right now. Cards come back as their intervals run out.'
+              : 'Questions you get wrong in tests, and questions you bookmark, will show up here.'}
+          </p>
+          <Link
+            to="/dashboard"
+            className="inline-block mt-8 text-indigo-400 font-bold text-[10px] uppercase tracking-widest hover:text-white transition-colors"
+          >
+            Back to Dashboard
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
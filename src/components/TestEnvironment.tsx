@@ -1,6 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Question, Subject } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { IssuedQuestion, QuestionSource, Subject, TestAttemptDetail, TestSection, TestSessionState, ScoringScheme } from '../types';
 import { generateQuestions } from '../services/gemini';
 import { api } from '../services/api';
 import { 
@@ -23,138 +23,268 @@ import { motion, AnimatePresence } from 'motion/react';
 import ReactMarkdown from 'react-markdown';
 
 export default function TestEnvironment() {
-  const { type, subject } = useParams<{ type: 'Full' | 'Subject', subject?: string }>();
+  const { type, subject } = useParams<{ type: 'Full' | 'Subject' | 'Adaptive', subject?: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
-  const [questions, setQuestions] = useState<(Question | null)[]>([]);
+  const [questions, setQuestions] = useState<(IssuedQuestion | null)[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<number, number>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [result, setResult] = useState<TestAttemptDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadingNext, setLoadingNext] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(0);
-  const [startTime] = useState(Date.now());
+  // Seconds until the deadline; null until the clock has started
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
   const [bookmarked, setBookmarked] = useState<Record<number, boolean>>({});
-  const [currentWindow, setCurrentWindow] = useState(0);
+  // The paper's sections, as laid out by the server from the exam blueprint
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const sessionId = useRef<number | null>(null);
+  // Wall-clock time the test ends, from the server's deadline when resuming
+  const deadline = useRef<number | null>(null);
+  const timeSpent = useRef<Record<number, number>>({});
+  const questionShownAt = useRef(Date.now());
+  // The latest autosave, which an adaptive test waits on before picking the
+  // next question from the answers
+  const pendingSave = useRef<Promise<unknown>>(Promise.resolve());
+  // A test picked up from the dashboard or after a refresh; read once, since
+  // a new test writes its own id into the URL
+  const resumeId = useRef(Number(searchParams.get('session')) || null);
+  // Syllabus topics a new subject test is narrowed to, from the topic picker
+  const topics = useRef(searchParams.getAll('topic'));
+  // Bank mode draws a new test from the static question pool up front
+  const source = useRef<QuestionSource>(searchParams.get('source') === 'bank' ? 'bank' : 'ai');
+  // Whether any question has been issued, so a failed batch need not end the test
+  const hasQuestions = useRef(false);
+  // Set when some positions could not be generated and stay locked
+  const [shortfall, setShortfall] = useState(false);
 
   const testSubject = subject ? decodeURIComponent(subject) as Subject : 'Full';
-  const totalQuestionsCount = type === 'Full' ? 200 : 30;
+  const adaptive = type === 'Adaptive';
 
-  const loadWindow = useCallback(async (windowIdx: number) => {
+  // Issues the rest of one section, skipping the questions it already has
+  const loadSection = useCallback(async (
+    session: TestSessionState,
+    section: TestSection,
+    issued: number,
+    isCancelled: () => boolean
+  ) => {
+    const first = section.start === 0;
     try {
-      if (windowIdx === 0) {
-        setLoading(true);
-        // Initialize placeholders
-        setQuestions(new Array(totalQuestionsCount).fill(null));
-      } else {
-        setLoadingNext(true);
-      }
+      if (!first) setLoadingNext(true);
 
-      const count = type === 'Full' ? 50 : 30;
-      const startOffset = windowIdx * 50;
-      
-      // Fetch AI questions incrementally
+      // The server generates each batch, keeps its answer keys and hands back
+      // the questions with their positions in the paper
       await generateQuestions(
-        testSubject, 
-        count, 
-        windowIdx,
+        session.id,
+        section.start + issued,
+        section.questions - issued,
         (batch) => {
+          if (isCancelled()) return;
+          hasQuestions.current = true;
           setQuestions(prev => {
             const next = [...prev];
-            batch.forEach((q, i) => {
-              const targetIdx = startOffset + (next.filter((item, idx) => idx < startOffset + i && item !== null).length);
-              // Find the first null after startOffset
-              let firstNull = startOffset;
-              while (next[firstNull] !== null && firstNull < next.length) firstNull++;
-              if (firstNull < next.length) next[firstNull] = q;
+            batch.forEach(q => {
+              if (q.position < next.length) next[q.position] = q;
             });
             return next;
           });
-          if (windowIdx === 0) setLoading(false);
+          // The server starts the clock when it issues the first questions
+          if (deadline.current === null) deadline.current = Date.now() + session.time_limit_seconds * 1000;
+          setLoading(false);
         }
       );
-      
-      if (windowIdx === 0) {
-        setTimeLeft(type === 'Full' ? 180 * 60 : count * 60); 
-      } else {
+      if (isCancelled()) return;
+      if (!first) setLoadingNext(false);
+    } catch (err: any) {
+      console.error(err);
+      if (isCancelled()) return;
+      // A test that already has questions carries on without the ones that
+      // could not be generated; they are left out of its marks
+      if (hasQuestions.current) {
         setLoadingNext(false);
+        setShortfall(true);
+        return;
       }
-    } catch (err) {
-      console.error(err);
-      alert("Failed to load questions. Please try again.");
+      alert(err.status === 429 ? err.message : "Failed to load questions. Please try again.");
       navigate('/dashboard');
     }
-  }, [type, testSubject, navigate, totalQuestionsCount]);
+  }, [navigate]);
+
+  // Adaptive tests are issued one question at a time, each picked by the
+  // server from the answers before it
+  const issueAdaptive = useCallback(async (id: number, isCancelled: () => boolean) => {
+    setLoadingNext(true);
+    try {
+      const { question } = await api.ai.adaptiveQuestion(id);
+      if (isCancelled()) return false;
+      setQuestions(prev => {
+        const next = [...prev];
+        if (question.position < next.length) next[question.position] = question;
+        return next;
+      });
+      return true;
+    } catch (err: any) {
+      console.error(err);
+      if (!isCancelled()) alert(err.status === 429 ? err.message : "Failed to load the next question. Please try again.");
+      return false;
+    } finally {
+      if (!isCancelled()) setLoadingNext(false);
+    }
+  }, []);
 
   useEffect(() => {
+    let cancelled = false;
+    const isCancelled = () => cancelled;
+
     const loadAll = async () => {
-      if (type === 'Full') {
-        for (let i = 0; i < 4; i++) {
-          await loadWindow(i);
+      let state: TestSessionState;
+      if (resumeId.current !== null) {
+        try {
+          state = await api.tests.getSession(resumeId.current);
+        } catch (err) {
+          console.error(err);
+          if (cancelled) return;
+          alert("This test can no longer be resumed.");
+          navigate('/dashboard');
+          return;
         }
       } else {
-        await loadWindow(0);
+        try {
+          const chosen = topics.current.length ? topics.current : undefined;
+          state = await api.tests.startSession(
+            type === 'Full' ? { test_type: 'Full', source: source.current }
+            : adaptive ? { test_type: 'Adaptive', subject: testSubject as Subject, topics: chosen }
+            : { test_type: 'Subject', subject: testSubject as Subject, topics: chosen, source: source.current }
+          );
+        } catch (err) {
+          console.error(err);
+          if (cancelled) return;
+          alert("Failed to start the test. Please try again.");
+          navigate('/dashboard');
+          return;
+        }
+        if (cancelled) return;
+        // Keep the session in the URL so a refresh resumes it
+        resumeId.current = state.id;
+        setSearchParams({ session: String(state.id) }, { replace: true });
+      }
+      if (cancelled) return;
+      sessionId.current = state.id;
+
+      const placeholders: (IssuedQuestion | null)[] = new Array(state.total_questions).fill(null);
+      state.questions.forEach(q => {
+        if (q.position < placeholders.length) placeholders[q.position] = q;
+      });
+      setQuestions(placeholders);
+      setSections(state.sections);
+      setAnswers(state.answers);
+      timeSpent.current = Object.fromEntries(Object.entries(state.time_spent).map(([p, secs]) => [p, secs * 1000]));
+      if (state.remaining_seconds !== null) deadline.current = Date.now() + state.remaining_seconds * 1000;
+      if (state.questions.length > 0) {
+        hasQuestions.current = true;
+        setLoading(false);
+      }
+
+      if (adaptive) {
+        if (state.questions.length === 0) {
+          if (!(await issueAdaptive(state.id, isCancelled))) {
+            if (!cancelled) navigate('/dashboard');
+            return;
+          }
+          // The server starts the clock when it issues the first question
+          if (deadline.current === null) deadline.current = Date.now() + state.time_limit_seconds * 1000;
+          setLoading(false);
+        }
+        // Earlier answers are locked, so pick up at the latest question
+        setCurrentIndex(Math.max(0, state.questions.length - 1));
+        return;
+      }
+
+      for (const section of state.sections) {
+        if (cancelled) break;
+        const issued = state.questions.filter(q => q.position >= section.start && q.position < section.start + section.questions).length;
+        if (issued < section.questions) await loadSection(state, section, issued, isCancelled);
       }
     };
     loadAll();
-  }, [loadWindow, type]);
+    return () => { cancelled = true; };
+  }, [loadSection, issueAdaptive, adaptive, type, testSubject, navigate]);
 
-  useEffect(() => {
-    if (type === 'Full') {
-      setCurrentWindow(Math.floor(currentIndex / 50));
-    }
-  }, [currentIndex, type]);
+  const currentSection = sections.findIndex(s => currentIndex >= s.start && currentIndex < s.start + s.questions);
 
-  const isWindowComplete = (windowIdx: number) => {
-    const start = windowIdx * 50;
-    const end = Math.min((windowIdx + 1) * 50, questions.length);
-    for (let i = start; i < end; i++) {
-      if (answers[i] === undefined) return false;
-    }
-    return true;
-  };
+  // Accumulate time spent on each question while it is on screen
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+    return () => {
+      timeSpent.current[currentIndex] = (timeSpent.current[currentIndex] || 0) + (Date.now() - questionShownAt.current);
+    };
+  }, [currentIndex]);
 
+  // Count down from the deadline rather than by ticks, so the clock stays
+  // right across a refresh or a throttled background tab
   useEffect(() => {
-    if (loading || isSubmitted || timeLeft <= 0) return;
-    const timer = setInterval(() => {
-      setTimeLeft(prev => prev - 1);
-    }, 1000);
+    if (loading || isSubmitted) return;
+    const tick = () => {
+      if (deadline.current !== null) {
+        setTimeLeft(Math.max(0, Math.ceil((deadline.current - Date.now()) / 1000)));
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
     return () => clearInterval(timer);
-  }, [loading, isSubmitted, timeLeft]);
+  }, [loading, isSubmitted]);
 
   useEffect(() => {
     if (timeLeft === 0 && !isSubmitted && !loading) {
       handleSubmit();
     }
-  }, [timeLeft]);
+  }, [timeLeft, loading]);
 
   const handleSubmit = useCallback(async () => {
+    if (sessionId.current === null) return;
     setIsSubmitted(true);
-    const validQuestions = questions.filter((q): q is Question => q !== null);
-    const score = validQuestions.reduce((acc, q, idx) => {
-      return acc + (answers[idx] === q.correctAnswer ? 1 : 0);
-    }, 0);
 
-    const duration = Math.floor((Date.now() - startTime) / 1000 / 60);
+    const seconds: Record<number, number> = {};
+    questions.forEach((q, idx) => {
+      if (!q) return;
+      let spent = timeSpent.current[idx] || 0;
+      if (idx === currentIndex) spent += Date.now() - questionShownAt.current;
+      seconds[idx] = Math.round(spent / 1000);
+    });
 
     try {
-      await api.tests.save({
-        test_type: type as 'Full' | 'Subject',
-        subject: testSubject === 'Full' ? undefined : testSubject,
-        score,
-        total: validQuestions.length,
-        duration
-      });
+      // The server grades the attempt against its own answer keys
+      const graded = await api.tests.submit(sessionId.current, { answers, time_spent: seconds });
+      setResult(graded);
     } catch (err) {
       console.error("Failed to save test result", err);
     }
-  }, [answers, questions, startTime, type, testSubject]);
+  }, [answers, questions, currentIndex]);
+
+  // Record the answer locally and autosave it so a refresh does not lose it
+  const selectAnswer = (idx: number, option: number) => {
+    setAnswers(prev => ({ ...prev, [idx]: option }));
+    if (sessionId.current === null) return;
+    const spent = (timeSpent.current[idx] || 0) + (idx === currentIndex ? Date.now() - questionShownAt.current : 0);
+    pendingSave.current = api.tests.saveAnswer(sessionId.current, idx, { selected_option: option, time_spent: Math.round(spent / 1000) })
+      .catch(err => console.error("Failed to autosave answer", err));
+  };
+
+  // Moving on from the latest question of an adaptive test issues the next one
+  const goNext = async () => {
+    if (adaptive && !isSubmitted && questions[currentIndex] && questions[currentIndex + 1] === null && sessionId.current !== null) {
+      await pendingSave.current;
+      if (!(await issueAdaptive(sessionId.current, () => false))) return;
+    }
+    setCurrentIndex(prev => Math.min(questions.length - 1, prev + 1));
+  };
 
   const handleBookmark = async (idx: number) => {
     const q = questions[idx];
-    if (!q) return;
+    if (!q || sessionId.current === null) return;
     try {
-      await api.bookmarks.add(q);
+      await api.bookmarks.addFromSession(sessionId.current, q.position);
       setBookmarked(prev => ({ ...prev, [idx]: true }));
     } catch (err) {
       console.error(err);
@@ -189,13 +319,17 @@ export default function TestEnvironment() {
           />
         </div>
         <p className="text-[10px] text-white/20 font-bold uppercase tracking-[0.3em] relative z-10">
-          Preparing Environment • Do not refresh
+          Preparing Environment • Progress is saved automatically
         </p>
       </div>
     );
   }
 
   const currentQuestion = questions[currentIndex];
+  // In an adaptive test a later question was picked using this answer
+  const answerLocked = adaptive && !!questions[currentIndex + 1];
+  const gradedItems = new Map((result?.items ?? []).map(item => [item.position, item]));
+  const currentGraded = gradedItems.get(currentIndex);
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -215,16 +349,16 @@ export default function TestEnvironment() {
               <ChevronLeft className="h-5 w-5" />
             </button>
             <div className="space-y-1">
-              <p className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20">Examination Module</p>
+              <p className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/20">{adaptive ? 'Adaptive Practice' : 'Examination Module'}</p>
               <h2 className="text-4xl font-light text-white tracking-tight">{type === 'Full' ? 'Full Mock Test' : testSubject}</h2>
             </div>
           </div>
         </div>
 
         <div className="flex items-center gap-8">
-          <div className={`flex items-center gap-4 px-8 py-4 rounded-3xl border ${timeLeft < 300 ? 'bg-red-500/10 border-red-500/20 text-red-500 animate-pulse' : 'bg-white/5 border-white/10 text-white'}`}>
+          <div className={`flex items-center gap-4 px-8 py-4 rounded-3xl border ${timeLeft !== null && timeLeft < 300 ? 'bg-red-500/10 border-red-500/20 text-red-500 animate-pulse' : 'bg-white/5 border-white/10 text-white'}`}>
             <Clock className="h-5 w-5 opacity-40" />
-            <span className="text-2xl font-light tracking-tighter">{formatTime(timeLeft)}</span>
+            <span className="text-2xl font-light tracking-tighter">{formatTime(timeLeft ?? 0)}</span>
           </div>
           {!isSubmitted && (
             <button
@@ -254,9 +388,16 @@ export default function TestEnvironment() {
                 <>
                   <div className="flex justify-between items-start mb-12">
                     <div className="space-y-2">
-                      <span className="px-3 py-1 bg-white/5 text-white/40 text-[10px] font-bold rounded-full uppercase tracking-widest">
-                        {currentQuestion.difficulty}
-                      </span>
+                      <div className="flex flex-wrap gap-2">
+                        <span className="px-3 py-1 bg-white/5 text-white/40 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                          {currentQuestion.difficulty}
+                        </span>
+                        {currentQuestion.topic && (
+                          <span className="px-3 py-1 bg-indigo-500/10 text-indigo-400 text-[10px] font-bold rounded-full uppercase tracking-widest">
+                            {currentQuestion.topic}
+                          </span>
+                        )}
+                      </div>
                       <p className="text-[10px] uppercase tracking-widest font-bold text-white/20">Question {currentIndex + 1} of {questions.length}</p>
                     </div>
                     <button 
@@ -275,8 +416,8 @@ export default function TestEnvironment() {
                   <div className="grid grid-cols-1 gap-4 mt-auto">
                     {currentQuestion.options.map((option, idx) => {
                       const isSelected = answers[currentIndex] === idx;
-                      const isCorrect = currentQuestion.correctAnswer === idx;
-                      const showResult = isSubmitted;
+                      const isCorrect = currentGraded?.correct_option === idx;
+                      const showResult = !!currentGraded;
 
                       let variant = "default";
                       if (showResult) {
@@ -289,8 +430,8 @@ export default function TestEnvironment() {
                       return (
                         <button
                           key={idx}
-                          disabled={isSubmitted}
-                          onClick={() => setAnswers({ ...answers, [currentIndex]: idx })}
+                          disabled={isSubmitted || answerLocked}
+                          onClick={() => selectAnswer(currentIndex, idx)}
                           className={`w-full text-left p-8 rounded-[2rem] border-2 transition-all flex items-center gap-8 group ${
                             variant === 'correct' ? 'bg-emerald-500/10 border-emerald-500 text-emerald-500' :
                             variant === 'incorrect' ? 'bg-red-500/10 border-red-500 text-red-500' :
@@ -314,7 +455,7 @@ export default function TestEnvironment() {
                     })}
                   </div>
 
-                  {isSubmitted && (
+                  {currentGraded && (
                     <motion.div 
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -325,7 +466,7 @@ export default function TestEnvironment() {
                         Explanation
                       </div>
                       <div className="prose prose-invert max-w-none text-white/60 leading-relaxed font-light">
-                        <ReactMarkdown>{currentQuestion.explanation}</ReactMarkdown>
+                        <ReactMarkdown>{currentGraded.question_data.explanation}</ReactMarkdown>
                       </div>
                     </motion.div>
                   )}
@@ -341,7 +482,9 @@ export default function TestEnvironment() {
                   <div className="space-y-2">
                     <h3 className="text-2xl font-light text-white tracking-tight">Question Locked</h3>
                     <p className="text-white/20 font-light text-sm max-w-xs mx-auto">
-                      AI is still generating this question. Please answer the previous questions while you wait.
+                      {adaptive
+                        ? 'This question is picked once you move on from the one before it.'
+                        : 'AI is still generating this question. Please answer the previous questions while you wait.'}
                     </p>
                   </div>
                 </div>
@@ -360,8 +503,8 @@ export default function TestEnvironment() {
             </button>
 
             <button
-              onClick={() => setCurrentIndex(prev => Math.min(questions.length - 1, prev + 1))}
-              disabled={currentIndex === questions.length - 1}
+              onClick={goNext}
+              disabled={currentIndex === questions.length - 1 || loadingNext}
               className="w-full sm:w-auto flex items-center gap-3 px-10 py-5 rounded-full font-bold text-[10px] uppercase tracking-widest text-white/40 hover:text-white hover:bg-white/5 transition-all disabled:opacity-10"
             >
               Next <ChevronRight className="h-4 w-4" />
@@ -382,9 +525,14 @@ export default function TestEnvironment() {
                   </div>
                 )}
               </div>
-              {type === 'Full' && (
+              {shortfall && (
+                <p className="text-[10px] text-amber-400 font-bold uppercase tracking-widest leading-relaxed">
+                  Some questions could not be generated. They stay locked and do not count towards your marks.
+                </p>
+              )}
+              {sections.length > 1 && currentSection >= 0 && (
                 <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-500/10 text-indigo-500 text-[10px] font-bold uppercase tracking-widest">
-                  Window {currentWindow + 1}/4
+                  Section {currentSection + 1}/{sections.length} · {sections[currentSection].name}
                 </div>
               )}
             </div>
@@ -393,8 +541,9 @@ export default function TestEnvironment() {
                 const isAnswered = answers[idx] !== undefined;
                 const isCurrent = currentIndex === idx;
                 const isLocked = q === null;
-                const isCorrect = isSubmitted && q && answers[idx] === q.correctAnswer;
-                const isWrong = isSubmitted && q && answers[idx] !== undefined && answers[idx] !== q.correctAnswer;
+                const graded = gradedItems.get(idx);
+                const isCorrect = graded && graded.selected_option === graded.correct_option;
+                const isWrong = graded && graded.selected_option !== null && graded.selected_option !== graded.correct_option;
 
                 return (
                   <button
@@ -430,7 +579,7 @@ export default function TestEnvironment() {
               </div>
               <div className="flex items-center gap-4 text-[10px] font-bold uppercase tracking-widest text-white/20">
                 <Lock className="h-3 w-3 text-white/5" />
-                <span>Locked (AI Generating)</span>
+                <span>{adaptive ? 'Locked (Picked Next)' : 'Locked (AI Generating)'}</span>
               </div>
               {isSubmitted && (
                 <>
@@ -447,19 +596,49 @@ export default function TestEnvironment() {
             </div>
           </div>
 
-          {isSubmitted && (
+          {result && (
             <div className="bg-indigo-500/10 border border-indigo-500/20 p-10 rounded-[3rem] space-y-8">
               <h4 className="text-xl font-light text-white tracking-tight">Test Summary</h4>
               <div className="space-y-4">
                 <div className="flex justify-between items-end">
-                  <span className="text-[10px] uppercase tracking-widest font-bold text-white/20">Score</span>
-                  <span className="text-2xl font-light text-white tracking-tighter">{questions.reduce((acc, q, idx) => acc + (answers[idx] === q.correctAnswer ? 1 : 0), 0)}/{questions.length}</span>
+                  <span className="text-[10px] uppercase tracking-widest font-bold text-white/20">Marks</span>
+                  <span className="text-2xl font-light text-white tracking-tighter">{result.marks}/{result.max_marks}</span>
+                </div>
+                <div className="flex justify-between items-end">
+                  <span className="text-[10px] uppercase tracking-widest font-bold text-white/20">Correct</span>
+                  <span className="text-2xl font-light text-white tracking-tighter">{result.score}/{result.total}</span>
                 </div>
                 <div className="flex justify-between items-end">
                   <span className="text-[10px] uppercase tracking-widest font-bold text-white/20">Accuracy</span>
-                  <span className="text-2xl font-light text-white tracking-tighter">{Math.round((questions.reduce((acc, q, idx) => acc + (answers[idx] === q.correctAnswer ? 1 : 0), 0) / questions.length) * 100)}%</span>
+                  <span className="text-2xl font-light text-white tracking-tighter">{result.total ? Math.round((result.score / result.total) * 100) : 0}%</span>
                 </div>
+                {result.ability && (
+                  <div className="flex justify-between items-end">
+                    <span className="text-[10px] uppercase tracking-widest font-bold text-white/20">Ability</span>
+                    <span className="text-2xl font-light text-white tracking-tighter">
+                      {result.ability.level} <span className="text-sm text-white/40">θ {result.ability.theta.toFixed(2)}</span>
+                    </span>
+                  </div>
+                )}
+                {result.scoring && (
+                  <p className="text-[10px] uppercase tracking-widest font-bold text-white/30">{describeScoring(result.scoring)}</p>
+                )}
               </div>
+              {result.sections && result.sections.length > 1 && (
+                <div className="space-y-3 pt-6 border-t border-white/5">
+                  {result.sections.map(s => (
+                    <div key={s.name} className="flex justify-between items-end gap-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-light text-white/70 truncate">{s.name}{s.weight !== 1 && ` ×${s.weight}`}</p>
+                        <p className="text-[10px] uppercase tracking-widest font-bold text-white/20">
+                          {s.correct} Right · {s.wrong} Wrong · {s.unattempted} Skipped
+                        </p>
+                      </div>
+                      <span className="text-lg font-light text-white tracking-tighter shrink-0">{s.marks}/{s.max_marks}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <button
                 onClick={() => navigate('/dashboard')}
                 className="w-full py-4 bg-white text-black rounded-full font-black text-[10px] uppercase tracking-widest hover:scale-105 transition-all"
@@ -473,3 +652,10 @@ export default function TestEnvironment() {
     </div>
   );
 }
+
+// e.g. "+4 per correct · −1 per wrong"
+function describeScoring({ correct, wrong, unattempted }: ScoringScheme) {
+  const parts = [`+${correct} per correct`, wrong ? `−${wrong} per wrong` : 'No negative marking'];
+  if (unattempted) parts.push(`${unattempted > 0 ? '+' : '−'}${Math.abs(unattempted)} per skipped`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Subject, SyllabusUnit } from '../types';
+import { api } from '../services/api';
+import { X, Play, Loader2, Gauge, Database } from 'lucide-react';
+
+// A test generated as it runs, one drawn from the question bank up front, or
+// an adaptive one
+export type PracticeMode = 'ai' | 'bank' | 'adaptive';
+
+interface TopicPickerProps {
+  subject: Subject;
+  onClose: () => void;
+  // Called with the chosen topics, or none for the whole syllabus
+  onStart: (topics: string[], mode: PracticeMode) => void;
+}
+
+// Narrows a subject test to chosen syllabus topics before it starts
+export default function TopicPicker({ subject, onClose, onStart }: TopicPickerProps) {
+  const [units, setUnits] = useState<SyllabusUnit[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api.syllabus.get()
+      .then(syllabus => setUnits(syllabus.find(s => s.subject === subject)?.units ?? []))
+      .catch(err => console.error("Failed to fetch syllabus:", err))
+      .finally(() => setLoading(false));
+  }, [subject]);
+
+  const toggle = (topics: string[]) => {
+    const allOn = topics.every(t => selected.includes(t));
+    setSelected(prev => allOn ? prev.filter(t => !topics.includes(t)) : [...new Set([...prev, ...topics])]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed top-0 left-0 w-full h-full z-[100] flex items-center justify-center p-4 sm:p-6 bg-black/90 backdrop-blur-xl overflow-y-auto"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="bg-zinc-900 border border-white/10 rounded-[3.5rem] shadow-[0_0_100px_rgba(0,0,0,0.5)] w-full max-w-2xl relative overflow-hidden my-auto"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-colors z-10"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <div className="p-10 sm:p-14 space-y-10">
+          <div className="space-y-2">
+            <h2 className="text-3xl font-light text-white tracking-tight">{subject}</h2>
+            <p className="text-white/30 font-light text-sm">Pick the topics to practise, or start on the whole syllabus.</p>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 text-indigo-500 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-8 max-h-[50vh] overflow-y-auto custom-scrollbar pr-2">
+              {units.map(unit => (
+                <div key={unit.name} className="space-y-3">
+                  <button
+                    onClick={() => toggle(unit.topics)}
+                    className="text-[10px] uppercase tracking-[0.3em] font-bold text-white/30 hover:text-white transition-colors"
+                  >
+                    {unit.name}
+                  </button>
+                  <div className="flex flex-wrap gap-2">
+                    {unit.topics.map(topic => (
+                      <button
+                        key={topic}
+                        onClick={() => toggle([topic])}
+                        className={`px-4 py-2 rounded-full text-xs font-light transition-all border ${
+                          selected.includes(topic)
+                            ? 'bg-indigo-500 border-indigo-500 text-white'
+                            : 'bg-white/5 border-white/5 text-white/50 hover:bg-white/10'
+                        }`}
+                      >
+                        {topic}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button
+              onClick={() => onStart(selected, 'ai')}
+              className="w-full bg-white text-black py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-indigo-500 hover:text-white transition-all flex items-center justify-center gap-3"
+            >
+              <Play className="h-4 w-4 fill-current" />
+              {selected.length ? `Start on ${selected.length} Topic${selected.length === 1 ? '' : 's'}` : 'Start on All Topics'}
+            </button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <button
+                onClick={() => onStart(selected, 'bank')}
+                title="Starts instantly from the question bank, generating only what it is missing"
+                className="w-full bg-white/5 border border-white/10 text-white py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-white/10 transition-all flex items-center justify-center gap-3"
+              >
+                <Database className="h-4 w-4" />
+                From Question Bank
+              </button>
+              <button
+                onClick={() => onStart(selected, 'adaptive')}
+                title="Questions get harder or easier as you answer, focusing on your weakest topics"
+                className="w-full bg-white/5 border border-white/10 text-white py-5 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-white/10 transition-all flex items-center justify-center gap-3"
+              >
+                <Gauge className="h-4 w-4" />
+                Adaptive Practice
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { Question, Subject, SUBJECTS, DEFAULT_SCORING, DUPLICATE_THRESHOLD } from "./types";
+
+// Request body and query schemas, used by the server's validation middleware and as the
+// source of the request types in types.ts. Messages are shown to users as-is.
+
+const subjectSchema = z.enum(SUBJECTS as [Subject, ...Subject[]], { error: "Choose a valid subject" });
+const difficultySchema = z.enum(["Easy", "Medium", "Hard"], { error: "Choose Easy, Medium or Hard" });
+const optionIndexSchema = z.number({ error: "Must be an option index" }).int().min(0).max(3, "Must be an option index from 0 to 3");
+
+const emailSchema = z.string({ error: "Email is required" }).trim().pipe(z.email("Enter a valid email address"));
+const newPasswordSchema = z.string({ error: "Password is required" }).min(8, "Password must be at least 8 characters").max(200, "Password is too long");
+const tokenSchema = z.string({ error: "Token is required" }).min(1, "Token is required");
+
+export const questionSchema = z.object({
+  text: z.string({ error: "Question text is required" }).trim().min(1, "Question text is required"),
+  options: z.array(z.string().trim().min(1, "Options must not be empty"), { error: "Options are required" })
+    .length(4, "Exactly 4 options are required"),
+  correctAnswer: optionIndexSchema,
+  explanation: z.string({ error: "Explanation is required" }).trim().min(1, "Explanation is required"),
+  subject: subjectSchema,
+  topic: z.string().trim().min(1, "Topic must not be empty").optional(),
+  difficulty: difficultySchema,
+  is_important: z.boolean().optional(),
+  verification: z.enum(["unverified", "verified", "needs_review"]).optional(),
+  verified_answer: optionIndexSchema.nullable().optional(),
+}) satisfies z.ZodType<Question>;
+
+// Auth
+export const registerSchema = z.object({
+  name: z.string({ error: "Name is required" }).trim().min(1, "Name is required").max(100, "Name is too long"),
+  email: emailSchema,
+  password: newPasswordSchema,
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string({ error: "Password is required" }).min(1, "Password is required"),
+});
+
+export const refreshSchema = z.object({ refresh_token: tokenSchema });
+export const logoutSchema = z.object({ refresh_token: z.string().optional() });
+export const forgotPasswordSchema = z.object({ email: emailSchema });
+export const resetPasswordSchema = z.object({ token: tokenSchema, password: newPasswordSchema });
+export const verifyEmailSchema = z.object({ token: tokenSchema });
+
+// Syllabus topic names, checked against the subject's syllabus by the route
+const topicSchema = z.string({ error: "Topic must be text" }).trim().min(1, "Topic must not be empty");
+const topicsSchema = z.array(topicSchema, { error: "Topics must be a list" }).min(1, "Choose at least one topic").max(30, "Choose at most 30 topics");
+
+// Tests. Bank mode assembles the paper from the static question pool up front,
+// generating only what the pool cannot supply.
+const questionSourceSchema = z.enum(["ai", "bank"], { error: "Question source must be ai or bank" }).default("ai");
+
+export const startSessionSchema = z.discriminatedUnion("test_type", [
+  z.object({ test_type: z.literal("Full"), blueprint_id: z.number().int().positive().optional(), source: questionSourceSchema }),
+  z.object({ test_type: z.literal("Subject"), subject: subjectSchema, topics: topicsSchema.optional(), source: questionSourceSchema }),
+  z.object({ test_type: z.literal("Adaptive"), subject: subjectSchema, topics: topicsSchema.optional() }),
+], { error: "Test type must be Full, Subject or Adaptive" });
+
+// Keys are question positions
+const positionKeySchema = z.string().regex(/^\d+$/, "Must be a question position");
+
+export const testSubmissionSchema = z.object({
+  answers: z.record(positionKeySchema, optionIndexSchema).default({}),
+  time_spent: z.record(positionKeySchema, z.number().min(0, "Time spent cannot be negative")).default({}),
+});
+
+// Leaderboard. Query string values arrive as strings, hence the coercion.
+export const leaderboardQuerySchema = z.object({
+  period: z.enum(["week", "month", "all"], { error: "Period must be week, month or all" }).default("all"),
+  test_type: z.enum(["Full", "Subject"], { error: "Test type must be Full or Subject" }).optional(),
+  subject: subjectSchema.optional(),
+  min_attempts: z.coerce.number().int().min(1, "Minimum attempts must be at least 1").max(1000).default(1),
+  page: z.coerce.number().int().min(1, "Page must be at least 1").default(1),
+  page_size: z.coerce.number().int().min(1).max(50, "Page size must be at most 50").default(10),
+});
+
+// Exam blueprints
+const marksSchema = z.number({ error: "Marks must be a number" }).min(-100).max(100, "Marks must be at most 100");
+
+export const scoringSchema = z.object({
+  correct: marksSchema.positive("Marks for a correct answer must be more than 0"),
+  wrong: marksSchema.min(0, "Enter the penalty for a wrong answer as a positive number"),
+  unattempted: marksSchema.default(0),
+}, { error: "Scoring scheme is required" });
+
+export const blueprintSchema = z.object({
+  name: z.string({ error: "Name is required" }).trim().min(1, "Name is required").max(100, "Name is too long"),
+  duration_minutes: z.number({ error: "Duration is required" }).int()
+    .min(1, "Duration must be at least 1 minute").max(600, "Duration must be at most 600 minutes"),
+  difficulty_mix: z.object({
+    Easy: z.number().int().min(0),
+    Medium: z.number().int().min(0),
+    Hard: z.number().int().min(0),
+  }, { error: "Difficulty mix is required" })
+    .refine(mix => mix.Easy + mix.Medium + mix.Hard === 100, "Difficulty percentages must add up to 100"),
+  scoring: scoringSchema.default(DEFAULT_SCORING),
+  sections: z.array(z.object({
+    name: z.string({ error: "Section name is required" }).trim().min(1, "Section name is required"),
+    subjects: z.array(subjectSchema, { error: "Subjects are required" }).min(1, "Choose at least one subject"),
+    questions: z.number({ error: "Question count is required" }).int().min(1, "A section needs at least 1 question"),
+    weight: z.number({ error: "Weight must be a number" }).positive("Weight must be more than 0").max(10, "Weight must be at most 10").optional(),
+  }), { error: "Sections are required" })
+    .min(1, "Add at least one section")
+    .refine(sections => sections.reduce((sum, s) => sum + s.questions, 0) <= 500, "A paper can have at most 500 questions"),
+});
+
+// Autosave of one answer while a test is running; null clears it
+export const saveAnswerSchema = z.object({
+  selected_option: optionIndexSchema.nullable(),
+  time_spent: z.number().min(0, "Time spent cannot be negative").default(0),
+});
+
+// Either a full question, or a reference to one issued in a test session
+export const bookmarkSchema = z.union([
+  z.object({ session_id: z.number().int().positive(), position: z.number().int().min(0) }),
+  z.object({ question_data: questionSchema }),
+], { error: "Provide a question or a session_id and position" });
+
+// Review: self-graded recall, 0 (forgot) to 5 (perfect), as in SM-2
+export const reviewGradeSchema = z.object({
+  grade: z.number({ error: "Grade is required" }).int().min(0, "Grade must be from 0 to 5").max(5, "Grade must be from 0 to 5"),
+});
+
+// AI generation
+const countSchema = (max: number) =>
+  z.number({ error: "Count is required" }).int().min(1, "Count must be at least 1").max(max, `Count must be at most ${max}`);
+
+export const generateQuestionsSchema = z.object({
+  session_id: z.number({ error: "Session is required" }).int().positive(),
+  start: z.number({ error: "Start position is required" }).int().min(0, "Start position cannot be negative"),
+  count: countSchema(10),
+});
+
+// The next question of an adaptive test
+export const adaptiveQuestionSchema = z.object({
+  session_id: z.number({ error: "Session is required" }).int().positive(),
+});
+
+export const staticPoolSchema = z.object({
+  subject: subjectSchema,
+  topics: topicsSchema.optional(),
+  count: countSchema(200),
+  verify: z.boolean().optional(),
+});
+
+export const questionBankSchema = z.object({
+  subject: subjectSchema,
+  topics: topicsSchema.optional(),
+  difficulty: difficultySchema,
+  count: countSchema(50),
+  verify: z.boolean().optional(),
+});
+
+// Admin
+export const seedStaticSchema = z.object({
+  questions: z.array(questionSchema, { error: "Questions are required" })
+    .min(1, "Add at least one question")
+    .max(500, "Seed at most 500 questions at a time"),
+});
+
+const questionFileFormatSchema = z.enum(["json", "csv", "gift"], { error: "Format must be json, csv or gift" });
+
+// Question bank files. subject fills in rows that do not name one; a dry run
+// only reports what would be imported.
+export const questionImportSchema = z.object({
+  format: questionFileFormatSchema,
+  content: z.string({ error: "File content is required" }).min(1, "The file is empty"),
+  subject: subjectSchema.optional(),
+  dry_run: z.boolean().default(false),
+});
+
+export const questionExportQuerySchema = z.object({
+  format: questionFileFormatSchema.default("json"),
+  subject: subjectSchema.optional(),
+  difficulty: difficultySchema.optional(),
+});
+
+// Editing the static pool. Every editable field is sent, as shown in the form.
+export const questionEditSchema = questionSchema
+  .pick({ text: true, options: true, correctAnswer: true, explanation: true, difficulty: true })
+  .extend({ is_important: z.boolean({ error: "Important must be true or false" }) });
+
+export const bankQuestionQuerySchema = z.object({
+  // Matched anywhere in the question text, ignoring case
+  q: z.string().trim().max(200, "Search is too long").optional(),
+  subject: subjectSchema.optional(),
+  difficulty: difficultySchema.optional(),
+  approval: z.enum(["pending", "approved", "rejected"], { error: "Approval must be pending, approved or rejected" }).optional(),
+  status: z.enum(["active", "deleted", "all"], { error: "Status must be active, deleted or all" }).default("active"),
+  page: z.coerce.number().int().min(1, "Page must be at least 1").default(1),
+  page_size: z.coerce.number().int().min(1).max(100, "Page size must be at most 100").default(20),
+});
+
+// Approving or rejecting queued questions, one or a page at a time
+export const questionApprovalSchema = z.object({
+  ids: z.array(z.number({ error: "Question ids must be numbers" }).int().positive(), { error: "Question ids are required" })
+    .min(1, "Choose at least one question")
+    .max(200, "Approve or reject at most 200 questions at a time"),
+});
+
+// The duplicate report; a lower threshold finds looser matches
+export const duplicateQuerySchema = z.object({
+  subject: subjectSchema.optional(),
+  threshold: z.coerce.number({ error: "Threshold must be a number" })
+    .min(0.3, "Threshold must be at least 0.3")
+    .max(1, "Threshold must be at most 1")
+    .default(DUPLICATE_THRESHOLD),
+});
+
+// Merging duplicates into the question in the URL
+export const questionMergeSchema = z.object({
+  ids: z.array(z.number({ error: "Question ids must be numbers" }).int().positive(), { error: "Question ids are required" })
+    .min(1, "Choose at least one duplicate")
+    .max(50, "Merge at most 50 questions at a time"),
+});
@@ -1,9 +1,145 @@
-import { User, TestAttempt, Bookmark, Question, LeaderboardEntry } from "../types";
+import {
+  AuthSession,
+  TestAttempt,
+  TestAttemptDetail,
+  TestSubmission,
+  SaveAnswerRequest,
+  ActiveTestSession,
+  TestSessionState,
+  IssuedQuestion,
+  Bookmark,
+  Question,
+  LeaderboardPage,
+  LeaderboardQuery,
+  GenerationReport,
+  RegisterRequest,
+  LoginRequest,
+  StartSessionRequest,
+  GenerateQuestionsRequest,
+  StaticPoolRequest,
+  QuestionBankRequest,
+  ExamBlueprint,
+  BlueprintRequest,
+  SubjectSyllabus,
+  ReviewCard,
+  ReviewQueue,
+  ImportReport,
+  QuestionImportRequest,
+  QuestionExportQuery,
+  BankQuestion,
+  BankQuestionPage,
+  BankQuestionQuery,
+  QuestionEdit,
+  QuestionRevision,
+  QuestionApprovalRequest,
+  DuplicateCluster,
+  DuplicateQuery,
+  QuestionMergeRequest,
+  MergeResult,
+  ValidationIssue,
+  ApiErrorBody,
+} from "../types";
 
 const API_BASE = "/api";
 
-const getHeaders = () => {
-  const token = localStorage.getItem("token");
+// Errors thrown by these calls carry the HTTP status and, for validation
+// failures, the per-field issues reported by the server. Rate limited calls
+// (429) also say how many seconds to wait before retrying.
+export type ApiError = Error & { status: number; issues: ValidationIssue[]; retryAfter: number | null };
+
+const toApiError = async (res: Response): Promise<ApiError> => {
+  let body: Partial<ApiErrorBody> = {};
+  try {
+    body = await res.json();
+  } catch {
+    // Not a JSON error body (e.g. a proxy error page)
+  }
+  const retryAfter = Number(res.headers.get("Retry-After")) || null;
+  const fallback = res.status === 429 ? "Too many requests. Please wait a moment and try again." : res.statusText;
+  return Object.assign(new Error(body.error || fallback || "Request failed"), {
+    status: res.status,
+    issues: body.issues ?? [],
+    retryAfter,
+  });
+};
+
+// First message for each field path, for showing errors next to form inputs
+export const fieldErrors = (err: unknown): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  for (const issue of (err as Partial<ApiError>)?.issues ?? []) {
+    errors[issue.path] ??= issue.message;
+  }
+  return errors;
+};
+
+// Fired when the session can no longer be refreshed and the user must sign in again
+export const SESSION_EXPIRED_EVENT = "session-expired";
+
+// Renew access tokens this long before they expire
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+export const saveSession = (session: AuthSession) => {
+  localStorage.setItem("user", JSON.stringify(session.user));
+  localStorage.setItem("token", session.token);
+  localStorage.setItem("refreshToken", session.refresh_token);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem("user");
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+};
+
+// Read the expiry from the JWT payload; the signature is the server's concern
+const tokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Concurrent requests share one refresh, since each refresh token works only once.
+// Only a refused (401) refresh token ends the session; other failures, such as
+// being rate limited, are thrown and the token is kept to try again later.
+let refreshing: Promise<string | null> | null = null;
+
+const refreshAccessToken = () => {
+  refreshing ??= (async () => {
+    const refreshToken = localStorage.getItem("refreshToken");
+    const res = refreshToken && await fetch(`${API_BASE}/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+    if (!res || res.status === 401) {
+      clearSession();
+      window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      return null;
+    }
+    if (!res.ok) {
+      const error = await toApiError(res);
+      if (error.retryAfter) {
+        error.message = `Your session could not be renewed just now. Try again in ${error.retryAfter} second${error.retryAfter === 1 ? "" : "s"}.`;
+      }
+      throw error;
+    }
+    const session: AuthSession = await res.json();
+    saveSession(session);
+    return session.token;
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+};
+
+const getHeaders = async () => {
+  let token = localStorage.getItem("token");
+  const expiresAt = token ? tokenExpiry(token) : null;
+  if (expiresAt !== null && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    token = await refreshAccessToken();
+  }
   return {
     "Content-Type": "application/json",
     ...(token ? { Authorization: `Bearer ${token}` } : {}),
@@ -12,40 +148,125 @@ const getHeaders = () => {
 
 export const api = {
   auth: {
-    register: async (data: any) => {
+    register: async (data: RegisterRequest): Promise<AuthSession> => {
       const res = await fetch(`${API_BASE}/auth/register`, {
         method: "POST",
-        headers: getHeaders(),
+        headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
       });
-      if (!res.ok) throw new Error(await res.text());
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
-    login: async (data: any) => {
+    login: async (data: LoginRequest): Promise<AuthSession> => {
       const res = await fetch(`${API_BASE}/auth/login`, {
         method: "POST",
-        headers: getHeaders(),
+        headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
       });
-      if (!res.ok) throw new Error(await res.text());
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    forgotPassword: async (email: string) => {
+      const res = await fetch(`${API_BASE}/auth/forgot`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
+    resetPassword: async (token: string, password: string): Promise<AuthSession> => {
+      const res = await fetch(`${API_BASE}/auth/reset`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    verifyEmail: async (token: string) => {
+      const res = await fetch(`${API_BASE}/auth/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    resendVerification: async () => {
+      const res = await fetch(`${API_BASE}/auth/verify/resend`, {
+        method: "POST",
+        headers: await getHeaders(),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    // Revokes the refresh token server-side; local state is cleared even if that fails
+    logout: async () => {
+      const refreshToken = localStorage.getItem("refreshToken");
+      clearSession();
+      if (!refreshToken) return;
+      await fetch(`${API_BASE}/auth/logout`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      }).catch(() => {});
+    },
   },
   tests: {
-    save: async (data: Omit<TestAttempt, 'id' | 'date'>) => {
-      const res = await fetch(`${API_BASE}/tests/save`, {
+    startSession: async (data: StartSessionRequest): Promise<TestSessionState> => {
+      const res = await fetch(`${API_BASE}/tests/sessions`, {
         method: "POST",
-        headers: getHeaders(),
+        headers: await getHeaders(),
         body: JSON.stringify(data),
       });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    getActiveSession: async (): Promise<ActiveTestSession | null> => {
+      const res = await fetch(`${API_BASE}/tests/sessions/active`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    getSession: async (sessionId: number): Promise<TestSessionState> => {
+      const res = await fetch(`${API_BASE}/tests/sessions/${sessionId}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    saveAnswer: async (sessionId: number, position: number, data: SaveAnswerRequest) => {
+      const res = await fetch(`${API_BASE}/tests/sessions/${sessionId}/answers/${position}`, {
+        method: "PUT",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    submit: async (sessionId: number, data: TestSubmission): Promise<TestAttemptDetail> => {
+      const res = await fetch(`${API_BASE}/tests/sessions/${sessionId}/submit`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
     getHistory: async (): Promise<TestAttempt[]> => {
-      const res = await fetch(`${API_BASE}/tests/history`, { headers: getHeaders() });
+      const res = await fetch(`${API_BASE}/tests/history`, { headers: await getHeaders() });
+      return res.json();
+    },
+    getById: async (id: number): Promise<TestAttemptDetail> => {
+      const res = await fetch(`${API_BASE}/tests/${id}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
-    getLeaderboard: async (): Promise<LeaderboardEntry[]> => {
-      const res = await fetch(`${API_BASE}/leaderboard`, { headers: getHeaders() });
+    getLeaderboard: async (query: LeaderboardQuery = {}): Promise<LeaderboardPage> => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+      }
+      const res = await fetch(`${API_BASE}/leaderboard?${params}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
   },
@@ -53,42 +274,270 @@ export const api = {
     add: async (question: Question) => {
       const res = await fetch(`${API_BASE}/bookmarks`, {
         method: "POST",
-        headers: getHeaders(),
+        headers: await getHeaders(),
         body: JSON.stringify({ question_data: question }),
       });
       return res.json();
     },
+    addFromSession: async (sessionId: number, position: number) => {
+      const res = await fetch(`${API_BASE}/bookmarks`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify({ session_id: sessionId, position }),
+      });
+      return res.json();
+    },
     getAll: async (): Promise<Bookmark[]> => {
-      const res = await fetch(`${API_BASE}/bookmarks`, { headers: getHeaders() });
+      const res = await fetch(`${API_BASE}/bookmarks`, { headers: await getHeaders() });
       return res.json();
     },
     remove: async (id: number) => {
       const res = await fetch(`${API_BASE}/bookmarks/${id}`, {
         method: "DELETE",
-        headers: getHeaders(),
+        headers: await getHeaders(),
+      });
+      return res.json();
+    },
+  },
+  review: {
+    next: async (): Promise<ReviewQueue> => {
+      const res = await fetch(`${API_BASE}/review/next`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    grade: async (id: number, grade: number): Promise<ReviewCard> => {
+      const res = await fetch(`${API_BASE}/review/${id}/grade`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify({ grade }),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    remove: async (id: number) => {
+      const res = await fetch(`${API_BASE}/review/${id}`, {
+        method: "DELETE",
+        headers: await getHeaders(),
       });
       return res.json();
     },
   },
+  ai: {
+    questions: async (data: GenerateQuestionsRequest): Promise<{ questions: IssuedQuestion[]; report: GenerationReport }> => {
+      const res = await fetch(`${API_BASE}/ai/questions`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    // Issues the next question of an adaptive test
+    adaptiveQuestion: async (sessionId: number): Promise<{ question: IssuedQuestion }> => {
+      const res = await fetch(`${API_BASE}/ai/adaptive-question`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify({ session_id: sessionId }),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    staticPool: async (data: StaticPoolRequest): Promise<{ questions: Question[]; report: GenerationReport }> => {
+      const res = await fetch(`${API_BASE}/ai/static-pool`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    questionBank: async (data: QuestionBankRequest): Promise<{ questions: Question[]; report: GenerationReport }> => {
+      const res = await fetch(`${API_BASE}/ai/question-bank`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+  },
   questions: {
     getImportant: async (): Promise<Question[]> => {
       const res = await fetch(`${API_BASE}/questions/important`);
       return res.json();
     },
-    getStaticBySubject: async (subject: string): Promise<Question[]> => {
-      const res = await fetch(`${API_BASE}/questions/static/${encodeURIComponent(subject)}`);
+    getStaticBySubject: async (subject: string, topic?: string): Promise<Question[]> => {
+      const query = topic ? `?topic=${encodeURIComponent(topic)}` : "";
+      const res = await fetch(`${API_BASE}/questions/static/${encodeURIComponent(subject)}${query}`);
       return res.json();
     },
-    seedStatic: async (questions: Question[]) => {
+    // Seeded questions wait in the approval queue; ids are in the order sent,
+    // less the exact copies of bank questions that were skipped
+    seedStatic: async (questions: Question[]): Promise<{ success: boolean; count: number; ids: number[]; skipped: number }> => {
       const res = await fetch(`${API_BASE}/admin/seed-static`, {
         method: "POST",
-        headers: getHeaders(),
+        headers: await getHeaders(),
         body: JSON.stringify({ questions }),
       });
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
     getStaticCounts: async (): Promise<{ subject: string; count: number }[]> => {
-      const res = await fetch(`${API_BASE}/admin/static-count`);
+      const res = await fetch(`${API_BASE}/admin/static-count`, { headers: await getHeaders() });
+      return res.json();
+    },
+    // A dry run reports on every row without storing anything
+    importFile: async (data: QuestionImportRequest): Promise<ImportReport> => {
+      const res = await fetch(`${API_BASE}/admin/questions/import`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    // The file's contents and the name the server suggests saving it under
+    exportFile: async (query: QuestionExportQuery): Promise<{ blob: Blob; filename: string }> => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value) params.set(key, String(value));
+      }
+      const res = await fetch(`${API_BASE}/admin/questions/export?${params}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="?([^";]+)"?/)?.[1] ?? "question-bank";
+      return { blob: await res.blob(), filename };
+    },
+    list: async (query: BankQuestionQuery = {}): Promise<BankQuestionPage> => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+      }
+      const res = await fetch(`${API_BASE}/admin/questions?${params}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    // The question with its changes, newest first
+    get: async (id: number): Promise<{ question: BankQuestion; history: QuestionRevision[] }> => {
+      const res = await fetch(`${API_BASE}/admin/questions/${id}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    update: async (id: number, data: QuestionEdit): Promise<BankQuestion> => {
+      const res = await fetch(`${API_BASE}/admin/questions/${id}`, {
+        method: "PUT",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    remove: async (id: number) => {
+      const res = await fetch(`${API_BASE}/admin/questions/${id}`, {
+        method: "DELETE",
+        headers: await getHeaders(),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    restore: async (id: number) => {
+      const res = await fetch(`${API_BASE}/admin/questions/${id}/restore`, {
+        method: "POST",
+        headers: await getHeaders(),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    approve: async (data: QuestionApprovalRequest): Promise<{ updated: number }> => {
+      const res = await fetch(`${API_BASE}/admin/questions/approve`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    reject: async (data: QuestionApprovalRequest): Promise<{ updated: number }> => {
+      const res = await fetch(`${API_BASE}/admin/questions/reject`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    revert: async (id: number, revisionId: number): Promise<BankQuestion> => {
+      const res = await fetch(`${API_BASE}/admin/questions/${id}/revisions/${revisionId}/revert`, {
+        method: "POST",
+        headers: await getHeaders(),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    duplicates: async (query: DuplicateQuery = {}): Promise<DuplicateCluster[]> => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+      }
+      const res = await fetch(`${API_BASE}/admin/questions/duplicates?${params}`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return (await res.json()).clusters;
+    },
+    // Merges the duplicates into the question with this id
+    merge: async (id: number, data: QuestionMergeRequest): Promise<MergeResult> => {
+      const res = await fetch(`${API_BASE}/admin/questions/${id}/merge`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+  },
+  syllabus: {
+    get: async (): Promise<SubjectSyllabus[]> => {
+      const res = await fetch(`${API_BASE}/syllabus`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+  },
+  blueprints: {
+    getAll: async (): Promise<ExamBlueprint[]> => {
+      const res = await fetch(`${API_BASE}/blueprints`, { headers: await getHeaders() });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    create: async (data: BlueprintRequest): Promise<ExamBlueprint> => {
+      const res = await fetch(`${API_BASE}/admin/blueprints`, {
+        method: "POST",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    update: async (id: number, data: BlueprintRequest): Promise<ExamBlueprint> => {
+      const res = await fetch(`${API_BASE}/admin/blueprints/${id}`, {
+        method: "PUT",
+        headers: await getHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    setDefault: async (id: number) => {
+      const res = await fetch(`${API_BASE}/admin/blueprints/${id}/default`, {
+        method: "POST",
+        headers: await getHeaders(),
+      });
+      if (!res.ok) throw await toApiError(res);
+      return res.json();
+    },
+    remove: async (id: number) => {
+      const res = await fetch(`${API_BASE}/admin/blueprints/${id}`, {
+        method: "DELETE",
+        headers: await getHeaders(),
+      });
+      if (!res.ok) throw await toApiError(res);
       return res.json();
     },
   },
@@ -1,7 +1,20 @@
+import type { z } from 'zod';
+import type * as schemas from './schemas';
+
+export type Role = 'student' | 'admin';
+
 export interface User {
   id: number;
   name: string;
   email: string;
+  role: Role;
+  email_verified?: boolean;
+}
+
+export interface AuthSession {
+  token: string;
+  refresh_token: string;
+  user: User;
 }
 
 export interface Question {
@@ -11,34 +24,212 @@ export interface Question {
   correctAnswer: number;
   explanation: string;
   subject: string;
+  // A topic from the subject's syllabus; absent on untagged questions
+  topic?: string;
   difficulty: 'Easy' | 'Medium' | 'Hard';
   is_important?: boolean;
+  verification?: AnswerVerification;
+  verified_answer?: number | null;
 }
 
+export type AnswerVerification = 'unverified' | 'verified' | 'needs_review';
+
+// score is the number of correct answers; marks is the score under the
+// test's scoring scheme, out of max_marks
 export interface TestAttempt {
   id: number;
-  test_type: 'Full' | 'Subject';
+  test_type: TestType;
   subject?: string;
   score: number;
   total: number;
+  marks: number;
+  max_marks: number;
   duration: number;
   date: string;
 }
 
+export interface TestAttemptItem {
+  id: number;
+  position: number;
+  question_data: Question;
+  selected_option: number | null;
+  correct_option: number;
+  time_spent: number;
+}
+
+export interface TestAttemptDetail extends TestAttempt {
+  // Null for attempts graded before scoring schemes
+  scoring: ScoringScheme | null;
+  sections: SectionResult[] | null;
+  // Only adaptive tests estimate ability
+  ability: AbilityEstimate | null;
+  items: TestAttemptItem[];
+}
+
+// A question as sent to a candidate during a test, without its answer key
+export type IssuedQuestion = Pick<Question, 'text' | 'options' | 'subject' | 'topic' | 'difficulty'> & {
+  position: number;
+};
+
+export type TestSubmission = z.input<typeof schemas.testSubmissionSchema>;
+export type SaveAnswerRequest = z.input<typeof schemas.saveAnswerSchema>;
+
+// Adaptive tests are subject tests whose questions are picked one at a time
+// from the answers so far
+export type TestType = 'Full' | 'Subject' | 'Adaptive';
+
+// Where a test's questions come from: generated as the test runs, or drawn
+// from the static question bank when it starts
+export type QuestionSource = 'ai' | 'bank';
+
+// Subject tests have a fixed length; full mocks follow an exam blueprint
+export const SUBJECT_TEST_FORMAT = { questions: 30, minutes: 30 };
+export const ADAPTIVE_TEST_FORMAT = { questions: 20, minutes: 30 };
+
+// Static questions scoring at least this similar (0 to 1) are treated as
+// near-duplicates: flagged when added and never served in the same test. It
+// is set high, as a false match quietly keeps a question out of a test.
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// Where an adaptive test placed the candidate. theta is on the scale where
+// Easy, Medium and Hard questions sit at -1, 0 and 1; level is the band it
+// falls in.
+export interface AbilityEstimate {
+  theta: number;
+  level: Question['difficulty'];
+}
+
+// Percentage of each difficulty in a paper, summing to 100
+export type DifficultyMix = Record<Question['difficulty'], number>;
+
+// Marks awarded per question; wrong is a penalty and is subtracted
+export interface ScoringScheme {
+  correct: number;
+  wrong: number;
+  unattempted: number;
+}
+
+export const DEFAULT_SCORING: ScoringScheme = { correct: 1, wrong: 0, unattempted: 0 };
+
+export interface BlueprintSection {
+  name: string;
+  subjects: Subject[];
+  questions: number;
+  // Multiplies the marks of every question in the section; 1 when absent
+  weight?: number;
+}
+
+// The shape of a full mock test: its sections in paper order, time limit,
+// difficulty mix and scoring. The default blueprint is used for new full mocks,
+// and its scoring scheme for subject tests too.
+export interface ExamBlueprint {
+  id: number;
+  name: string;
+  duration_minutes: number;
+  difficulty_mix: DifficultyMix;
+  scoring: ScoringScheme;
+  sections: BlueprintSection[];
+  is_default: boolean;
+}
+
+export type BlueprintRequest = z.input<typeof schemas.blueprintSchema>;
+
+// A section placed in a test paper; its questions take positions
+// start to start + questions - 1
+export interface TestSection extends BlueprintSection {
+  start: number;
+  // Syllabus topics the section is narrowed to; every topic of its subjects when absent
+  topics?: string[];
+}
+
+// How one section of a submitted test scored
+export interface SectionResult {
+  name: string;
+  weight: number;
+  correct: number;
+  wrong: number;
+  unattempted: number;
+  marks: number;
+  max_marks: number;
+}
+
+// A test that was started but not submitted; remaining_seconds is null until
+// the first questions are issued and the clock starts
+export interface ActiveTestSession {
+  id: number;
+  test_type: TestType;
+  subject: Subject | null;
+  total_questions: number;
+  time_limit_seconds: number;
+  sections: TestSection[];
+  scoring: ScoringScheme;
+  answered: number;
+  remaining_seconds: number | null;
+}
+
+// Everything needed to pick a test back up after a refresh
+export interface TestSessionState extends ActiveTestSession {
+  questions: IssuedQuestion[];
+  // Both keyed by position; time spent is in seconds
+  answers: Record<number, number>;
+  time_spent: Record<number, number>;
+}
+
 export interface Bookmark {
   id: number;
-  question_data: string;
+  question_data: Question;
+}
+
+// Where a review card came from: a wrong answer in a test, or a bookmark
+export type ReviewSource = 'missed' | 'bookmark';
+
+// A question in the spaced-repetition queue with its SM-2 schedule
+export interface ReviewCard {
+  id: number;
+  question: Question;
+  source: ReviewSource;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+}
+
+// The next due card, if any, with the size of the queue
+export interface ReviewQueue {
+  card: ReviewCard | null;
+  due: number;
+  total: number;
 }
 
+export type ReviewGradeRequest = z.input<typeof schemas.reviewGradeSchema>;
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+
 export interface LeaderboardEntry {
+  // 1-based position on the board for the requested filters
+  rank: number;
   id: number;
   name: string;
   tests_taken: number;
+  // Marks under each test's scoring scheme; avg_accuracy is their percentage
+  // of the possible marks
   total_score: number;
   possible_score: number;
   avg_accuracy: number;
 }
 
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  // Users on the whole board, for pagination
+  total: number;
+  page: number;
+  page_size: number;
+  // The caller's own entry, or null if they have no qualifying attempts
+  me: LeaderboardEntry | null;
+}
+
 export type Subject = 
   | 'Mathematics' 
   | 'Physics' 
@@ -49,4 +240,161 @@ export type Subject =
   | 'Computer Organization' 
   | 'Operating Systems' 
   | 'Database Management Systems' 
-  | 'Computer Networks';
+  | 'Computer Networks'
+  | 'Software Engineering'
+  | 'Java Programming'
+  | 'Web Technologies'
+  | 'Python Programming'
+  | 'Big Data'
+  | 'Android Programming'
+  | 'Internet of Things';
+
+export const SUBJECTS: Subject[] = [
+  'Mathematics', 'Physics', 'Chemistry',
+  'Programming in C', 'Data Structures', 'Digital Electronics',
+  'Computer Organization', 'Operating Systems', 'Database Management Systems',
+  'Computer Networks', 'Software Engineering', 'Java Programming',
+  'Web Technologies', 'Python Programming', 'Big Data',
+  'Android Programming', 'Internet of Things'
+];
+
+// The C-23 syllabus of one subject, units and topics in syllabus order
+export interface SyllabusUnit {
+  name: string;
+  topics: string[];
+}
+
+export interface SubjectSyllabus {
+  subject: Subject;
+  units: SyllabusUnit[];
+}
+
+export interface GenerationReport {
+  requested: number;
+  accepted: number;
+  rejected: number;
+  duplicates: number;
+  retries: number;
+  flagged: number;
+}
+
+// Request payloads, derived from the validation schemas in schemas.ts
+export type RegisterRequest = z.input<typeof schemas.registerSchema>;
+export type LoginRequest = z.input<typeof schemas.loginSchema>;
+export type StartSessionRequest = z.input<typeof schemas.startSessionSchema>;
+export type GenerateQuestionsRequest = z.input<typeof schemas.generateQuestionsSchema>;
+export type StaticPoolRequest = z.input<typeof schemas.staticPoolSchema>;
+export type QuestionBankRequest = z.input<typeof schemas.questionBankSchema>;
+export type LeaderboardQuery = z.input<typeof schemas.leaderboardQuerySchema>;
+
+// A failed check on one request field; path is dotted, e.g. "questions.3.options"
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Files the question bank is imported from and exported to
+export type QuestionFileFormat = 'json' | 'csv' | 'gift';
+
+// One question of an import file: the question it was read as, or null with
+// the reasons it was rejected. row is the JSON item, CSV row or GIFT line.
+// similar_to is a near-duplicate already in the bank, if any; the question is
+// still imported.
+export interface ImportRow {
+  row: number;
+  question: Question | null;
+  issues: ValidationIssue[];
+  // The closest question in the bank, or on an earlier row of the file
+  similar_to?: SimilarQuestion | { row: number; similarity: number } | null;
+}
+
+// imported is 0 on a dry run, which only reports what would be imported
+export interface ImportReport {
+  dry_run: boolean;
+  valid: number;
+  invalid: number;
+  imported: number;
+  rows: ImportRow[];
+}
+
+export type QuestionImportRequest = z.input<typeof schemas.questionImportSchema>;
+export type QuestionExportQuery = z.input<typeof schemas.questionExportQuerySchema>;
+
+// Seeded questions are pending until an admin approves them; only approved
+// questions are served
+export type QuestionApproval = 'pending' | 'approved' | 'rejected';
+
+// The closest question already in the pool, as scored when a question is added
+export interface SimilarQuestion {
+  id: number;
+  similarity: number;
+}
+
+// A question of the static pool as admins manage it. Deleted questions are
+// kept out of tests but can be restored. similar_to and similarity record the
+// near-duplicate found when it was added; merged_into is set on duplicates
+// that were merged away.
+export interface BankQuestion extends Omit<Question, 'id'> {
+  id: number;
+  approval: QuestionApproval;
+  deleted_at: string | null;
+  updated_at: string | null;
+  similar_to: number | null;
+  similarity: number | null;
+  merged_into: number | null;
+}
+
+export interface BankQuestionPage {
+  questions: BankQuestion[];
+  // Questions matching the filters, for pagination
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+// The fields an admin can edit, as recorded before and after each change
+export type QuestionEdit = z.infer<typeof schemas.questionEditSchema>;
+
+export type QuestionChange = 'edit' | 'delete' | 'restore' | 'revert' | 'approve' | 'reject' | 'merge';
+
+// One change to a static question. before and after are null for changes
+// that leave the fields alone, such as deletes and approvals.
+export interface QuestionRevision {
+  id: number;
+  question_id: number;
+  action: QuestionChange;
+  editor_id: number | null;
+  editor_name: string | null;
+  before: QuestionEdit | null;
+  after: QuestionEdit | null;
+  created_at: string;
+}
+
+export type BankQuestionQuery = z.input<typeof schemas.bankQuestionQuerySchema>;
+export type QuestionApprovalRequest = z.input<typeof schemas.questionApprovalSchema>;
+
+// Live questions of one subject that are near-duplicates of each other,
+// oldest first. similarity is the closest pair's score.
+export interface DuplicateCluster {
+  subject: string;
+  similarity: number;
+  questions: BankQuestion[];
+}
+
+// What a merge moved onto the surviving question. attempts counts answers
+// in test history.
+export interface MergeResult {
+  merged: number;
+  bookmarks: number;
+  reviews: number;
+  attempts: number;
+}
+
+export type DuplicateQuery = z.input<typeof schemas.duplicateQuerySchema>;
+export type QuestionMergeRequest = z.input<typeof schemas.questionMergeSchema>;
+
+// Body of every API error response; issues is set for validation failures
+export interface ApiErrorBody {
+  error: string;
+  issues?: ValidationIssue[];
+}
@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, seedApproved, startTest, TestContext } from "./helpers";
+
+const normalization = (text: string, difficulty: string) => ({
+  text,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 2,
+  explanation: "Because.",
+  subject: "Database Management Systems",
+  topic: "Normalization",
+  difficulty,
+});
+
+describe("adaptive tests", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    const admin = (await registerAdmin(ctx)).token;
+    await seedApproved(ctx.app, admin, [
+      normalization("Easy one", "Easy"),
+      normalization("Medium one", "Medium"),
+      normalization("Medium two", "Medium"),
+      normalization("Hard one", "Hard"),
+      normalization("Hard two", "Hard"),
+    ]);
+  });
+
+  async function startAdaptive(token: string, subject: string, topics: string[]) {
+    const session = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Adaptive", subject, topics })
+      .expect(200);
+    return session.body;
+  }
+
+  const next = (token: string, sessionId: number) =>
+    request(ctx.app).post("/api/ai/adaptive-question").set(bearer(token)).send({ session_id: sessionId });
+
+  const answer = (token: string, sessionId: number, position: number, selected_option: number) =>
+    request(ctx.app).put(`/api/tests/sessions/${sessionId}/answers/${position}`).set(bearer(token)).send({ selected_option });
+
+  it("moves difficulty with each answer and reports an ability estimate", async () => {
+    const { token } = await registerUser(ctx.app);
+    const session = await startAdaptive(token, "Database Management Systems", ["Normalization"]);
+    expect(session).toMatchObject({ test_type: "Adaptive", total_questions: 20 });
+
+    // Everyone starts in the middle; a right answer steps up, a wrong one back down
+    const first = await next(token, session.id).expect(200);
+    expect(first.body.question).toMatchObject({ position: 0, difficulty: "Medium", topic: "Normalization" });
+    for (const key of ["correctAnswer", "verification", "verified_answer"]) expect(first.body.question).not.toHaveProperty(key);
+    await answer(token, session.id, 0, 2).expect(200);
+
+    const second = await next(token, session.id).expect(200);
+    expect(second.body.question).toMatchObject({ position: 1, difficulty: "Hard" });
+    await answer(token, session.id, 1, 0).expect(200);
+
+    const third = await next(token, session.id).expect(200);
+    expect(third.body.question.difficulty).toBe("Medium");
+    expect(third.body.question.text).not.toBe(first.body.question.text);
+
+    // Answers that shaped later questions cannot be changed
+    await answer(token, session.id, 0, 1).expect(409);
+
+    // Nor can they at submit, where only the latest question is still open
+    const res = await request(ctx.app)
+      .post(`/api/tests/sessions/${session.id}/submit`)
+      .set(bearer(token))
+      .send({ answers: { 0: 1, 1: 2 } })
+      .expect(200);
+    expect(res.body).toMatchObject({ test_type: "Adaptive", score: 1, total: 3, ability: { theta: 0.26, level: "Medium" } });
+    expect(res.body.items.map((i: any) => i.selected_option)).toEqual([2, 0, null]);
+
+    // Papers differ per candidate, so adaptive marks stay off the leaderboard
+    const board = await request(ctx.app).get("/api/leaderboard").set(bearer(token)).expect(200);
+    expect(board.body.me).toBeNull();
+  });
+
+  it("generates a question when the pool has none left", async () => {
+    const { token } = await registerUser(ctx.app);
+    const session = await startAdaptive(token, "Data Structures", ["Stacks"]);
+    const res = await next(token, session.id).expect(200);
+    expect(res.body.question).toMatchObject({ subject: "Data Structures", topic: "Stacks" });
+  });
+
+  it("keeps adaptive and fixed tests on their own issuing routes", async () => {
+    const { token } = await registerUser(ctx.app);
+    const session = await startAdaptive(token, "Database Management Systems", ["Normalization"]);
+    await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: session.id, start: 0, count: 3 })
+      .expect(400);
+
+    const { sessionId } = await startTest(ctx.app, token);
+    await next(token, sessionId).expect(400);
+  });
+});
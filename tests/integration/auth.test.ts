@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { createTestContext, registerUser, bearer, TestContext } from "./helpers";
+
+describe("auth routes", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+  });
+
+  it("registers a student and returns a usable token", async () => {
+    const { token, user } = await registerUser(ctx.app, "Asha Rao");
+    expect(user).toMatchObject({ name: "Asha Rao", email: "asha.rao@example.com", role: "student" });
+
+    await request(ctx.app).get("/api/tests/history").set(bearer(token)).expect(200);
+  });
+
+  it("rejects a duplicate email", async () => {
+    await registerUser(ctx.app, "Dup User");
+    const res = await request(ctx.app)
+      .post("/api/auth/register")
+      .send({ name: "Dup User", email: "dup.user@example.com", password: "other-password" })
+      .expect(400);
+    expect(res.body.error).toBe("Email already exists");
+  });
+
+  it("logs in with the right password only", async () => {
+    const { email } = await registerUser(ctx.app, "Login User");
+    const ok = await request(ctx.app).post("/api/auth/login").send({ email, password: "password123" }).expect(200);
+    expect(ok.body.user.email).toBe(email);
+
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "wrong" }).expect(401);
+    await request(ctx.app).post("/api/auth/login").send({ email: "nobody@example.com", password: "x" }).expect(401);
+  });
+
+  it("rejects missing and forged tokens", async () => {
+    await request(ctx.app).get("/api/tests/history").expect(401);
+    await request(ctx.app).get("/api/tests/history").set(bearer("not-a-jwt")).expect(401);
+  });
+
+  it("issues access tokens that expire", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { exp, iat } = jwt.decode(token) as jwt.JwtPayload;
+    expect(exp! - iat!).toBe(15 * 60);
+
+    const expired = jwt.sign({ id: 1, role: "student" }, "test-secret", { expiresIn: -10 });
+    await request(ctx.app).get("/api/tests/history").set(bearer(expired)).expect(401);
+  });
+
+  it("rotates refresh tokens", async () => {
+    const { refreshToken } = await registerUser(ctx.app, "Rotating User");
+    const res = await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: refreshToken }).expect(200);
+    expect(res.body.user.name).toBe("Rotating User");
+    expect(res.body.refresh_token).not.toBe(refreshToken);
+    await request(ctx.app).get("/api/tests/history").set(bearer(res.body.token)).expect(200);
+
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: res.body.refresh_token }).expect(200);
+  });
+
+  it("revokes the whole session when a rotated token is replayed", async () => {
+    const { refreshToken } = await registerUser(ctx.app);
+    const rotated = await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: refreshToken }).expect(200);
+
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: refreshToken }).expect(401);
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: rotated.body.refresh_token }).expect(401);
+  });
+
+  it("revokes the refresh token on logout", async () => {
+    const { refreshToken } = await registerUser(ctx.app);
+    await request(ctx.app).post("/api/auth/logout").send({ refresh_token: refreshToken }).expect(200);
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: refreshToken }).expect(401);
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: "made-up" }).expect(401);
+  });
+});
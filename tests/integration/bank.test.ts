@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, seedApproved, TestContext } from "./helpers";
+
+const DIFFICULTIES = ["Easy", "Medium", "Hard"];
+
+const question = (subject: string, text: string, difficulty: string, topic?: string) => ({
+  text,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 0,
+  explanation: "Because.",
+  subject,
+  difficulty,
+  ...(topic ? { topic } : {}),
+});
+
+describe("bank mode", () => {
+  let ctx: TestContext;
+  let admin: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    admin = (await registerAdmin(ctx)).token;
+
+    // A full subject test's worth of DBMS, two thirds on Normalization and
+    // every answer key checked; and a few Mathematics questions with only one Medium
+    const dbms = Array.from({ length: 30 }, (_, i) => ({
+      ...question("Database Management Systems", `Bank DBMS question ${i}`, DIFFICULTIES[i % 3], i % 3 === 2 ? "Transactions" : "Normalization"),
+      verification: "verified",
+      verified_answer: 0,
+    }));
+    const maths = [
+      question("Mathematics", "Bank maths easy 1", "Easy"),
+      question("Mathematics", "Bank maths easy 2", "Easy"),
+      question("Mathematics", "Bank maths medium 1", "Medium"),
+      question("Mathematics", "Bank maths hard 1", "Hard"),
+    ];
+    await seedApproved(ctx.app, admin, [...dbms, ...maths]);
+  });
+
+  it("starts a subject test with every question drawn from the pool", async () => {
+    const { token, user } = await registerUser(ctx.app);
+    const res = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Subject", subject: "Database Management Systems", source: "bank" })
+      .expect(200);
+
+    expect(res.body.questions).toHaveLength(30);
+    expect(res.body.questions.map((q: any) => q.position)).toEqual([...Array(30).keys()]);
+    expect(new Set(res.body.questions.map((q: any) => q.text)).size).toBe(30);
+    // Neither the answer key nor its check is sent to the candidate
+    for (const q of res.body.questions) {
+      for (const key of ["correctAnswer", "explanation", "verification", "verified_answer"]) expect(q).not.toHaveProperty(key);
+    }
+    // The clock starts with the paper, and nothing was generated
+    expect(res.body.remaining_seconds).toBeGreaterThan(0);
+    expect(await ctx.repos.aiUsage.usedToday(user.id)).toBe(0);
+  });
+
+  it("narrows the draw to the chosen topics and leaves the shortfall to generation", async () => {
+    const { token } = await registerUser(ctx.app);
+    const res = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Subject", subject: "Database Management Systems", topics: ["Transactions"], source: "bank" })
+      .expect(200);
+    expect(res.body.questions).toHaveLength(10);
+    expect(res.body.questions.every((q: any) => q.topic === "Transactions")).toBe(true);
+
+    const rest = await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: res.body.id, start: 10, count: 2 })
+      .expect(200);
+    expect(rest.body.questions.map((q: any) => q.position)).toEqual([10, 11]);
+  });
+
+  it("follows the blueprint's sections and difficulty mix for a full mock", async () => {
+    const blueprint = await request(ctx.app)
+      .post("/api/admin/blueprints")
+      .set(bearer(admin))
+      .send({
+        name: "Bank Paper",
+        duration_minutes: 20,
+        difficulty_mix: { Easy: 50, Medium: 50, Hard: 0 },
+        sections: [
+          { name: "Mathematics", subjects: ["Mathematics"], questions: 4 },
+          { name: "Data Structures", subjects: ["Data Structures"], questions: 2 },
+          { name: "DBMS", subjects: ["Database Management Systems"], questions: 2 },
+        ],
+      })
+      .expect(200);
+
+    const { token } = await registerUser(ctx.app);
+    const res = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Full", blueprint_id: blueprint.body.id, source: "bank" })
+      .expect(200);
+
+    // Two Easy and two Medium were wanted; the missing Medium is made up from Hard.
+    // Data Structures has nothing in the pool, so its positions are left open.
+    const byPosition = new Map(res.body.questions.map((q: any) => [q.position, q]));
+    const maths = [0, 1, 2, 3].map(p => byPosition.get(p) as any);
+    expect(maths.map(q => q.difficulty).sort()).toEqual(["Easy", "Easy", "Hard", "Medium"]);
+    expect([...byPosition.keys()].sort()).toEqual([0, 1, 2, 3, 6, 7]);
+    expect([6, 7].every(p => (byPosition.get(p) as any).difficulty !== "Hard")).toBe(true);
+  });
+});
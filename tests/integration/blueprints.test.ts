@@ -0,0 +1,109 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, TestContext } from "./helpers";
+
+const shortPaper = {
+  name: "Short CSE Paper",
+  duration_minutes: 20,
+  difficulty_mix: { Easy: 40, Medium: 40, Hard: 20 },
+  sections: [
+    { name: "Mathematics", subjects: ["Mathematics"], questions: 4 },
+    { name: "Core CSE", subjects: ["Data Structures", "Operating Systems"], questions: 6 },
+  ],
+};
+
+describe("exam blueprints", () => {
+  let ctx: TestContext;
+  let admin: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    admin = (await registerAdmin(ctx)).token;
+  });
+
+  const startFull = (token: string, body: object = {}) =>
+    request(ctx.app).post("/api/tests/sessions").set(bearer(token)).send({ test_type: "Full", ...body });
+
+  it("lays out full mocks by the official pattern by default", async () => {
+    const { token } = await registerUser(ctx.app);
+    const blueprints = await request(ctx.app).get("/api/blueprints").set(bearer(token)).expect(200);
+    expect(blueprints.body).toHaveLength(1);
+    expect(blueprints.body[0]).toMatchObject({ name: "AP ECET CSE", duration_minutes: 180, is_default: true });
+
+    const res = await startFull(token).expect(200);
+    expect(res.body).toMatchObject({ total_questions: 200, time_limit_seconds: 10800, questions: [] });
+    expect(res.body.sections.map((s: any) => [s.name, s.start, s.questions])).toEqual([
+      ["Mathematics", 0, 50],
+      ["Physics", 50, 25],
+      ["Chemistry", 75, 25],
+      ["Computer Science & Engineering", 100, 100],
+    ]);
+  });
+
+  it("lets only admins manage blueprints", async () => {
+    const { token } = await registerUser(ctx.app);
+    await request(ctx.app).post("/api/admin/blueprints").set(bearer(token)).send(shortPaper).expect(403);
+
+    const created = await request(ctx.app).post("/api/admin/blueprints").set(bearer(admin)).send(shortPaper).expect(200);
+    expect(created.body).toMatchObject({ ...shortPaper, is_default: false });
+
+    const renamed = await request(ctx.app)
+      .put(`/api/admin/blueprints/${created.body.id}`)
+      .set(bearer(admin))
+      .send({ ...shortPaper, name: "Renamed Paper" })
+      .expect(200);
+    expect(renamed.body.name).toBe("Renamed Paper");
+
+    await request(ctx.app).delete(`/api/admin/blueprints/${created.body.id}`).set(bearer(admin)).expect(200);
+    await request(ctx.app).put(`/api/admin/blueprints/${created.body.id}`).set(bearer(admin)).send(shortPaper).expect(404);
+  });
+
+  it("rejects blueprints whose mix or sections do not add up", async () => {
+    const res = await request(ctx.app)
+      .post("/api/admin/blueprints")
+      .set(bearer(admin))
+      .send({
+        ...shortPaper,
+        difficulty_mix: { Easy: 50, Medium: 50, Hard: 20 },
+        sections: [{ name: "Empty", subjects: [], questions: 0 }],
+      })
+      .expect(400);
+    const fields = res.body.issues.map((i: any) => i.path);
+    expect(fields).toEqual(expect.arrayContaining(["difficulty_mix", "sections.0.subjects", "sections.0.questions"]));
+  });
+
+  it("uses the new default for full mocks and keeps the default from being deleted", async () => {
+    const created = await request(ctx.app).post("/api/admin/blueprints").set(bearer(admin)).send(shortPaper).expect(200);
+    const original = (await request(ctx.app).get("/api/blueprints").set(bearer(admin))).body.find((b: any) => b.is_default);
+
+    await request(ctx.app).post(`/api/admin/blueprints/${created.body.id}/default`).set(bearer(admin)).expect(200);
+    await request(ctx.app).delete(`/api/admin/blueprints/${created.body.id}`).set(bearer(admin)).expect(409);
+
+    const { token } = await registerUser(ctx.app);
+    const res = await startFull(token).expect(200);
+    expect(res.body).toMatchObject({ total_questions: 10, time_limit_seconds: 1200 });
+
+    const batch = await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: res.body.id, start: 0, count: 6 })
+      .expect(200);
+    expect(batch.body.questions.slice(0, 4).every((q: any) => q.subject === "Mathematics")).toBe(true);
+    expect(batch.body.questions.slice(4).every((q: any) => ["Data Structures", "Operating Systems"].includes(q.subject))).toBe(true);
+
+    await request(ctx.app).post(`/api/admin/blueprints/${original.id}/default`).set(bearer(admin)).expect(200);
+  });
+
+  it("issues no questions beyond the end of the paper", async () => {
+    const created = await request(ctx.app).post("/api/admin/blueprints").set(bearer(admin)).send(shortPaper).expect(200);
+    const { token } = await registerUser(ctx.app);
+    const session = await startFull(token, { blueprint_id: created.body.id }).expect(200);
+
+    await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: session.body.id, start: 8, count: 5 })
+      .expect(400);
+    await startFull(token, { blueprint_id: 9999 }).expect(404);
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, startTest, bearer, TestContext } from "./helpers";
+
+describe("bookmark routes", () => {
+  let ctx: TestContext;
+  let token: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    ({ token } = await registerUser(ctx.app));
+  });
+
+  it("keeps a running test's bookmarks back until it is submitted", async () => {
+    const { sessionId, questions } = await startTest(ctx.app, token);
+    const bookmark = (position: number) =>
+      request(ctx.app).post("/api/bookmarks").set(bearer(token)).send({ session_id: sessionId, position });
+    const marked = await bookmark(1).expect(200);
+    expect(marked.body).toEqual({ success: true });
+    await bookmark(7).expect(404);
+
+    // The answer key must not be readable while the test can still be answered
+    expect((await request(ctx.app).get("/api/bookmarks").set(bearer(token)).expect(200)).body).toEqual([]);
+
+    await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({}).expect(200);
+    const res = await request(ctx.app).get("/api/bookmarks").set(bearer(token)).expect(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0].question_data.text).toBe(questions[1].text);
+    expect(res.body[0].question_data).toHaveProperty("correctAnswer");
+  });
+
+  it("bookmarks a question of a submitted test at once", async () => {
+    const { sessionId, questions } = await startTest(ctx.app, token);
+    await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({}).expect(200);
+    await request(ctx.app).post("/api/bookmarks").set(bearer(token)).send({ session_id: sessionId, position: 2 }).expect(200);
+
+    const res = await request(ctx.app).get("/api/bookmarks").set(bearer(token)).expect(200);
+    expect(res.body.map((b: any) => b.question_data.text)).toContain(questions[2].text);
+  });
+
+  it("cannot bookmark from another user's session", async () => {
+    const { sessionId } = await startTest(ctx.app, token);
+    const other = await registerUser(ctx.app);
+    await request(ctx.app)
+      .post("/api/bookmarks")
+      .set(bearer(other.token))
+      .send({ session_id: sessionId, position: 0 })
+      .expect(404);
+  });
+
+  it("removes only the owner's bookmark", async () => {
+    const other = await registerUser(ctx.app);
+    await request(ctx.app)
+      .post("/api/bookmarks")
+      .set(bearer(other.token))
+      .send({
+        question_data: {
+          text: "Saved directly",
+          options: ["A", "B", "C", "D"],
+          correctAnswer: 0,
+          explanation: "Because.",
+          subject: "Physics",
+          difficulty: "Easy",
+        },
+      })
+      .expect(200);
+    const [bookmark] = (await request(ctx.app).get("/api/bookmarks").set(bearer(other.token))).body;
+
+    await request(ctx.app).delete(`/api/bookmarks/${bookmark.id}`).set(bearer(token)).expect(200);
+    expect((await request(ctx.app).get("/api/bookmarks").set(bearer(other.token))).body).toHaveLength(1);
+
+    await request(ctx.app).delete(`/api/bookmarks/${bookmark.id}`).set(bearer(other.token)).expect(200);
+    expect((await request(ctx.app).get("/api/bookmarks").set(bearer(other.token))).body).toHaveLength(0);
+  });
+});
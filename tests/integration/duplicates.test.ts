@@ -0,0 +1,153 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, TestContext } from "./helpers";
+
+const question = (text: string, answer: string) => ({
+  text,
+  options: [answer, "Transport layer", "Session layer", "Physical layer"],
+  correctAnswer: 0,
+  explanation: "Because.",
+  subject: "Computer Networks",
+  difficulty: "Easy",
+});
+
+const ORIGINAL = question("Which layer of the OSI model routes packets?", "Network layer");
+const PARAPHRASE = question("Routing of packets happens in which OSI layer?", "The network layer");
+const UNRELATED = question("Which layer of the OSI model encrypts data?", "Presentation layer");
+
+describe("near-duplicate questions", () => {
+  let ctx: TestContext;
+  let admin: string;
+  let original: number;
+  let paraphrase: number;
+  let unrelated: number;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    admin = (await registerAdmin(ctx)).token;
+  });
+
+  const approve = (ids: number[]) =>
+    request(ctx.app).post("/api/admin/questions/approve").set(bearer(admin)).send({ ids }).expect(200);
+  const detail = async (id: number) =>
+    (await request(ctx.app).get(`/api/admin/questions/${id}`).set(bearer(admin)).expect(200)).body;
+  const duplicates = (query = "") =>
+    request(ctx.app).get(`/api/admin/questions/duplicates${query}`).set(bearer(admin)).expect(200);
+
+  it("skips exact copies and scores near ones as they are added", async () => {
+    const seeded = await request(ctx.app)
+      .post("/api/admin/seed-static")
+      .set(bearer(admin))
+      .send({ questions: [ORIGINAL, UNRELATED, PARAPHRASE, { ...ORIGINAL, text: "which layer of the OSI model routes packets" }] })
+      .expect(200);
+    expect(seeded.body).toMatchObject({ count: 3, skipped: 1 });
+    [original, unrelated, paraphrase] = seeded.body.ids;
+
+    expect((await detail(paraphrase)).question).toMatchObject({ similar_to: original, similarity: 0.8 });
+    expect((await detail(unrelated)).question).toMatchObject({ similar_to: null, similarity: null });
+
+    // An import reports the likeness but still takes the question
+    const rows = [question("In the OSI model, packets are routed by which layer?", "Network layer")];
+    const preview = await request(ctx.app)
+      .post("/api/admin/questions/import")
+      .set(bearer(admin))
+      .send({ format: "json", content: JSON.stringify(rows), dry_run: true })
+      .expect(200);
+    expect(preview.body.valid).toBe(1);
+    expect(preview.body.rows[0].similar_to).toEqual({ id: original, similarity: 1 });
+
+    // Near copies within one file are reported against the earlier row
+    const pair = [
+      question("Which device forwards frames using MAC addresses?", "Switch"),
+      question("Frames are forwarded by MAC address using which device?", "A switch"),
+    ];
+    const paired = await request(ctx.app)
+      .post("/api/admin/questions/import")
+      .set(bearer(admin))
+      .send({ format: "json", content: JSON.stringify(pair), dry_run: true })
+      .expect(200);
+    expect(paired.body.valid).toBe(2);
+    expect(paired.body.rows[0].similar_to).toBeNull();
+    expect(paired.body.rows[1].similar_to).toEqual({ row: paired.body.rows[0].row, similarity: 1 });
+  });
+
+  it("reports clusters and never serves two of one in a test", async () => {
+    await approve([original, paraphrase, unrelated]);
+
+    const report = await duplicates();
+    expect(report.body.clusters).toEqual([{
+      subject: "Computer Networks",
+      similarity: 0.8,
+      questions: [expect.objectContaining({ id: original }), expect.objectContaining({ id: paraphrase })],
+    }]);
+    expect((await duplicates("?threshold=0.9")).body.clusters).toEqual([]);
+    expect((await duplicates("?subject=Mathematics")).body.clusters).toEqual([]);
+
+    for (let i = 0; i < 5; i++) {
+      const served = await request(ctx.app).get("/api/questions/static/Computer%20Networks").expect(200);
+      expect(served.body).toHaveLength(2);
+      expect(served.body.map((q: any) => q.id)).toContain(unrelated);
+    }
+  });
+
+  it("merges duplicates, moving bookmarks, review cards and test history to the survivor", async () => {
+    // Take the duplicate out of the way so that a bank test is sure to serve the paraphrase
+    await request(ctx.app).post("/api/admin/questions/reject").set(bearer(admin)).send({ ids: [original] }).expect(200);
+    const { token } = await registerUser(ctx.app);
+    const session = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Subject", subject: "Computer Networks", source: "bank" })
+      .expect(200);
+    const position = session.body.questions.find((q: any) => q.text === PARAPHRASE.text).position;
+    await request(ctx.app).post("/api/bookmarks").set(bearer(token)).send({ session_id: session.body.id, position }).expect(200);
+    await request(ctx.app)
+      .post(`/api/tests/sessions/${session.body.id}/submit`)
+      .set(bearer(token))
+      .send({ answers: { [position]: 0 } })
+      .expect(200);
+    await approve([original]);
+    // A user already reviewing both wordings keeps only the survivor's card
+    const both = await registerUser(ctx.app);
+    await ctx.repos.review.enqueue(both.user.id, [(await detail(original)).question, (await detail(paraphrase)).question], "missed");
+
+    const merged = await request(ctx.app)
+      .post(`/api/admin/questions/${original}/merge`)
+      .set(bearer(admin))
+      .send({ ids: [paraphrase] })
+      .expect(200);
+    expect(merged.body).toEqual({ merged: 1, bookmarks: 1, reviews: 2, attempts: 1 });
+
+    const [bookmark] = (await request(ctx.app).get("/api/bookmarks").set(bearer(token)).expect(200)).body;
+    expect(bookmark.question_data).toMatchObject({ id: original, text: ORIGINAL.text });
+    // The bookmark queued a card, which now reviews the survivor
+    const review = await request(ctx.app).get("/api/review/next").set(bearer(token)).expect(200);
+    expect(review.body).toMatchObject({ total: 1, card: { question: { id: original, text: ORIGINAL.text } } });
+    const cards = await ctx.db.query("SELECT question_key FROM review_cards WHERE user_id = $1", [both.user.id]);
+    expect(cards.rows).toEqual([{ question_key: "which layer of the osi model routes packets" }]);
+    const [attempt] = (await request(ctx.app).get("/api/tests/history").set(bearer(token)).expect(200)).body;
+    const history = await request(ctx.app).get(`/api/tests/${attempt.id}`).set(bearer(token)).expect(200);
+    // The attempt keeps the wording that was answered
+    expect(history.body.items.find((i: any) => i.position === position).question_data)
+      .toMatchObject({ id: original, text: PARAPHRASE.text });
+
+    const gone = await detail(paraphrase);
+    expect(gone.question).toMatchObject({ merged_into: original, deleted_at: expect.any(String) });
+    expect(gone.history[0].action).toBe("merge");
+    expect((await duplicates()).body.clusters).toEqual([]);
+  });
+
+  it("checks what is merged and is for admins only", async () => {
+    const merge = (id: number, ids: number[]) =>
+      request(ctx.app).post(`/api/admin/questions/${id}/merge`).set(bearer(admin)).send({ ids });
+    await merge(original, [original]).expect(400);
+    await merge(original, [paraphrase]).expect(409);
+    await merge(paraphrase, [unrelated]).expect(409);
+    await merge(original, [999999]).expect(404);
+    await merge(original, []).expect(400);
+
+    const { token } = await registerUser(ctx.app);
+    await request(ctx.app).get("/api/admin/questions/duplicates").set(bearer(token)).expect(403);
+    await request(ctx.app).post(`/api/admin/questions/${original}/merge`).set(bearer(token)).send({ ids: [unrelated] }).expect(403);
+  });
+});
@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { hashToken } from "../../server/auth";
+import { createTestContext, registerUser, tokenFromMail, bearer, TestContext } from "./helpers";
+
+describe("email verification", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+  });
+
+  it("mails a link on registration that verifies the address once", async () => {
+    const { user, email } = await registerUser(ctx.app);
+    expect(user.email_verified).toBe(false);
+
+    const token = tokenFromMail(ctx.outbox, email, "verify_token");
+    await request(ctx.app).post("/api/auth/verify").send({ token }).expect(200);
+    await request(ctx.app).post("/api/auth/verify").send({ token }).expect(400);
+
+    const login = await request(ctx.app).post("/api/auth/login").send({ email, password: "password123" }).expect(200);
+    expect(login.body.user.email_verified).toBe(true);
+  });
+
+  it("replaces the link when one is resent", async () => {
+    const { token: accessToken, email } = await registerUser(ctx.app);
+    const first = tokenFromMail(ctx.outbox, email, "verify_token");
+
+    await request(ctx.app).post("/api/auth/verify/resend").set(bearer(accessToken)).expect(200);
+    const second = tokenFromMail(ctx.outbox, email, "verify_token");
+    expect(second).not.toBe(first);
+
+    await request(ctx.app).post("/api/auth/verify").send({ token: first }).expect(400);
+    await request(ctx.app).post("/api/auth/verify").send({ token: second }).expect(200);
+    await request(ctx.app).post("/api/auth/verify/resend").set(bearer(accessToken)).expect(409);
+  });
+});
+
+describe("password reset", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+  });
+
+  it("does not reveal whether an email is registered", async () => {
+    const sent = ctx.outbox.length;
+    const res = await request(ctx.app).post("/api/auth/forgot").send({ email: "ghost@example.com" }).expect(200);
+    expect(res.body).toEqual({ success: true });
+    expect(ctx.outbox).toHaveLength(sent);
+  });
+
+  it("sets a new password, signs the user in and ends old sessions", async () => {
+    const { email, refreshToken } = await registerUser(ctx.app);
+    await request(ctx.app).post("/api/auth/forgot").send({ email }).expect(200);
+    const token = tokenFromMail(ctx.outbox, email, "reset_token");
+
+    const res = await request(ctx.app).post("/api/auth/reset").send({ token, password: "new-password" }).expect(200);
+    expect(res.body.user).toMatchObject({ email, email_verified: true });
+    expect(res.body.token).toBeTruthy();
+
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "password123" }).expect(401);
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "new-password" }).expect(200);
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: refreshToken }).expect(401);
+  });
+
+  it("accepts each reset link once, and only the latest one", async () => {
+    const { email } = await registerUser(ctx.app);
+    await request(ctx.app).post("/api/auth/forgot").send({ email });
+    const stale = tokenFromMail(ctx.outbox, email, "reset_token");
+    await request(ctx.app).post("/api/auth/forgot").send({ email });
+    const latest = tokenFromMail(ctx.outbox, email, "reset_token");
+
+    await request(ctx.app).post("/api/auth/reset").send({ token: stale, password: "x-password" }).expect(400);
+    await request(ctx.app).post("/api/auth/reset").send({ token: latest, password: "x-password" }).expect(200);
+    await request(ctx.app).post("/api/auth/reset").send({ token: latest, password: "y-password" }).expect(400);
+  });
+
+  it("rejects expired links", async () => {
+    const { user } = await registerUser(ctx.app);
+    // Only hashes are stored, so plant an already expired token directly
+    await ctx.repos.emailTokens.create(user.id, "reset_password", hashToken("old-link"), new Date(Date.now() - 1000));
+    await request(ctx.app).post("/api/auth/reset").send({ token: "old-link", password: "z-password" }).expect(400);
+  });
+});
@@ -0,0 +1,94 @@
+import request from "supertest";
+import { Express } from "express";
+import { createPool, Db } from "../../server/db";
+import { migrateUp } from "../../server/migrate";
+import { createRepositories, Repositories } from "../../server/repositories";
+import { createApp } from "../../server/app";
+import { MailMessage } from "../../server/mail";
+import { RateLimitConfig } from "../../server/rateLimit";
+
+export interface TestContext {
+  app: Express;
+  // For arranging state the API cannot produce, such as old attempts
+  db: Db;
+  repos: Repositories;
+  // Every email the app has sent, oldest first
+  outbox: MailMessage[];
+}
+
+// Suites fire many requests from one address, so only the rate limit suite
+// runs with limits low enough to hit
+const GENEROUS = { limit: 1000, windowMs: 60 * 1000 };
+const GENEROUS_LIMITS: RateLimitConfig = {
+  auth: GENEROUS,
+  refresh: GENEROUS,
+  passwordReset: GENEROUS,
+  loginLockout: GENEROUS,
+  aiPerUser: GENEROUS,
+  aiPerIp: GENEROUS,
+};
+
+// Every suite gets its own empty in-memory database with the full schema
+export async function createTestContext(rateLimits: Partial<RateLimitConfig> = {}): Promise<TestContext> {
+  const db = createPool("memory");
+  await migrateUp(db);
+  const repos = createRepositories(db);
+  const outbox: MailMessage[] = [];
+  const mailer = { name: "outbox", send: async (message: MailMessage) => { outbox.push(message); } };
+  const app = createApp(repos, { mailer, rateLimits: { ...GENEROUS_LIMITS, ...rateLimits } });
+  return { app, db, repos, outbox };
+}
+
+// Pulls the token out of the link in the latest email sent to an address
+export function tokenFromMail(outbox: MailMessage[], to: string, param: "verify_token" | "reset_token") {
+  const message = outbox.filter(m => m.to === to).at(-1);
+  const match = message?.text.match(new RegExp(`${param}=([^\\s]+)`));
+  if (!match) throw new Error(`No ${param} link mailed to ${to}`);
+  return decodeURIComponent(match[1]);
+}
+
+let userCount = 0;
+
+export async function registerUser(app: Express, name = `User ${++userCount}`) {
+  const email = `${name.toLowerCase().replace(/\s+/g, ".")}@example.com`;
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ name, email, password: "password123" })
+    .expect(200);
+  return { token: res.body.token as string, refreshToken: res.body.refresh_token as string, user: res.body.user, email };
+}
+
+// Roles are carried in the token, so log in again after promoting
+export async function registerAdmin({ app, repos }: TestContext, name = `Admin ${++userCount}`) {
+  const { email } = await registerUser(app, name);
+  await repos.users.setRole(email, "admin");
+  const res = await request(app)
+    .post("/api/auth/login")
+    .send({ email, password: "password123" })
+    .expect(200);
+  return { token: res.body.token as string, user: res.body.user, email };
+}
+
+export const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+// Seeds questions into the static pool and approves them, so they are served
+export async function seedApproved(app: Express, adminToken: string, questions: object[]) {
+  const seeded = await request(app).post("/api/admin/seed-static").set(bearer(adminToken)).send({ questions }).expect(200);
+  await request(app).post("/api/admin/questions/approve").set(bearer(adminToken)).send({ ids: seeded.body.ids }).expect(200);
+  return seeded.body.ids as number[];
+}
+
+// Starts a subject test and has the fixture provider issue its first questions
+export async function startTest(app: Express, token: string, subject = "Data Structures", count = 3) {
+  const session = await request(app)
+    .post("/api/tests/sessions")
+    .set(bearer(token))
+    .send({ test_type: "Subject", subject })
+    .expect(200);
+  const issued = await request(app)
+    .post("/api/ai/questions")
+    .set(bearer(token))
+    .send({ session_id: session.body.id, start: 0, count })
+    .expect(200);
+  return { sessionId: session.body.id as number, questions: issued.body.questions as any[] };
+}
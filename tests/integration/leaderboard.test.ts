@@ -0,0 +1,130 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, startTest, bearer, TestContext } from "./helpers";
+
+// Submits a fresh test after its first three questions, with the given number
+// of them correct. The rest of the 30-question paper counts as unattempted.
+async function takeTest(ctx: TestContext, token: string, correct: number, subject?: string) {
+  const { sessionId } = await startTest(ctx.app, token, subject);
+  const stored = await ctx.repos.testSessions.listQuestions(sessionId);
+  const answers = Object.fromEntries(
+    stored.map(({ position, question }) => [
+      position,
+      position < correct ? question.correctAnswer : (question.correctAnswer + 1) % 4,
+    ])
+  );
+  await request(ctx.app)
+    .post(`/api/tests/sessions/${sessionId}/submit`)
+    .set(bearer(token))
+    .send({ answers })
+    .expect(200);
+}
+
+describe("leaderboard route", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+  });
+
+  it("ranks users by accuracy with numeric aggregates", async () => {
+    const strong = await registerUser(ctx.app, "Strong Student");
+    const weak = await registerUser(ctx.app, "Weak Student");
+    await registerUser(ctx.app, "Idle Student");
+
+    await takeTest(ctx, strong.token, 3);
+    await takeTest(ctx, strong.token, 2);
+    await takeTest(ctx, weak.token, 1);
+
+    const res = await request(ctx.app).get("/api/leaderboard").set(bearer(weak.token)).expect(200);
+    const weakEntry = { rank: 2, id: weak.user.id, name: "Weak Student", tests_taken: 1, total_score: 1, possible_score: 30, avg_accuracy: 3.3 };
+    expect(res.body).toEqual({
+      entries: [
+        { rank: 1, id: strong.user.id, name: "Strong Student", tests_taken: 2, total_score: 5, possible_score: 60, avg_accuracy: 8.3 },
+        weakEntry,
+      ],
+      total: 2,
+      page: 1,
+      page_size: 10,
+      me: weakEntry,
+    });
+  });
+
+  it("leaves out attempts with no marks to win, as old empty submissions have", async () => {
+    const empty = await registerUser(ctx.app, "Empty Student");
+    const before = (await request(ctx.app).get("/api/leaderboard").set(bearer(empty.token)).expect(200)).body;
+    for (const { id } of [empty.user, before.entries[0]]) {
+      await ctx.db.query(
+        "INSERT INTO test_attempts (user_id, test_type, subject, score, total, marks, max_marks, duration) VALUES ($1, 'Subject', 'Data Structures', 0, 0, 0, 0, 0)",
+        [id]
+      );
+    }
+
+    const res = await request(ctx.app).get("/api/leaderboard").set(bearer(empty.token)).expect(200);
+    expect(res.body.entries).toEqual(before.entries);
+    expect(res.body.me).toBeNull();
+  });
+});
+
+describe("leaderboard filters", () => {
+  let ctx: TestContext;
+  let regular: Awaited<ReturnType<typeof registerUser>>;
+  let lucky: Awaited<ReturnType<typeof registerUser>>;
+  let steady: Awaited<ReturnType<typeof registerUser>>;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    regular = await registerUser(ctx.app, "Regular Student");
+    lucky = await registerUser(ctx.app, "Lucky Student");
+    steady = await registerUser(ctx.app, "Steady Student");
+
+    await takeTest(ctx, regular.token, 2);
+    await takeTest(ctx, regular.token, 2);
+    await takeTest(ctx, regular.token, 2, "Mathematics");
+    await takeTest(ctx, lucky.token, 3);
+    await takeTest(ctx, steady.token, 1);
+    await takeTest(ctx, steady.token, 1);
+  });
+
+  const board = (token: string, query: Record<string, string | number> = {}) =>
+    request(ctx.app).get("/api/leaderboard").query(query).set(bearer(token));
+
+  it("drops users below the attempts threshold but still ranks the caller among the rest", async () => {
+    const res = await board(lucky.token, { min_attempts: 2 }).expect(200);
+    expect(res.body.entries.map((e: any) => e.name)).toEqual(["Regular Student", "Steady Student"]);
+    expect(res.body.me).toBeNull();
+
+    const own = await board(steady.token, { min_attempts: 2 }).expect(200);
+    expect(own.body.me).toMatchObject({ rank: 2, name: "Steady Student" });
+  });
+
+  it("reports the caller's rank when they are off the current page", async () => {
+    const res = await board(steady.token, { page_size: 1 }).expect(200);
+    expect(res.body.entries).toHaveLength(1);
+    expect(res.body.entries[0]).toMatchObject({ rank: 1, name: "Lucky Student" });
+    expect(res.body.total).toBe(3);
+    expect(res.body.me).toMatchObject({ rank: 3, name: "Steady Student" });
+
+    const second = await board(steady.token, { page_size: 1, page: 2 }).expect(200);
+    expect(second.body.entries[0]).toMatchObject({ rank: 2, name: "Regular Student" });
+  });
+
+  it("filters by subject and test period", async () => {
+    const maths = await board(regular.token, { test_type: "Subject", subject: "Mathematics" }).expect(200);
+    expect(maths.body.entries).toEqual([expect.objectContaining({ name: "Regular Student", tests_taken: 1 })]);
+
+    await ctx.db.query("UPDATE test_attempts SET date = LOCALTIMESTAMP - INTERVAL '10 days' WHERE user_id = $1", [lucky.user.id]);
+    const week = await board(regular.token, { period: "week" }).expect(200);
+    expect(week.body.entries.map((e: any) => e.name)).toEqual(["Regular Student", "Steady Student"]);
+    const month = await board(regular.token, { period: "month" }).expect(200);
+    expect(month.body.total).toBe(3);
+
+    const full = await board(regular.token, { test_type: "Full" }).expect(200);
+    expect(full.body.entries).toEqual([]);
+  });
+
+  it("rejects unknown filter values", async () => {
+    const res = await board(regular.token, { period: "decade" }).expect(400);
+    expect(res.body.issues[0].path).toBe("period");
+  });
+});
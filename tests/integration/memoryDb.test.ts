@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { createPool } from "../../server/db";
+
+describe("in-memory database", () => {
+  it("keeps writes made elsewhere while a transaction that rolls back is open", async () => {
+    const db = createPool("memory");
+    await db.query("CREATE TABLE notes (body TEXT NOT NULL)");
+
+    const client = await db.connect();
+    await client.query("BEGIN");
+    await client.query("INSERT INTO notes (body) VALUES ('rolled back')");
+    // Another request's write, waiting for the transaction to finish
+    const elsewhere = db.query("INSERT INTO notes (body) VALUES ('kept')");
+    await client.query("ROLLBACK");
+    client.release();
+    await elsewhere;
+
+    const result = await db.query("SELECT body FROM notes");
+    expect(result.rows).toEqual([{ body: "kept" }]);
+  });
+});
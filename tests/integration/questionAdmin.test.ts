@@ -0,0 +1,120 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, seedApproved, TestContext } from "./helpers";
+
+const question = (text: string, difficulty = "Easy") => ({
+  text,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 0,
+  explanation: "Because.",
+  subject: "Operating Systems",
+  difficulty,
+});
+
+const editable = ({ text, options, correctAnswer, explanation, difficulty, is_important }: any) =>
+  ({ text, options, correctAnswer, explanation, difficulty, is_important });
+
+describe("static question management", () => {
+  let ctx: TestContext;
+  let admin: string;
+  let adminName: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    const registered = await registerAdmin(ctx);
+    admin = registered.token;
+    adminName = registered.user.name;
+    const questions = [
+      ...Array.from({ length: 5 }, (_, i) => question(`Paging question ${i}`, i % 2 ? "Hard" : "Easy")),
+      { ...question("What does a semaphore guard?"), verification: "needs_review", verified_answer: 2 },
+    ];
+    await seedApproved(ctx.app, admin, questions);
+  });
+
+  const list = (query: string) => request(ctx.app).get(`/api/admin/questions?${query}`).set(bearer(admin)).expect(200);
+
+  const findByText = async (text: string) =>
+    (await list(`q=${encodeURIComponent(text)}&status=all`)).body.questions[0];
+
+  it("lists the pool a page at a time, with search and filters", async () => {
+    const first = await list("page_size=4");
+    expect(first.body).toMatchObject({ total: 6, page: 1, page_size: 4 });
+    expect(first.body.questions).toHaveLength(4);
+    const second = await list("page_size=4&page=2");
+    expect(second.body.questions).toHaveLength(2);
+    expect(second.body.questions[0]).toMatchObject({ deleted_at: null, is_important: false });
+
+    const search = await list("q=PAGING&difficulty=Hard");
+    expect(search.body.total).toBe(2);
+    expect(search.body.questions.map((q: any) => q.text).sort()).toEqual(["Paging question 1", "Paging question 3"]);
+  });
+
+  it("edits a question, records the change and reverts it", async () => {
+    const original = await findByText("semaphore");
+    const changed = { ...editable(original), correctAnswer: 2, explanation: "It guards a critical section.", is_important: true };
+
+    const saved = await request(ctx.app).put(`/api/admin/questions/${original.id}`).set(bearer(admin)).send(changed).expect(200);
+    // A changed answer needs checking again, which puts the question back in tests
+    expect(saved.body).toMatchObject({ ...changed, verification: "unverified", verified_answer: null });
+    expect(saved.body.updated_at).not.toBeNull();
+
+    const detail = await request(ctx.app).get(`/api/admin/questions/${original.id}`).set(bearer(admin)).expect(200);
+    expect(detail.body.history.map((r: any) => r.action)).toEqual(["edit", "approve"]);
+    expect(detail.body.history[0]).toMatchObject({
+      action: "edit",
+      editor_name: adminName,
+      before: editable(original),
+      after: changed,
+    });
+
+    const reverted = await request(ctx.app)
+      .post(`/api/admin/questions/${original.id}/revisions/${detail.body.history[0].id}/revert`)
+      .set(bearer(admin))
+      .expect(200);
+    expect(editable(reverted.body)).toEqual(editable(original));
+
+    const after = await request(ctx.app).get(`/api/admin/questions/${original.id}`).set(bearer(admin)).expect(200);
+    expect(after.body.history.map((r: any) => r.action)).toEqual(["revert", "edit", "approve"]);
+  });
+
+  it("soft-deletes questions out of tests and restores them", async () => {
+    const target = await findByText("Paging question 0");
+    await request(ctx.app).delete(`/api/admin/questions/${target.id}`).set(bearer(admin)).expect(200);
+    await request(ctx.app).delete(`/api/admin/questions/${target.id}`).set(bearer(admin)).expect(409);
+
+    expect((await list("q=paging")).body.total).toBe(4);
+    const deleted = await list("status=deleted");
+    expect(deleted.body.questions).toEqual([expect.objectContaining({ id: target.id, deleted_at: expect.any(String) })]);
+    const pool = await request(ctx.app).get("/api/questions/static/Operating%20Systems").expect(200);
+    expect(pool.body.map((q: any) => q.text).sort()).toEqual([
+      "Paging question 1", "Paging question 2", "Paging question 3", "Paging question 4", "What does a semaphore guard?",
+    ]);
+
+    // Deleted questions cannot be edited until they are back
+    await request(ctx.app).put(`/api/admin/questions/${target.id}`).set(bearer(admin)).send(editable(target)).expect(409);
+    await request(ctx.app).post(`/api/admin/questions/${target.id}/restore`).set(bearer(admin)).expect(200);
+    expect((await list("q=paging")).body.total).toBe(5);
+
+    const detail = await request(ctx.app).get(`/api/admin/questions/${target.id}`).set(bearer(admin)).expect(200);
+    expect(detail.body.history.map((r: any) => r.action)).toEqual(["restore", "delete", "approve"]);
+    await request(ctx.app)
+      .post(`/api/admin/questions/${target.id}/revisions/${detail.body.history[1].id}/revert`)
+      .set(bearer(admin))
+      .expect(400);
+  });
+
+  it("validates edits and is for admins only", async () => {
+    const target = await findByText("Paging question 2");
+    const res = await request(ctx.app)
+      .put(`/api/admin/questions/${target.id}`)
+      .set(bearer(admin))
+      .send({ ...editable(target), options: ["A", "B"], correctAnswer: 5 })
+      .expect(400);
+    expect(res.body.issues.map((i: any) => i.path).sort()).toEqual(["correctAnswer", "options"]);
+    await request(ctx.app).put("/api/admin/questions/999999").set(bearer(admin)).send(editable(target)).expect(404);
+
+    const { token } = await registerUser(ctx.app);
+    await request(ctx.app).get("/api/admin/questions").set(bearer(token)).expect(403);
+    await request(ctx.app).delete(`/api/admin/questions/${target.id}`).set(bearer(token)).expect(403);
+  });
+});
@@ -0,0 +1,131 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, TestContext } from "./helpers";
+
+const CSV = [
+  "text,option_a,option_b,option_c,option_d,answer,explanation,subject,topic,difficulty,is_important",
+  "What does 2NF remove?,Partial dependencies,Transitive dependencies,Joins,Keys,a,Because.,Database Management Systems,normalization,medium,yes",
+  "A bad answer letter,A,B,C,D,E,Because.,Database Management Systems,,Easy,",
+  "An off-syllabus topic,A,B,C,D,B,Because.,Database Management Systems,Stacks,Easy,",
+  "What does 2NF remove?,A,B,C,D,A,Again.,Database Management Systems,,Hard,",
+  '"Which is true, of ""ACID""?","Atomic,\nConsistent",B,C,D,A,"Line one\nLine two",Database Management Systems,Transactions,Hard,',
+].join("\r\n");
+
+const GIFT = `// Exported from Moodle
+What does 1 + 1 equal \\{in base 2\\}? {=10 ~11 ~01 ~2 ####Two is 10 in binary.}
+
+$CATEGORY: $course$/top/Computer Networks/OSI and TCP//IP Models
+
+// [tag:Hard] [tag:important]
+::Layers:: Which layer routes packets? {
+=Network
+~Transport#Not quite
+~Session
+~Data link
+####The network layer picks routes.
+}
+
+The speed of light is 3 \\= 10^8 m/s. {T}
+`;
+
+describe("question bank files", () => {
+  let ctx: TestContext;
+  let admin: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    admin = (await registerAdmin(ctx)).token;
+  });
+
+  const importFile = (body: object) =>
+    request(ctx.app).post("/api/admin/questions/import").set(bearer(admin)).send(body);
+
+  it("previews a CSV import with a report for each row", async () => {
+    const res = await importFile({ format: "csv", content: CSV, dry_run: true }).expect(200);
+    expect(res.body).toMatchObject({ dry_run: true, valid: 2, invalid: 3, imported: 0 });
+
+    const [first, letter, topic, repeat, quoted] = res.body.rows;
+    expect(first).toMatchObject({
+      row: 2,
+      issues: [],
+      question: { correctAnswer: 0, topic: "Normalization", difficulty: "Medium", is_important: true },
+    });
+    expect(letter).toEqual({ row: 3, question: null, issues: [{ path: "correctAnswer", message: "Answer must be A, B, C or D" }] });
+    expect(topic.issues).toEqual([{ path: "topic", message: '"Stacks" is not a Database Management Systems topic' }]);
+    expect(repeat.issues).toEqual([{ path: "text", message: "Repeats row 2" }]);
+    expect(quoted).toMatchObject({
+      row: 6,
+      question: { text: 'Which is true, of "ACID"?', options: ["Atomic,\nConsistent", "B", "C", "D"], explanation: "Line one\nLine two" },
+    });
+
+    // Nothing is stored on a dry run
+    const bank = await request(ctx.app).get("/api/admin/questions/export").set(bearer(admin)).expect(200);
+    expect(JSON.parse(bank.text)).toEqual([]);
+  });
+
+  it("imports the valid rows and skips questions already in the bank", async () => {
+    const res = await importFile({ format: "csv", content: CSV }).expect(200);
+    expect(res.body).toMatchObject({ dry_run: false, valid: 2, imported: 2 });
+
+    const again = await importFile({ format: "csv", content: CSV, dry_run: true }).expect(200);
+    expect(again.body.valid).toBe(0);
+    expect(again.body.rows[0].issues).toEqual([{ path: "text", message: "Already in the question bank" }]);
+  });
+
+  it("reads GIFT categories, tags, escapes and feedback", async () => {
+    const res = await importFile({ format: "gift", content: GIFT, subject: "Mathematics", dry_run: true }).expect(200);
+    const [binary, routing, trueFalse] = res.body.rows;
+    // Questions before any category take the subject sent with the file
+    expect(binary).toMatchObject({
+      row: 2,
+      question: { text: "What does 1 + 1 equal {in base 2}?", correctAnswer: 0, subject: "Mathematics", difficulty: "Medium" },
+    });
+    expect(routing).toMatchObject({
+      row: 7,
+      question: {
+        text: "Which layer routes packets?",
+        options: ["Network", "Transport", "Session", "Data link"],
+        correctAnswer: 0,
+        explanation: "The network layer picks routes.",
+        subject: "Computer Networks",
+        topic: "OSI and TCP/IP Models",
+        difficulty: "Hard",
+        is_important: true,
+      },
+    });
+    expect(trueFalse.issues[0]).toEqual({ path: "correctAnswer", message: "Only multiple-choice questions with one right answer can be imported" });
+  });
+
+  it("exports the bank filtered, in a form that imports back", async () => {
+    await importFile({ format: "gift", content: GIFT, subject: "Mathematics" }).expect(200);
+
+    const csv = await request(ctx.app)
+      .get("/api/admin/questions/export?format=csv&subject=Database%20Management%20Systems&difficulty=Hard")
+      .set(bearer(admin))
+      .expect(200);
+    expect(csv.headers["content-type"]).toMatch(/text\/csv/);
+    expect(csv.headers["content-disposition"]).toMatch(/question-bank\.csv/);
+    const lines = csv.text.trim().split("\r\n");
+    expect(lines[0]).toBe("text,option_a,option_b,option_c,option_d,answer,explanation,subject,topic,difficulty,is_important");
+    expect(csv.text).toContain('"Which is true, of ""ACID""?"');
+    expect(csv.text).not.toContain("2NF");
+
+    for (const format of ["json", "csv", "gift"]) {
+      const file = await request(ctx.app).get(`/api/admin/questions/export?format=${format}`).set(bearer(admin)).expect(200);
+      const back = await importFile({ format, content: file.text, dry_run: true }).expect(200);
+      expect(back.body.rows).toHaveLength(4);
+      expect(back.body.rows.every((r: any) => r.issues[0]?.message === "Already in the question bank")).toBe(true);
+    }
+  });
+
+  it("rejects unreadable files and non-admins", async () => {
+    const bad = await importFile({ format: "json", content: "{not json" }).expect(400);
+    expect(bad.body.error).toBe("The file is not valid JSON");
+    const header = await importFile({ format: "csv", content: "question,answer\nQ,A" }).expect(400);
+    expect(header.body.error).toMatch(/missing columns: text, option_a/i);
+
+    const { token } = await registerUser(ctx.app);
+    await request(ctx.app).post("/api/admin/questions/import").set(bearer(token)).send({ format: "csv", content: CSV }).expect(403);
+    await request(ctx.app).get("/api/admin/questions/export").set(bearer(token)).expect(403);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { createMemoryRateLimitStore, parseRateLimit } from "../../server/rateLimit";
+import { createTestContext, registerUser, bearer, startTest } from "./helpers";
+
+describe("login lockout", () => {
+  it("locks an account after repeated failures, whatever the address", async () => {
+    const ctx = await createTestContext({ loginLockout: parseRateLimit("3/15m") });
+    const { email } = await registerUser(ctx.app);
+
+    for (let i = 0; i < 3; i++) {
+      await request(ctx.app).post("/api/auth/login").send({ email, password: "wrong-password" }).expect(401);
+    }
+
+    const locked = await request(ctx.app)
+      .post("/api/auth/login")
+      .send({ email: email.toUpperCase(), password: "password123" })
+      .expect(429);
+    expect(Number(locked.headers["retry-after"])).toBeGreaterThan(0);
+    expect(locked.body.error).toMatch(/try again in 15 minutes/i);
+  });
+
+  it("counts guesses sent at once before any of them is checked", async () => {
+    const ctx = await createTestContext({ loginLockout: parseRateLimit("3/15m") });
+    const { email } = await registerUser(ctx.app);
+
+    const guesses = await Promise.all(Array.from({ length: 6 }, () =>
+      request(ctx.app).post("/api/auth/login").send({ email, password: "wrong-password" })
+    ));
+    expect(guesses.map(res => res.status).sort()).toEqual([401, 401, 401, 429, 429, 429]);
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "password123" }).expect(429);
+  });
+
+  it("clears the failure count on a successful sign-in", async () => {
+    const ctx = await createTestContext({ loginLockout: parseRateLimit("2/15m") });
+    const { email } = await registerUser(ctx.app);
+
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "wrong-password" }).expect(401);
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "password123" }).expect(200);
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "wrong-password" }).expect(401);
+    await request(ctx.app).post("/api/auth/login").send({ email, password: "password123" }).expect(200);
+  });
+});
+
+describe("request limits", () => {
+  it("limits auth requests per IP", async () => {
+    const ctx = await createTestContext({ auth: parseRateLimit("2/1m") });
+    const body = { email: "nobody@example.com", password: "password123" };
+
+    await request(ctx.app).post("/api/auth/login").send(body).expect(401);
+    await request(ctx.app).post("/api/auth/login").send(body).expect(401);
+    const res = await request(ctx.app).post("/api/auth/login").send(body).expect(429);
+    expect(res.headers["retry-after"]).toBeDefined();
+  });
+
+  it("limits rejected session renewals per IP, apart from the auth bucket", async () => {
+    const ctx = await createTestContext({ auth: parseRateLimit("1/1m"), refresh: parseRateLimit("2/1m") });
+    const { refresh_token } = (await request(ctx.app)
+      .post("/api/auth/register")
+      .send({ name: "Renewing Student", email: "renew@example.com", password: "password123" })
+      .expect(200)).body;
+
+    // The IP's one auth request is spent, yet each new token can still be renewed
+    let current = refresh_token;
+    for (let i = 0; i < 3; i++) {
+      current = (await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: current }).expect(200)).body.refresh_token;
+    }
+
+    // Guesses are counted whatever token they try
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: "guessed-1" }).expect(401);
+    await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: "guessed-2" }).expect(401);
+    const res = await request(ctx.app).post("/api/auth/refresh").send({ refresh_token: "guessed-3" }).expect(429);
+    expect(res.body.error).toMatch(/too many invalid refresh tokens/i);
+  });
+
+  it("limits reset emails per address", async () => {
+    const ctx = await createTestContext({ passwordReset: parseRateLimit("1/1h") });
+    const { email } = await registerUser(ctx.app);
+
+    await request(ctx.app).post("/api/auth/forgot").send({ email }).expect(200);
+    await request(ctx.app).post("/api/auth/forgot").send({ email }).expect(429);
+    expect(ctx.outbox.filter(m => m.subject.match(/reset/i))).toHaveLength(1);
+  });
+
+  it("limits generation requests per user", async () => {
+    const ctx = await createTestContext({ aiPerUser: parseRateLimit("1/1m") });
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+
+    await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: sessionId, start: 0, count: 1 })
+      .expect(429);
+
+    const other = await registerUser(ctx.app);
+    await startTest(ctx.app, other.token);
+  });
+});
+
+describe("memory rate limit store", () => {
+  it("starts a new window once the old one expires", async () => {
+    let now = 0;
+    const store = createMemoryRateLimitStore(() => now);
+
+    expect((await store.increment("k", 1000)).count).toBe(1);
+    expect(await store.increment("k", 1000)).toEqual({ count: 2, resetAt: 1000 });
+    now = 1000;
+    expect(await store.get("k")).toBeNull();
+    expect(await store.increment("k", 1000)).toEqual({ count: 1, resetAt: 2000 });
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, startTest, bearer, TestContext } from "./helpers";
+
+describe("resuming a test", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+  });
+
+  const saveAnswer = (token: string, sessionId: number, position: number, body: object) =>
+    request(ctx.app).put(`/api/tests/sessions/${sessionId}/answers/${position}`).set(bearer(token)).send(body);
+
+  it("returns issued questions and autosaved answers with the time left", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+
+    await saveAnswer(token, sessionId, 0, { selected_option: 2, time_spent: 14 }).expect(200);
+    await saveAnswer(token, sessionId, 1, { selected_option: 1, time_spent: 5 }).expect(200);
+    await saveAnswer(token, sessionId, 1, { selected_option: 3, time_spent: 9 }).expect(200);
+
+    const res = await request(ctx.app).get(`/api/tests/sessions/${sessionId}`).set(bearer(token)).expect(200);
+    expect(res.body).toMatchObject({
+      id: sessionId,
+      test_type: "Subject",
+      subject: "Data Structures",
+      total_questions: 30,
+      answered: 2,
+      answers: { 0: 2, 1: 3 },
+      time_spent: { 0: 14, 1: 9 },
+    });
+    expect(res.body.questions).toHaveLength(3);
+    expect(res.body.questions[0]).not.toHaveProperty("correctAnswer");
+    expect(res.body.remaining_seconds).toBeGreaterThan(29 * 60);
+    expect(res.body.remaining_seconds).toBeLessThanOrEqual(30 * 60);
+  });
+
+  it("lists the latest unfinished test as active until it is submitted", async () => {
+    const { token } = await registerUser(ctx.app);
+    await request(ctx.app).get("/api/tests/sessions/active").set(bearer(token)).expect(200, "null");
+
+    const { sessionId } = await startTest(ctx.app, token);
+    await saveAnswer(token, sessionId, 2, { selected_option: 0 }).expect(200);
+    const active = await request(ctx.app).get("/api/tests/sessions/active").set(bearer(token)).expect(200);
+    expect(active.body).toMatchObject({ id: sessionId, answered: 1 });
+
+    await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({}).expect(200);
+    await request(ctx.app).get("/api/tests/sessions/active").set(bearer(token)).expect(200, "null");
+    await request(ctx.app).get(`/api/tests/sessions/${sessionId}`).set(bearer(token)).expect(409);
+  });
+
+  it("grades autosaved answers the submission leaves out", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+    const stored = await ctx.repos.testSessions.listQuestions(sessionId);
+
+    await saveAnswer(token, sessionId, 0, { selected_option: stored[0].question.correctAnswer, time_spent: 20 }).expect(200);
+    const res = await request(ctx.app)
+      .post(`/api/tests/sessions/${sessionId}/submit`)
+      .set(bearer(token))
+      .send({ answers: { 1: stored[1].question.correctAnswer } })
+      .expect(200);
+    expect(res.body.score).toBe(2);
+    expect(res.body.items[0].time_spent).toBe(20);
+  });
+
+  it("rejects autosaves for questions that were not issued, and autosaves or new questions after time is up", async () => {
+    const { token } = await registerUser(ctx.app);
+    const other = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+
+    await saveAnswer(token, sessionId, 7, { selected_option: 0 }).expect(404);
+    await saveAnswer(token, sessionId, 0, { selected_option: 4 }).expect(400);
+    await saveAnswer(other.token, sessionId, 0, { selected_option: 0 }).expect(404);
+
+    await ctx.db.query("UPDATE test_sessions SET deadline = LOCALTIMESTAMP - INTERVAL '5 minutes' WHERE id = $1", [sessionId]);
+    await saveAnswer(token, sessionId, 0, { selected_option: 0 }).expect(409);
+    await request(ctx.app).get("/api/tests/sessions/active").set(bearer(token)).expect(200, "null");
+
+    // Nor is the rest of the paper generated once time is up
+    const late = await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: sessionId, start: 3, count: 3 })
+      .expect(409);
+    expect(late.body.error).toBe("Time is up for this test");
+  });
+
+  it("ignores answers submitted after the deadline", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+    const stored = await ctx.repos.testSessions.listQuestions(sessionId);
+
+    await saveAnswer(token, sessionId, 0, { selected_option: stored[0].question.correctAnswer }).expect(200);
+    await ctx.db.query("UPDATE test_sessions SET deadline = LOCALTIMESTAMP - INTERVAL '5 minutes' WHERE id = $1", [sessionId]);
+
+    const answers = Object.fromEntries(stored.map(({ position, question }) => [position, question.correctAnswer]));
+    const res = await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({ answers }).expect(200);
+    expect(res.body.score).toBe(1);
+  });
+});
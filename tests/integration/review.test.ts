@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, startTest, bearer, TestContext } from "./helpers";
+import { scheduleReview } from "../../server/review";
+
+describe("review queue", () => {
+  let ctx: TestContext;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+  });
+
+  it("queues wrongly answered questions on submit, but not skipped or correct ones", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+    const key = (await ctx.repos.testSessions.listQuestions(sessionId)).map(r => r.question);
+
+    await request(ctx.app)
+      .post(`/api/tests/sessions/${sessionId}/submit`)
+      .set(bearer(token))
+      .send({ answers: { 0: key[0].correctAnswer, 1: (key[1].correctAnswer + 1) % 4 } })
+      .expect(200);
+
+    const res = await request(ctx.app).get("/api/review/next").set(bearer(token)).expect(200);
+    expect(res.body).toMatchObject({ due: 1, total: 1 });
+    expect(res.body.card).toMatchObject({ source: "missed", repetitions: 0, ease_factor: 2.5 });
+    expect(res.body.card.question.text).toBe(key[1].text);
+    expect(res.body.card.question.correctAnswer).toBe(key[1].correctAnswer);
+  });
+
+  it("queues bookmarks once their test is submitted, one card per question", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+    for (let i = 0; i < 2; i++) {
+      await request(ctx.app).post("/api/bookmarks").set(bearer(token)).send({ session_id: sessionId, position: 0 }).expect(200);
+    }
+
+    // A card would show the answer key of a test still being answered
+    const early = await request(ctx.app).get("/api/review/next").set(bearer(token)).expect(200);
+    expect(early.body).toEqual({ card: null, due: 0, total: 0 });
+
+    await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({}).expect(200);
+    await request(ctx.app).post("/api/bookmarks").set(bearer(token)).send({ session_id: sessionId, position: 0 }).expect(200);
+    const res = await request(ctx.app).get("/api/review/next").set(bearer(token)).expect(200);
+    expect(res.body).toMatchObject({ due: 1, total: 1, card: { source: "bookmark" } });
+  });
+
+  it("reschedules a graded card out of the due queue", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { sessionId } = await startTest(ctx.app, token);
+    await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({}).expect(200);
+    await request(ctx.app).post("/api/bookmarks").set(bearer(token)).send({ session_id: sessionId, position: 0 }).expect(200);
+    const { body } = await request(ctx.app).get("/api/review/next").set(bearer(token)).expect(200);
+
+    const graded = await request(ctx.app)
+      .post(`/api/review/${body.card.id}/grade`)
+      .set(bearer(token))
+      .send({ grade: 4 })
+      .expect(200);
+    expect(graded.body).toMatchObject({ repetitions: 1, interval_days: 1, ease_factor: 2.5 });
+    expect(graded.body.last_reviewed_at).not.toBeNull();
+
+    const after = await request(ctx.app).get("/api/review/next").set(bearer(token)).expect(200);
+    expect(after.body).toEqual({ card: null, due: 0, total: 1 });
+
+    // Cards are private to their owner, and grades stay on the SM-2 scale
+    const other = await registerUser(ctx.app);
+    await request(ctx.app).post(`/api/review/${body.card.id}/grade`).set(bearer(other.token)).send({ grade: 4 }).expect(404);
+    await request(ctx.app).post(`/api/review/${body.card.id}/grade`).set(bearer(token)).send({ grade: 6 }).expect(400);
+  });
+
+  it("spaces intervals out by the ease factor and relearns lapses", () => {
+    let card = { ease_factor: 2.5, interval_days: 0, repetitions: 0, lapses: 0 };
+    const intervals = [5, 5, 4].map(grade => (card = scheduleReview(card, grade)).interval_days);
+    expect(intervals).toEqual([1, 6, 16]);
+    expect(card.ease_factor).toBe(2.7);
+
+    expect(scheduleReview(card, 1)).toEqual({ ease_factor: 2.16, interval_days: 1, repetitions: 0, lapses: 1 });
+    expect(scheduleReview({ ...card, ease_factor: 1.3 }, 0).ease_factor).toBe(1.3);
+  });
+});
@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, TestContext } from "./helpers";
+
+// Two sections of two questions; the second counts double
+const penalisedPaper = {
+  name: "Negative Marking Paper",
+  duration_minutes: 10,
+  difficulty_mix: { Easy: 40, Medium: 40, Hard: 20 },
+  scoring: { correct: 4, wrong: 1, unattempted: 0 },
+  sections: [
+    { name: "Mathematics", subjects: ["Mathematics"], questions: 2 },
+    { name: "Data Structures", subjects: ["Data Structures"], questions: 2, weight: 2 },
+  ],
+};
+
+describe("scoring schemes", () => {
+  let ctx: TestContext;
+  let admin: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    admin = (await registerAdmin(ctx)).token;
+  });
+
+  // Starts a full mock on the blueprint and has all four questions issued
+  async function startPaper(token: string, blueprintId: number) {
+    const session = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Full", blueprint_id: blueprintId })
+      .expect(200);
+    await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: session.body.id, start: 0, count: 4 })
+      .expect(200);
+    const stored = await ctx.repos.testSessions.listQuestions(session.body.id);
+    return { session: session.body, key: stored.map(r => r.question.correctAnswer) };
+  }
+
+  it("applies marks, penalties and section weights on submit", async () => {
+    const blueprint = await request(ctx.app).post("/api/admin/blueprints").set(bearer(admin)).send(penalisedPaper).expect(200);
+    const { token } = await registerUser(ctx.app);
+    const { session, key } = await startPaper(token, blueprint.body.id);
+    expect(session.scoring).toEqual(penalisedPaper.scoring);
+
+    // Right and wrong in Mathematics, wrong and skipped in Data Structures
+    const answers = { 0: key[0], 1: (key[1] + 1) % 4, 2: (key[2] + 1) % 4 };
+    const res = await request(ctx.app)
+      .post(`/api/tests/sessions/${session.id}/submit`)
+      .set(bearer(token))
+      .send({ answers })
+      .expect(200);
+
+    expect(res.body).toMatchObject({ score: 1, total: 4, marks: 1, max_marks: 24, scoring: penalisedPaper.scoring });
+    expect(res.body.sections).toEqual([
+      { name: "Mathematics", weight: 1, correct: 1, wrong: 1, unattempted: 0, marks: 3, max_marks: 8 },
+      { name: "Data Structures", weight: 2, correct: 0, wrong: 1, unattempted: 1, marks: -2, max_marks: 16 },
+    ]);
+
+    const history = await request(ctx.app).get("/api/tests/history").set(bearer(token)).expect(200);
+    expect(history.body[0]).toMatchObject({ score: 1, marks: 1, max_marks: 24 });
+  });
+
+  it("ranks the leaderboard by marks rather than correct answers", async () => {
+    const blueprint = await request(ctx.app).post("/api/admin/blueprints").set(bearer(admin)).send(penalisedPaper).expect(200);
+    const guesser = await registerUser(ctx.app, "Guesser");
+    const careful = await registerUser(ctx.app, "Careful");
+
+    // Both get two right; the guesser also gets two wrong
+    const guessed = await startPaper(guesser.token, blueprint.body.id);
+    await request(ctx.app)
+      .post(`/api/tests/sessions/${guessed.session.id}/submit`)
+      .set(bearer(guesser.token))
+      .send({ answers: { 0: guessed.key[0], 1: (guessed.key[1] + 1) % 4, 2: guessed.key[2], 3: (guessed.key[3] + 1) % 4 } })
+      .expect(200);
+    const skipped = await startPaper(careful.token, blueprint.body.id);
+    await request(ctx.app)
+      .post(`/api/tests/sessions/${skipped.session.id}/submit`)
+      .set(bearer(careful.token))
+      .send({ answers: { 0: skipped.key[0], 2: skipped.key[2] } })
+      .expect(200);
+
+    const board = await request(ctx.app).get("/api/leaderboard?test_type=Full").set(bearer(careful.token)).expect(200);
+    const names = board.body.entries.map((e: any) => e.name);
+    expect(names.indexOf("Careful")).toBeLessThan(names.indexOf("Guesser"));
+    expect(board.body.me).toMatchObject({ name: "Careful", total_score: 12, possible_score: 24, avg_accuracy: 50 });
+  });
+
+  it("rejects schemes that reward wrong answers", async () => {
+    const res = await request(ctx.app)
+      .post("/api/admin/blueprints")
+      .set(bearer(admin))
+      .send({ ...penalisedPaper, scoring: { correct: 0, wrong: -1 } })
+      .expect(400);
+    const fields = res.body.issues.map((i: any) => i.path);
+    expect(fields).toEqual(expect.arrayContaining(["scoring.correct", "scoring.wrong"]));
+  });
+});
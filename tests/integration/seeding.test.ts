@@ -0,0 +1,106 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, TestContext } from "./helpers";
+
+const question = (text: string, overrides = {}) => ({
+  text,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 2,
+  explanation: "Because.",
+  subject: "Computer Networks",
+  difficulty: "Easy",
+  is_important: false,
+  ...overrides,
+});
+
+describe("static question seeding", () => {
+  let ctx: TestContext;
+  let adminToken: string;
+  let studentToken: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    ({ token: adminToken } = await registerAdmin(ctx));
+    ({ token: studentToken } = await registerUser(ctx.app));
+  });
+
+  it("is restricted to admins", async () => {
+    await request(ctx.app)
+      .post("/api/admin/seed-static")
+      .set(bearer(studentToken))
+      .send({ questions: [question("Q")] })
+      .expect(403);
+    await request(ctx.app).get("/api/admin/static-count").set(bearer(studentToken)).expect(403);
+  });
+
+  it("queues seeded questions until an admin approves them", async () => {
+    const res = await request(ctx.app)
+      .post("/api/admin/seed-static")
+      .set(bearer(adminToken))
+      .send({
+        questions: [
+          question("What does TCP stand for?", { is_important: true }),
+          question("Which layer routes packets?"),
+          question("Flagged key", { verification: "needs_review", verified_answer: 1 }),
+          question("What is a B-tree?", { subject: "Database Management Systems" }),
+          question("A question nobody should see"),
+        ],
+      })
+      .expect(200);
+    expect(res.body).toEqual({ success: true, count: 5, ids: expect.any(Array), skipped: 0 });
+    const [tcp, routing, flagged, btree, bad] = res.body.ids;
+
+    // Nothing is served or counted while it waits
+    const queue = await request(ctx.app).get("/api/admin/questions?approval=pending").set(bearer(adminToken)).expect(200);
+    expect(queue.body.total).toBe(5);
+    expect((await request(ctx.app).get("/api/questions/important").expect(200)).body).toEqual([]);
+    expect((await request(ctx.app).get("/api/admin/static-count").set(bearer(adminToken)).expect(200)).body).toEqual([]);
+
+    const approved = await request(ctx.app)
+      .post("/api/admin/questions/approve")
+      .set(bearer(adminToken))
+      .send({ ids: [tcp, routing, flagged, btree] })
+      .expect(200);
+    expect(approved.body).toEqual({ updated: 4 });
+    await request(ctx.app).post("/api/admin/questions/reject").set(bearer(adminToken)).send({ ids: [bad] }).expect(200);
+    // Deciding again changes nothing
+    const again = await request(ctx.app).post("/api/admin/questions/approve").set(bearer(adminToken)).send({ ids: [tcp] }).expect(200);
+    expect(again.body).toEqual({ updated: 0 });
+    // ...unless the approved question's key has since been flagged
+    await ctx.db.query("UPDATE static_questions SET verification = 'needs_review', verified_answer = 1 WHERE id = $1", [routing]);
+    const flaggedAgain = await request(ctx.app).post("/api/admin/questions/approve").set(bearer(adminToken)).send({ ids: [routing] }).expect(200);
+    expect(flaggedAgain.body).toEqual({ updated: 1 });
+
+    const detail = await request(ctx.app).get(`/api/admin/questions/${bad}`).set(bearer(adminToken)).expect(200);
+    expect(detail.body.question.approval).toBe("rejected");
+    expect(detail.body.history.map((r: any) => r.action)).toEqual(["reject"]);
+
+    // The admin approved the key the check disagreed with
+    const flaggedDetail = await request(ctx.app).get(`/api/admin/questions/${flagged}`).set(bearer(adminToken)).expect(200);
+    expect(flaggedDetail.body.question).toMatchObject({ approval: "approved", verification: "verified", verified_answer: 2 });
+
+    const counts = await request(ctx.app).get("/api/admin/static-count").set(bearer(adminToken)).expect(200);
+    expect(counts.body).toEqual(expect.arrayContaining([
+      { subject: "Computer Networks", count: 3 },
+      { subject: "Database Management Systems", count: 1 },
+    ]));
+  });
+
+  it("serves approved questions, approval settling a flagged answer key", async () => {
+    const bySubject = await request(ctx.app).get("/api/questions/static/Computer%20Networks").expect(200);
+    expect(bySubject.body.map((q: any) => q.text).sort()).toEqual(["Flagged key", "What does TCP stand for?", "Which layer routes packets?"]);
+    expect(bySubject.body[0]).toMatchObject({ correctAnswer: 2, options: ["A", "B", "C", "D"] });
+
+    const important = await request(ctx.app).get("/api/questions/important").expect(200);
+    expect(important.body.map((q: any) => q.text)).toEqual(["What does TCP stand for?"]);
+  });
+
+  it("only lets admins approve", async () => {
+    await request(ctx.app).post("/api/admin/questions/approve").set(bearer(studentToken)).send({ ids: [1] }).expect(403);
+    await request(ctx.app).post("/api/admin/questions/approve").set(bearer(adminToken)).send({ ids: [] }).expect(400);
+  });
+
+  it("rejects a payload without a question list", async () => {
+    await request(ctx.app).post("/api/admin/seed-static").set(bearer(adminToken)).send({}).expect(400);
+  });
+});
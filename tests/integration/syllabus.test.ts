@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, bearer, seedApproved, startTest, TestContext } from "./helpers";
+
+const question = (text: string, overrides = {}) => ({
+  text,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 1,
+  explanation: "Because.",
+  subject: "Database Management Systems",
+  difficulty: "Medium",
+  ...overrides,
+});
+
+describe("syllabus topics", () => {
+  let ctx: TestContext;
+  let admin: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    admin = (await registerAdmin(ctx)).token;
+  });
+
+  it("serves the syllabus as subject, unit and topic", async () => {
+    const { token } = await registerUser(ctx.app);
+    const res = await request(ctx.app).get("/api/syllabus").set(bearer(token)).expect(200);
+    const dbms = res.body.find((s: any) => s.subject === "Database Management Systems");
+    expect(dbms.units.find((u: any) => u.name === "Database Design").topics).toEqual(["Functional Dependencies", "Normalization"]);
+    expect(dbms.units.find((u: any) => u.name === "Transactions").topics).toContain("Transactions");
+  });
+
+  it("tags generated test questions with their topic", async () => {
+    const { token } = await registerUser(ctx.app);
+    const { questions } = await startTest(ctx.app, token, "Data Structures", 3);
+    expect(questions.every(q => ["Stacks", "Algorithm Analysis", "Binary Trees"].includes(q.topic))).toBe(true);
+  });
+
+  it("narrows a subject test to the chosen topics", async () => {
+    const { token } = await registerUser(ctx.app);
+    const session = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Subject", subject: "Database Management Systems", topics: ["Transactions", "Concurrency Control"] })
+      .expect(200);
+    expect(session.body.sections[0].topics).toEqual(["Transactions", "Concurrency Control"]);
+
+    const issued = await request(ctx.app)
+      .post("/api/ai/questions")
+      .set(bearer(token))
+      .send({ session_id: session.body.id, start: 0, count: 2 })
+      .expect(200);
+    expect(issued.body.questions).toHaveLength(2);
+    expect(issued.body.questions.every((q: any) => ["Transactions", "Concurrency Control"].includes(q.topic))).toBe(true);
+
+    const res = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Subject", subject: "Database Management Systems", topics: ["Stacks"] })
+      .expect(400);
+    expect(res.body.error).toMatch(/unknown database management systems topic: stacks/i);
+  });
+
+  it("focuses question bank generation on topics", async () => {
+    const res = await request(ctx.app)
+      .post("/api/ai/question-bank")
+      .set(bearer(admin))
+      .send({ subject: "Database Management Systems", difficulty: "Medium", count: 1, topics: ["Normalization"], verify: false })
+      .expect(200);
+    expect(res.body.questions.map((q: any) => q.topic)).toEqual(["Normalization"]);
+
+    await request(ctx.app)
+      .post("/api/ai/question-bank")
+      .set(bearer(admin))
+      .send({ subject: "Database Management Systems", difficulty: "Medium", count: 1, topics: ["Pointers"] })
+      .expect(400);
+  });
+
+  it("stores topics on seeded questions and filters the pool by them", async () => {
+    const bad = await request(ctx.app)
+      .post("/api/admin/seed-static")
+      .set(bearer(admin))
+      .send({ questions: [question("Tagged with another subject's topic", { topic: "Stacks" })] })
+      .expect(400);
+    expect(bad.body.issues).toEqual([{ path: "questions.0.topic", message: expect.stringMatching(/not a database management systems topic/i) }]);
+
+    await seedApproved(ctx.app, admin, [
+      question("What does 3NF remove?", { topic: "Normalization" }),
+      question("What does ACID stand for?", { topic: "Transactions" }),
+      question("An untagged DBMS question"),
+    ]);
+
+    const normalization = await request(ctx.app)
+      .get(`/api/questions/static/${encodeURIComponent("Database Management Systems")}?topic=Normalization`)
+      .expect(200);
+    expect(normalization.body.map((q: any) => q.text)).toEqual(["What does 3NF remove?"]);
+    const all = await request(ctx.app).get(`/api/questions/static/${encodeURIComponent("Database Management Systems")}`).expect(200);
+    expect(all.body).toHaveLength(3);
+  });
+});
@@ -0,0 +1,98 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, startTest, bearer, TestContext } from "./helpers";
+
+describe("test session routes", () => {
+  let ctx: TestContext;
+  let token: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    ({ token } = await registerUser(ctx.app));
+  });
+
+  it("validates the test type and subject", async () => {
+    await request(ctx.app).post("/api/tests/sessions").set(bearer(token)).send({ test_type: "Quiz" }).expect(400);
+    await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(token))
+      .send({ test_type: "Subject", subject: "Astrology" })
+      .expect(400);
+  });
+
+  it("issues questions without their answer keys", async () => {
+    const { questions } = await startTest(ctx.app, token);
+    expect(questions.map(q => q.position)).toEqual([0, 1, 2]);
+    for (const q of questions) {
+      expect(q.subject).toBe("Data Structures");
+      expect(q).not.toHaveProperty("correctAnswer");
+      expect(q).not.toHaveProperty("explanation");
+    }
+  });
+
+  it("scores a submission on the server and records it in history", async () => {
+    const { sessionId } = await startTest(ctx.app, token);
+    const stored = await ctx.repos.testSessions.listQuestions(sessionId);
+    const answers = {
+      0: stored[0].question.correctAnswer,
+      1: (stored[1].question.correctAnswer + 1) % 4,
+    };
+
+    const res = await request(ctx.app)
+      .post(`/api/tests/sessions/${sessionId}/submit`)
+      .set(bearer(token))
+      .send({ answers, time_spent: { 0: 12, 1: 30 } })
+      .expect(200);
+    // Only 3 of the paper's 30 questions were issued; the rest count as unattempted
+    expect(res.body).toMatchObject({ score: 1, total: 30, marks: 1, max_marks: 30, test_type: "Subject", subject: "Data Structures" });
+    expect(res.body.items.map((i: any) => i.selected_option)).toEqual([answers[0], answers[1], null]);
+    expect(res.body.items[0].time_spent).toBe(12);
+
+    const history = await request(ctx.app).get("/api/tests/history").set(bearer(token)).expect(200);
+    expect(history.body.map((a: any) => a.id)).toContain(res.body.id);
+
+    const detail = await request(ctx.app).get(`/api/tests/${res.body.id}`).set(bearer(token)).expect(200);
+    expect(detail.body.items).toHaveLength(3);
+  });
+
+  it("refuses a second submit of the same session", async () => {
+    const { sessionId } = await startTest(ctx.app, token);
+    const submit = () => request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({ answers: {} });
+    await submit().expect(200);
+    await submit().expect(409);
+  });
+
+  it("refuses to submit a test before any question is issued", async () => {
+    const { token: fresh } = await registerUser(ctx.app);
+    const session = await request(ctx.app)
+      .post("/api/tests/sessions")
+      .set(bearer(fresh))
+      .send({ test_type: "Subject", subject: "Data Structures" })
+      .expect(200);
+    const res = await request(ctx.app).post(`/api/tests/sessions/${session.body.id}/submit`).set(bearer(fresh)).send({}).expect(409);
+    expect(res.body.error).toBe("No questions have been issued for this test yet");
+
+    // Nothing is recorded, so there is no attempt out of zero to rank
+    expect((await request(ctx.app).get("/api/tests/history").set(bearer(fresh)).expect(200)).body).toEqual([]);
+    await request(ctx.app).get("/api/leaderboard").set(bearer(fresh)).expect(200);
+  });
+
+  it("rejects answers for questions that were never issued", async () => {
+    const { sessionId } = await startTest(ctx.app, token);
+    const res = await request(ctx.app)
+      .post(`/api/tests/sessions/${sessionId}/submit`)
+      .set(bearer(token))
+      .send({ answers: { 7: 0 } })
+      .expect(400);
+    expect(res.body.error).toBe("Answers do not match the issued test");
+  });
+
+  it("keeps other users' sessions and attempts private", async () => {
+    const { sessionId } = await startTest(ctx.app, token);
+    const other = await registerUser(ctx.app);
+    await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(other.token)).send({ answers: {} }).expect(404);
+
+    const res = await request(ctx.app).post(`/api/tests/sessions/${sessionId}/submit`).set(bearer(token)).send({ answers: {} });
+    await request(ctx.app).get(`/api/tests/${res.body.id}`).set(bearer(other.token)).expect(404);
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import { createTestContext, registerUser, registerAdmin, startTest, bearer, TestContext } from "./helpers";
+
+describe("request validation", () => {
+  let ctx: TestContext;
+  let token: string;
+  let adminToken: string;
+
+  beforeAll(async () => {
+    ctx = await createTestContext();
+    ({ token } = await registerUser(ctx.app));
+    ({ token: adminToken } = await registerAdmin(ctx));
+  });
+
+  it("reports every invalid registration field by path", async () => {
+    const res = await request(ctx.app)
+      .post("/api/auth/register")
+      .send({ name: "  ", email: "not-an-email", password: "" })
+      .expect(400);
+    expect(res.body.error).toBe("Name is required");
+    expect(res.body.issues).toEqual([
+      { path: "name", message: "Name is required" },
+      { path: "email", message: "Enter a valid email address" },
+      { path: "password", message: "Password must be at least 8 characters" },
+    ]);
+  });
+
+  it("flags a taken email on the email field", async () => {
+    const { email } = await registerUser(ctx.app);
+    const res = await request(ctx.app)
+      .post("/api/auth/register")
+      .send({ name: "Again", email, password: "password123" })
+      .expect(400);
+    expect(res.body.issues).toEqual([{ path: "email", message: "Email already exists" }]);
+  });
+
+  it("points at the offending question when seeding", async () => {
+    const good = {
+      text: "Q",
+      options: ["A", "B", "C", "D"],
+      correctAnswer: 1,
+      explanation: "E",
+      subject: "Physics",
+      difficulty: "Easy",
+    };
+    const res = await request(ctx.app)
+      .post("/api/admin/seed-static")
+      .set(bearer(adminToken))
+      .send({ questions: [good, { ...good, options: ["A", "B"], correctAnswer: 7 }] })
+      .expect(400);
+    expect(res.body.issues.map((i: any) => i.path)).toEqual(["questions.1.options", "questions.1.correctAnswer"]);
+
+    const counts = await request(ctx.app).get("/api/admin/static-count").set(bearer(adminToken));
+    expect(counts.body).toEqual([]);
+  });
+
+  it("rejects malformed test submissions", async () => {
+    const { sessionId } = await startTest(ctx.app, token);
+    const res = await request(ctx.app)
+      .post(`/api/tests/sessions/${sessionId}/submit`)
+      .set(bearer(token))
+      .send({ answers: { 0: "B" }, time_spent: { 0: -5 } })
+      .expect(400);
+    expect(res.body.issues.map((i: any) => i.path)).toEqual(["answers.0", "time_spent.0"]);
+  });
+
+  it("checks generation requests before charging quota", async () => {
+    const res = await request(ctx.app)
+      .post("/api/ai/question-bank")
+      .set(bearer(adminToken))
+      .send({ subject: "Astrology", difficulty: "Medium", count: 500 })
+      .expect(400);
+    expect(res.body.issues).toEqual([
+      { path: "subject", message: "Choose a valid subject" },
+      { path: "count", message: "Count must be at most 50" },
+    ]);
+  });
+});
@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    env: {
+      DB_DRIVER: "memory",
+      LLM_PROVIDER: "fixture",
+      JWT_SECRET: "test-secret",
+    },
+  },
+});